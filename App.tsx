@@ -1,320 +1,988 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Recorder } from './components/Recorder';
 import { MoodFlower } from './components/MoodFlower';
-import { analyzeSession, generateAffirmationAudio } from './services/geminiService';
-import { AnalysisResult, MediaType, ProcessingState } from './types';
-import { RotateCcw, Volume2, VolumeX, Download, AlertTriangle, PlayCircle, PauseCircle } from 'lucide-react';
+import { Journal } from './components/Journal';
+import { MoodGarden } from './components/MoodGarden';
+import { MoodDashboard } from './components/MoodDashboard';
+import { CrisisSupport } from './components/CrisisSupport';
+import { SettingsPanel } from './components/SettingsPanel';
+import { BreathingExercise } from './components/BreathingExercise';
+import { FollowUpPanel } from './components/FollowUpPanel';
+import { LockScreen } from './components/LockScreen';
+import { CopingStepCard } from './components/CopingStepCard';
+import { AffirmationControls } from './components/AffirmationControls';
+import { FlowerShare } from './components/FlowerShare';
+import { AcousticPanel } from './components/AcousticPanel';
+import { SafetyCheck } from './components/SafetyCheck';
+import { SafetyPlanCard } from './components/SafetyPlanCard';
+import { AffirmationCaptions } from './components/AffirmationCaptions';
+import { getAnalysisProvider } from './services/analysisProvider';
+import { enqueueSession, listSessions, loadSafetyPlan, saveSession, updateSession } from './services/journalStore';
+import { discardQueuedSessions, drainQueue, isOffline, retryQueuedSessions } from './services/offlineQueue';
+import { scheduleReminders, syncReminders } from './services/reminders';
+import { copingHistoryFor, upsertPractice } from './services/copingTracker';
+import { AnalysisRequestError, ERROR_MESSAGES, classifyError, withRetry } from './services/requestPipeline';
+import { getDistressTier, resolveCrisisRegion } from './services/crisisResources';
+import { loadSettings, saveSettings } from './services/settings';
+import { isVaultLocked, lockVault } from './services/vault';
+import { deleteEverything } from './services/dataExport';
+import { matchBreathingPattern } from './services/breathing';
+import { blobToBase64, formatBytes, shareOrDownload } from './services/media';
+import { audioBufferToWav, encodeCompressed, pcm16ToAudioBuffer, supportedCompressedType } from './services/audioCodec';
+import { AffirmationPlayer, INITIAL_PLAYER_STATE, PlayerState, createAffirmationPlayer } from './services/affirmationPlayer';
+import { InlinePayload, MAX_MEDIA_BYTES, PreparedMedia, assertWithinBudget, preprocessMedia, toInlinePayload } from './services/mediaPreprocess';
+import { speakFallback, stopSpeechFallback, supportsSpeechFallback } from './services/speechFallback';
+import { LiveAnalyzer, createLiveAnalyzer, supportsLiveAnalysis } from './services/liveAnalysis';
+import { extractAcousticFeatures } from './services/acousticFeatures';
+import { focusHeading } from './services/a11y';
+import { AcousticFeatures, AnalysisResult, AppSettings, ConversationState, CopingHistory, CopingPractice, EmotionCue, DistressTier, FollowUpMessage, JournalEntry, MediaType, ProcessingState, QueuedSession, SafetyAnswer, SafetyPlan } from './types';
+import { MAX_INLINE_PAYLOAD_BYTES } from './constants';
+import { RotateCcw, Volume2, VolumeX, Download, FileAudio, AlertTriangle, PlayCircle, PauseCircle, BookOpen, Sparkles, BarChart3, Settings, Flower2, CloudOff, X } from 'lucide-react';
 import html2canvas from 'html2canvas';
 import confetti from 'canvas-confetti';
 
-const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      // Data URL format: "data:audio/webm;base64,....."
-      // We need just the base64 part
-      const result = reader.result as string;
-      const base64String = result.includes(',') ? result.split(',')[1] : result;
-      resolve(base64String);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-};
-
-const pcmToAudioBuffer = (buffer: ArrayBuffer, ctx: AudioContext): AudioBuffer => {
-  // Gemini 2.5 Flash TTS returns raw 16-bit PCM at 24kHz
-  const pcmData = new Int16Array(buffer);
-  const channels = 1;
-  const sampleRate = 24000;
-  
-  const audioBuffer = ctx.createBuffer(channels, pcmData.length, sampleRate);
-  const channelData = audioBuffer.getChannelData(0);
-  
-  // Convert Int16 to Float32 [-1.0, 1.0]
-  for (let i = 0; i < pcmData.length; i++) {
-    channelData[i] = pcmData[i] / 32768.0;
-  }
-  
-  return audioBuffer;
-};
-
-const BreathingWidget = () => (
-  <div className="flex items-center justify-center space-x-3 bg-white/50 backdrop-blur-sm px-4 py-2 rounded-full border border-white/40">
-    <div className="relative w-4 h-4 flex items-center justify-center">
+const BreathingWidget = ({ onClick }: { onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    className="flex items-center justify-center space-x-3 bg-white/50 backdrop-blur-sm px-4 py-2 rounded-full border border-white/40 hover:bg-white/80 transition-colors"
+  >
+    <div aria-hidden="true" className="relative w-4 h-4 flex items-center justify-center">
        <div className="absolute inset-0 bg-teal-400 rounded-full animate-breathe opacity-50"></div>
        <div className="absolute w-2 h-2 bg-teal-500 rounded-full animate-breathe" style={{ animationDelay: '0.5s' }}></div>
     </div>
-    <span className="text-xs font-semibold text-teal-700 tracking-wide uppercase">Inhale ... Exhale</span>
-  </div>
+    <span className="text-xs font-semibold text-teal-700 tracking-wide uppercase">Breathe with me</span>
+  </button>
 );
 
+const provider = getAnalysisProvider();
+
+const EMPTY_CONVERSATION: ConversationState = { turns: [], status: 'idle' };
+
+// What runSession needs back from each way of sharing
+interface SessionAnalysis {
+  result: AnalysisResult;
+  acoustics?: AcousticFeatures;
+}
+
+type View = 'session' | 'journal' | 'garden' | 'trends' | 'settings';
+
+// Read out by the polite live region; errors use role="alert" on their own message instead
+const statusAnnouncement = (state: ProcessingState, result: AnalysisResult | null, conversation: ConversationState): string => {
+  if (state.status === 'analyzing') return 'Reflecting on what you shared. This can take a moment.';
+  if (state.status === 'queued') return 'Saved on this device. It will be reflected on when you are back online.';
+  if (state.status !== 'completed' || !result) return '';
+  if (conversation.status === 'sending') return 'Sending your reply.';
+  if (getDistressTier(result.distressScore) === 'crisis') return 'Your reflection is ready. First, a question about your safety.';
+  const lead = conversation.turns.length ? 'A new reflection on your reply.' : 'Your reflection is ready.';
+  return `${lead} You seem to be feeling ${result.emotion}. ${result.empathySummary}`;
+};
+
+const NAV_ITEMS: { view: View; label: string; Icon: typeof Sparkles }[] = [
+  { view: 'session', label: 'Reflect', Icon: Sparkles },
+  { view: 'journal', label: 'Journal', Icon: BookOpen },
+  { view: 'garden', label: 'Garden', Icon: Flower2 },
+  { view: 'trends', label: 'Trends', Icon: BarChart3 },
+  { view: 'settings', label: 'Settings', Icon: Settings }
+];
+
 export default function App() {
+  const [locked, setLocked] = useState(isVaultLocked);
+  const [view, setView] = useState<View>('session');
+  // Journal entry to open and scroll to, e.g. when a flower in the garden is tapped
+  const [journalFocusId, setJournalFocusId] = useState<string | undefined>(undefined);
   const [state, setState] = useState<ProcessingState>({ status: 'idle' });
   const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
+  // The first reflection of the session; `result` follows the latest follow-up
+  const [initialResult, setInitialResult] = useState<AnalysisResult | null>(null);
+  const [conversation, setConversation] = useState<ConversationState>(EMPTY_CONVERSATION);
+  const [practices, setPractices] = useState<CopingPractice[]>([]);
+  // Measured on the device from the recording; null for written entries or when nothing could be heard
+  const [acoustics, setAcoustics] = useState<AcousticFeatures | null>(null);
+  // Answer to "are you safe right now?", asked when distress is very high
+  const [safetyAnswer, setSafetyAnswer] = useState<SafetyAnswer | null>(null);
+  const [safetyPlan, setSafetyPlan] = useState<SafetyPlan | null>(null);
+  const [playerState, setPlayerState] = useState<PlayerState>(INITIAL_PLAYER_STATE);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [audioMenuOpen, setAudioMenuOpen] = useState(false);
+  const [isExportingAudio, setIsExportingAudio] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  // How far the browser voice has read, for captions when there is no recording to time against
+  const [spokenChar, setSpokenChar] = useState<number | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [entryId, setEntryId] = useState<string | undefined>(undefined);
+  // Pattern id of the open breathing exercise, or null when closed
+  const [breathingPattern, setBreathingPattern] = useState<string | null>(null);
+  const [liveCues, setLiveCues] = useState<EmotionCue[]>([]);
+  const [online, setOnline] = useState(() => !isOffline());
+  // Shown after sessions recorded offline have been analyzed in the background; carries the most
+  // distressed of them when any needs the crisis support a live session would have shown, and any
+  // the queue has given up on so the user can retry or discard them
+  const [queueNotice, setQueueNotice] = useState<{ message: string; savedCount: number; entry?: JournalEntry; failed?: QueuedSession[] } | null>(null);
   
   const audioContextRef = useRef<AudioContext | null>(null);
-  const audioBufferRef = useRef<AudioBuffer | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+  const playerRef = useRef<AffirmationPlayer | null>(null);
+  // Set when TTS failed and the affirmation is read by speechSynthesis instead
+  const fallbackTextRef = useRef<string | null>(null);
   const captureRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const breathingRef = useRef<HTMLDivElement>(null);
+  const liveAnalyzerRef = useRef<LiveAnalyzer | null>(null);
+  const recorderRef = useRef<HTMLDivElement>(null);
+  const resultsRef = useRef<HTMLDivElement>(null);
+  const errorRef = useRef<HTMLDivElement>(null);
+  const queuedRef = useRef<HTMLDivElement>(null);
+  const empathyRef = useRef<HTMLHeadingElement>(null);
+  const notSafeRef = useRef<HTMLElement>(null);
+  const previousStatusRef = useRef(state.status);
+  // Read by callbacks that outlive the render they were created in
+  const statusRef = useRef(state.status);
+  statusRef.current = state.status;
 
-  const handleRecordingComplete = async (blob: Blob, type: MediaType, mimeType: string) => {
-    setState({ status: 'analyzing' });
+  const liveEnabled = settings.liveAnalysis && supportsLiveAnalysis(provider);
+  const language = settings.language ?? undefined;
+  const consentGiven = settings.consentAcceptedAt !== null;
+  // Very high distress: no cheerful extras, the safety check comes first and the user's own plan replaces generic tips
+  const highDistress = !!result && getDistressTier(result.distressScore) === 'crisis';
+  const noticeTier: DistressTier = queueNotice?.failed?.some(item => item.failure === 'safety')
+    ? 'crisis'
+    : queueNotice?.entry ? getDistressTier(queueNotice.entry.result.distressScore) : 'none';
+
+  useEffect(() => {
+    const update = () => setOnline(!isOffline());
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const drainOfflineQueue = () =>
+    drainQueue({ provider, language, keepRawInput: settings.keepRawInput })
+      .then(({ saved, failed }) => {
+        let distressed = saved
+          .filter(entry => getDistressTier(entry.result.distressScore) !== 'none')
+          .sort((a, b) => b.result.distressScore - a.result.distressScore)[0];
+        // Someone still looking at the "saved for later" screen gets the reflection straight away.
+        // Otherwise they may be mid-recording, so the crisis support comes up in the notice instead.
+        if (distressed && (statusRef.current === 'queued' || statusRef.current === 'error')) {
+          openSavedEntry(distressed);
+          saved = saved.filter(entry => entry !== distressed);
+          distressed = undefined;
+        }
+        // A blocked recording is most likely the hardest one, so it gets the crisis lines too
+        const blocked = failed.some(item => item.failure === 'safety');
+        const message = [
+          distressed
+            ? 'A reflection you recorded offline is ready, and it sounds like that was a really hard moment.'
+            : saved.length
+              ? `${saved.length === 1 ? 'A reflection' : `${saved.length} reflections`} you recorded offline ${saved.length === 1 ? 'is' : 'are'} now in your journal.`
+              : '',
+          blocked
+            ? 'We couldn\'t reflect on something you recorded offline. If you are in danger, please reach out to one of the lines below or someone you trust.'
+            : failed.length
+              ? `${failed.length === 1 ? 'One recording' : `${failed.length} recordings`} you made offline couldn't be reflected on.`
+              : ''
+        ].filter(Boolean).join(' ');
+        if (!message) return;
+        setQueueNotice({ message, savedCount: saved.length, entry: distressed, failed: failed.length ? failed : undefined });
+      })
+      .catch(err => console.error("Offline queue failed", err));
+
+  // Anything recorded offline is analyzed once we're back online (and unlocked, since it may be encrypted)
+  useEffect(() => {
+    if (locked || !online) return;
+    drainOfflineQueue();
+  }, [locked, online]);
+
+  const retryQueued = (items: QueuedSession[]) => {
+    setQueueNotice(null);
+    retryQueuedSessions(items)
+      .then(drainOfflineQueue)
+      .catch(err => console.error("Offline retry failed", err));
+  };
+
+  const discardQueued = (items: QueuedSession[]) => {
+    if (!window.confirm(`Discard ${items.length === 1 ? 'this recording' : `these ${items.length} recordings`}? ${items.length === 1 ? 'It hasn\'t' : 'They haven\'t'} been reflected on and can't be recovered.`)) return;
+    setQueueNotice(null);
+    discardQueuedSessions(items).catch(err => console.error("Offline discard failed", err));
+  };
+
+  // Loaded fresh each time, so edits made in Settings mid-session show up
+  useEffect(() => {
+    if (!highDistress) return;
+    loadSafetyPlan()
+      .then(setSafetyPlan)
+      .catch(err => console.error("Safety plan could not be loaded", err));
+  }, [highDistress, view]);
+
+  // Focus follows the view that replaced the one the user was in, so keyboard and screen reader users aren't stranded
+  useEffect(() => {
+    const previous = previousStatusRef.current;
+    previousStatusRef.current = state.status;
+    if (previous === state.status) return;
+    if (state.status === 'completed') focusHeading(resultsRef.current);
+    else if (state.status === 'error') focusHeading(errorRef.current);
+    else if (state.status === 'queued') focusHeading(queuedRef.current);
+    // Cancelling keeps the Recorder mounted and it moves focus itself
+    else if (state.status === 'idle' && previous !== 'analyzing') focusHeading(recorderRef.current);
+  }, [state.status]);
+
+  useEffect(() => {
+    if (safetyAnswer === 'safe') focusHeading(empathyRef.current);
+    else if (safetyAnswer === 'not_safe') focusHeading(notSafeRef.current);
+  }, [safetyAnswer]);
+
+  useEffect(() => {
+    syncReminders(settings.reminders).catch(err => console.warn("Reminder sync failed", err));
+    return scheduleReminders(settings.reminders);
+  }, [settings.reminders]);
+
+  const getAudioContext = () => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    return audioContextRef.current;
+  };
+
+  const getPlayer = () => {
+    if (!playerRef.current) {
+      playerRef.current = createAffirmationPlayer(getAudioContext, setPlayerState);
+    }
+    return playerRef.current;
+  };
+
+  const loadAffirmationAudio = async (text: string, signal: AbortSignal) => {
     try {
-      const base64Data = await blobToBase64(blob);
-      
-      // Use the actual mime type from the recorder, or fallback
-      const finalMimeType = mimeType || (type === MediaType.VIDEO ? 'video/webm' : 'audio/webm');
-      console.log(`Analyzing ${base64Data.length} bytes of ${finalMimeType}`);
+      const audioBufferData = await withRetry(
+        attemptSignal => provider.generateAffirmationAudio(text, { signal: attemptSignal, voice: settings.voice }),
+        { signal, timeoutMs: 30000 }
+      );
+      // Providers return raw PCM, which decodeAudioData can't read
+      getPlayer().load(pcm16ToAudioBuffer(audioBufferData, getAudioContext()));
+      fallbackTextRef.current = null;
+    } catch (error) {
+      const failure = classifyError(error);
+      if (failure.kind === 'cancelled') throw failure;
+      // The reflection itself succeeded; read it with the browser's voice rather than fail the session
+      console.warn("Affirmation audio unavailable, using browser speech", failure.cause ?? failure);
+      getPlayer().load(null);
+      fallbackTextRef.current = supportsSpeechFallback() ? text : null;
+    }
+  };
+
+  const handleRecordingStart = (_type: MediaType, mimeType: string) => {
+    liveAnalyzerRef.current?.stop();
+    setLiveCues([]);
+    liveAnalyzerRef.current = createLiveAnalyzer({
+      provider,
+      mimeType,
+      onCue: cue => setLiveCues(prev => [...prev, cue])
+    });
+  };
 
-      // 1. Get Analysis
-      const analysisData = await analyzeSession(base64Data, finalMimeType);
+  const discardRecording = () => {
+    liveAnalyzerRef.current?.stop();
+    liveAnalyzerRef.current = null;
+    setLiveCues([]);
+  };
+
+  // Shows a reflection that was analyzed in the background as if it had just finished, so high distress
+  // gets the same crisis support and safety check as a live session
+  const openSavedEntry = (entry: JournalEntry) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setQueueNotice(null);
+    setResult(entry.result);
+    setInitialResult(entry.result);
+    setConversation(EMPTY_CONVERSATION);
+    setPractices(entry.practices ?? []);
+    setAcoustics(entry.acoustics ?? null);
+    setSafetyAnswer(entry.safeLaterAt ? 'safe' : entry.safetyCheck ?? null);
+    setEntryId(entry.id);
+    setBreathingPattern(null);
+    setLiveCues([]);
+    setView('session');
+    setState({ status: 'completed' });
+    loadAffirmationAudio(entry.result.affirmationText, controller.signal)
+      .catch(err => console.warn("Affirmation audio skipped", err));
+  };
+
+  // Kept on the device until drainQueue can analyze it
+  const queueSession = async (type: MediaType, text?: string, media?: Blob) => {
+    try {
+      await enqueueSession({ mediaType: type, ...(text ? { text } : {}), ...(media ? { media } : {}) });
+      setLiveCues([]);
+      setState({ status: 'queued' });
+    } catch (err) {
+      console.error("Offline queue save failed", err);
+      setState({ status: 'error', errorKind: 'network', errorMessage: ERROR_MESSAGES.network });
+    }
+  };
+
+  // Shared by every way of sharing: runs the analysis, fetches the spoken affirmation and records the session
+  const runSession = async (
+    type: MediaType,
+    analyze: (signal: AbortSignal, copingHistory?: CopingHistory) => Promise<SessionAnalysis>,
+    journalText?: string,
+    media?: Blob
+  ) => {
+    if (isOffline()) {
+      await queueSession(type, journalText, media);
+      return;
+    }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setState({ status: 'analyzing' });
+    try {
+      // 1. Get Analysis, personalised by how earlier coping steps went
+      const copingHistory = await listSessions()
+        .then(copingHistoryFor)
+        .catch(err => {
+          console.warn("Coping history unavailable", err);
+          return undefined;
+        });
+      const { result: analysisData, acoustics: heard } = await withRetry(
+        signal => analyze(signal, copingHistory),
+        { signal: controller.signal, timeoutMs: 60000 }
+      );
       setResult(analysisData);
+      setInitialResult(analysisData);
+      setConversation(EMPTY_CONVERSATION);
+      setPractices([]);
+      setAcoustics(heard ?? null);
+      setSafetyAnswer(null);
+      const crisis = getDistressTier(analysisData.distressScore) === 'crisis';
 
       // 2. Get Audio (Parallel-ish, but after we have text)
-      const audioBufferData = await generateAffirmationAudio(analysisData.affirmationText);
-      
-      // Decode Audio for Playback
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      }
-      
-      // FIX: Use manual PCM conversion instead of decodeAudioData
-      const decodedBuffer = pcmToAudioBuffer(audioBufferData, audioContextRef.current);
-      audioBufferRef.current = decodedBuffer;
+      await loadAffirmationAudio(analysisData.affirmationText, controller.signal);
       
       setState({ status: 'completed' });
+      setLiveCues([]);
+
+      // Keep a local record of the session; a storage failure shouldn't spoil the result.
+      // Without keepRawInput only the reflection and the measurements are stored, never what the user said.
+      const keep = settings.keepRawInput;
+      saveSession(analysisData, type, {
+        text: keep ? journalText : undefined,
+        media: keep ? media : undefined,
+        acoustics: heard
+      })
+        .then(entry => setEntryId(entry.id))
+        .catch(err => console.error("Journal save failed", err));
       
       // Trigger confetti if happy
-      if (['particle', 'calm'].includes(analysisData.flowerConfig.style) && analysisData.emotion.match(/joy|relief|happy|hope/i)) {
+      if (!crisis && ['particle', 'calm'].includes(analysisData.flowerConfig.style) && analysisData.emotion.match(/joy|relief|happy|hope/i)) {
          setTimeout(() => {
            confetti({
               particleCount: 150,
               spread: 100,
               origin: { y: 0.6 },
-              colors: [analysisData.flowerConfig.baseColor, '#ffffff', '#fbbf24']
+              colors: [analysisData.flowerConfig.baseColor, '#ffffff', '#fbbf24'],
+              disableForReducedMotion: true
            });
          }, 500);
       }
 
-      playAudio(); // Auto-play affirmation
+      // Auto-play affirmation, except when it would talk over the safety check
+      if (!crisis) playAudio();
       
     } catch (error) {
-      console.error(error);
-      setState({ status: 'error', errorMessage: 'We couldn\'t quite catch that. Please try again.' });
+      const failure = classifyError(error);
+      if (failure.kind === 'cancelled') {
+        setResult(null);
+        setInitialResult(null);
+        setLiveCues([]);
+        setState({ status: 'idle' });
+        return;
+      }
+      // The connection dropped mid-analysis; keep it for later rather than lose it
+      if (failure.kind === 'network' && isOffline()) {
+        setResult(null);
+        setInitialResult(null);
+        await queueSession(type, journalText, media);
+        return;
+      }
+      console.error(failure.kind, failure.cause ?? failure);
+      setState(prev => ({ status: 'error', errorKind: failure.kind, errorMessage: ERROR_MESSAGES[failure.kind], payload: prev.payload }));
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
     }
   };
 
-  const playAudio = async () => {
-    if (!audioContextRef.current || !audioBufferRef.current) return;
-    
-    // Resume context if suspended (browser policy)
-    if (audioContextRef.current.state === 'suspended') {
-      await audioContextRef.current.resume();
+  const handleRecordingComplete = async (blob: Blob, type: MediaType, mimeType: string) => {
+    // Live cues were only a preview; the full recording gets the consolidated analysis below
+    liveAnalyzerRef.current?.stop();
+    liveAnalyzerRef.current = null;
+
+    // Use the actual mime type from the recorder, or fallback
+    const finalMimeType = mimeType || (type === MediaType.VIDEO ? 'video/webm' : 'audio/webm');
+
+    // Prepared and measured once, then reused across retries
+    let prepared: PreparedMedia | null = null;
+    let payload: InlinePayload | null = null;
+    let acoustics: AcousticFeatures | undefined;
+
+    await runSession(type, async (signal, copingHistory) => {
+      if (!prepared) {
+        // The measurements only add context; the analysis goes ahead without them
+        acoustics = (await extractAcousticFeatures(blob).catch(err => {
+          console.warn("Acoustic features unavailable", err);
+          return null;
+        })) ?? undefined;
+        prepared = await preprocessMedia(blob, type, finalMimeType, signal);
+        setState({ status: 'analyzing', payload: { bytes: prepared.bytes, originalBytes: prepared.originalBytes } });
+        assertWithinBudget(prepared);
+        payload = await toInlinePayload(prepared);
+      }
+      const frameNote = prepared.frames.length ? ` and ${prepared.frames.length} stills` : '';
+      console.log(`Analyzing ${formatBytes(prepared.bytes)} of ${prepared.mimeType}${frameNote} (from ${formatBytes(prepared.originalBytes)})`);
+      const result = await provider.analyzeSession(payload.data, payload.mimeType, { signal, language, copingHistory, acoustics, frames: payload.frames });
+      return { result, acoustics };
+    }, undefined, blob.type ? blob : new Blob([blob], { type: finalMimeType }));
+  };
+
+  const handleTextComplete = async (text: string) => {
+    await runSession(
+      MediaType.TEXT,
+      async (signal, copingHistory) => ({ result: await provider.analyzeText(text, { signal, language, copingHistory }) }),
+      text
+    );
+  };
+
+  const sendFollowUp = async (message: FollowUpMessage) => {
+    if (!initialResult) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const turns = conversation.turns;
+    setConversation({ turns, status: 'sending' });
+    stopAudio();
+
+    try {
+      if (message.kind === 'media' && message.mediaBase64.length > MAX_INLINE_PAYLOAD_BYTES) {
+        throw new AnalysisRequestError('too_large');
+      }
+      const reply = await withRetry(
+        signal => provider.continueSession(initialResult, turns, message, { signal, language }),
+        { signal: controller.signal, timeoutMs: 60000 }
+      );
+      const nextTurns = [...turns, {
+        id: `${Date.now()}`,
+        createdAt: Date.now(),
+        source: message.kind === 'text' ? 'text' as const : 'voice' as const,
+        message: message.kind === 'text' ? message.text : reply.heard,
+        result: reply.result
+      }];
+      setConversation({ turns: nextTurns, status: 'idle' });
+      setResult(reply.result);
+
+      if (entryId) {
+        const followUps = settings.keepRawInput ? nextTurns : nextTurns.map(turn => ({ ...turn, message: '' }));
+        updateSession(entryId, { followUps }).catch(err => console.error("Journal update failed", err));
+      }
+
+      await loadAffirmationAudio(reply.result.affirmationText, controller.signal);
+      if (getDistressTier(reply.result.distressScore) !== 'crisis') playAudio();
+    } catch (error) {
+      const failure = classifyError(error);
+      if (failure.kind === 'cancelled') {
+        setConversation(prev => ({ ...prev, status: 'idle' }));
+        return;
+      }
+      console.error(failure.kind, failure.cause ?? failure);
+      setConversation(prev => ({ ...prev, status: 'error', errorMessage: ERROR_MESSAGES[failure.kind] }));
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
     }
+  };
+
+  const sendVoiceFollowUp = async (blob: Blob, mimeType: string) => {
+    sendFollowUp({ kind: 'media', mediaBase64: await blobToBase64(blob), mimeType });
+  };
 
-    if (sourceNodeRef.current) {
-        sourceNodeRef.current.stop();
+  const updatePractice = (practice: CopingPractice) => {
+    const next = upsertPractice(practices, practice);
+    setPractices(next);
+    if (entryId) {
+      updateSession(entryId, { practices: next }).catch(err => console.error("Journal update failed", err));
     }
+  };
 
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = audioBufferRef.current;
-    source.connect(audioContextRef.current.destination);
-    source.onended = () => setIsPlaying(false);
-    source.start();
-    sourceNodeRef.current = source;
-    setIsPlaying(true);
+  // A later "I'm safe now" is recorded alongside the first answer, never over it
+  const answerSafety = (answer: SafetyAnswer) => {
+    const patch = safetyAnswer === 'not_safe' && answer === 'safe' ? { safeLaterAt: Date.now() } : { safetyCheck: answer };
+    setSafetyAnswer(answer);
+    if (entryId) {
+      updateSession(entryId, patch).catch(err => console.error("Journal update failed", err));
+    }
   };
 
-  const stopAudio = () => {
-      if (sourceNodeRef.current) {
-          sourceNodeRef.current.stop();
-          setIsPlaying(false);
+  const updateSettings = (patch: Partial<AppSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveSettings(next);
+      return next;
+    });
+  };
+
+  const openBreathing = (patternId: string) => {
+    setBreathingPattern(patternId);
+    breathingRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const cancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const playAudio = () => {
+    const fallbackText = fallbackTextRef.current;
+    if (!fallbackText) return getPlayer().play();
+    setIsSpeaking(true);
+    speakFallback(fallbackText, {
+      language,
+      pace: settings.voice.pace,
+      onBoundary: setSpokenChar,
+      onEnd: () => {
+        setIsSpeaking(false);
+        setSpokenChar(null);
       }
+    });
   };
 
+  const stopAudio = () => {
+    stopSpeechFallback();
+    setIsSpeaking(false);
+    setSpokenChar(null);
+    getPlayer().pause();
+  };
+
+  const isVoicePlaying = playerState.playing || isSpeaking;
+
+  const toggleAudio = () => (isVoicePlaying ? stopAudio() : playAudio());
+
   const reset = () => {
     setState({ status: 'idle' });
     setResult(null);
+    setInitialResult(null);
+    setConversation(EMPTY_CONVERSATION);
+    setPractices([]);
+    setAcoustics(null);
+    setSafetyAnswer(null);
+    abortControllerRef.current?.abort();
+    setEntryId(undefined);
+    setBreathingPattern(null);
+    setLiveCues([]);
     stopAudio();
-    audioBufferRef.current = null;
+    getPlayer().load(null);
+    fallbackTextRef.current = null;
+    setAudioMenuOpen(false);
+    setShareOpen(false);
+  };
+
+  const takeSnapshot = async (): Promise<Blob> => {
+    if (!captureRef.current) throw new Error('Nothing to capture');
+    // Small delay to ensure rendering
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const canvas = await html2canvas(captureRef.current, {
+      backgroundColor: '#ffffff',
+      scale: 3, // High res for print quality
+      useCORS: true
+    });
+    return new Promise((resolve, reject) =>
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Snapshot failed'))), 'image/png')
+    );
   };
 
-  const saveMoment = async () => {
-    if (!captureRef.current) return;
-    setIsSaving(true);
+  const saveAudio = async (format: 'wav' | 'compressed') => {
+    const buffer = getPlayer().buffer();
+    setAudioMenuOpen(false);
+    if (!buffer) return;
+    setIsExportingAudio(true);
     try {
-      // Small delay to ensure rendering
-      await new Promise(resolve => setTimeout(resolve, 100));
-      const canvas = await html2canvas(captureRef.current, {
-        backgroundColor: '#ffffff',
-        scale: 3, // High res for print quality
-        useCORS: true
-      });
-      const link = document.createElement('a');
-      link.download = `echo-moment-${new Date().toISOString().slice(0,10)}.png`;
-      link.href = canvas.toDataURL('image/png');
-      link.click();
+      const blob = format === 'wav' ? audioBufferToWav(buffer) : await encodeCompressed(buffer);
+      const extension = blob.type === 'audio/wav' ? 'wav' : blob.type === 'audio/mp4' ? 'm4a' : blob.type.split('/')[1];
+      await shareOrDownload(blob, `echo-affirmation-${new Date().toISOString().slice(0,10)}.${extension}`, 'My EchoTherapy affirmation');
     } catch (err) {
-      console.error("Save failed", err);
+      console.error("Audio export failed", err);
     }
-    setIsSaving(false);
+    setIsExportingAudio(false);
+  };
+
+  const lockNow = () => {
+    reset();
+    lockVault();
+    setLocked(true);
   };
 
+  const startOver = async () => {
+    if (!window.confirm('Without your passcode the journal cannot be opened. Delete all your data and start over?')) return;
+    await deleteEverything();
+    window.location.reload();
+  };
+
+  if (locked) {
+    return <LockScreen onUnlock={() => setLocked(false)} onForgot={startOver} />;
+  }
+
+  const announcement = statusAnnouncement(state, result, conversation);
+
   return (
     <div className="min-h-screen flex flex-col font-sans selection:bg-indigo-100 selection:text-indigo-800">
       {/* Premium Header */}
-      <header className="py-6 px-8 flex justify-center sticky top-0 bg-white/70 backdrop-blur-xl z-20 border-b border-white/40 shadow-sm">
+      <header className="py-6 px-8 flex items-center justify-between sticky top-0 bg-white/70 backdrop-blur-xl z-20 border-b border-white/40 shadow-sm">
         <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-600 via-purple-500 to-teal-500 tracking-tight">
           EchoTherapy
         </h1>
+        <nav className="flex items-center space-x-2">
+          {NAV_ITEMS.map(({ view: target, label, Icon }) => (
+            <button
+              key={target}
+              onClick={() => {
+                setJournalFocusId(undefined);
+                setView(target);
+              }}
+              aria-label={label}
+              aria-current={view === target ? 'page' : undefined}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-semibold transition-colors ${view === target ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-white/70'}`}
+            >
+              <Icon size={16} />
+              <span className="hidden sm:inline">{label}</span>
+            </button>
+          ))}
+        </nav>
       </header>
 
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
       {/* Main Content */}
       <main className="flex-grow flex flex-col items-center justify-start p-6 md:p-10 max-w-3xl mx-auto w-full space-y-12">
-        
-        {state.status === 'error' && (
-          <div className="w-full glass-card border-l-4 border-red-400 p-6 rounded-xl flex items-center justify-between animate-fade-in-up">
-            <div className="flex items-center space-x-4">
-               <div className="bg-red-100 p-2 rounded-full text-red-500">
-                 <AlertTriangle size={24} />
-               </div>
-               <p className="text-red-800 font-medium">{state.errorMessage}</p>
+
+        {!online && (
+          <div className="w-full flex items-center space-x-3 glass-card rounded-2xl px-5 py-3 text-sm text-slate-600">
+            <CloudOff size={18} className="flex-shrink-0 text-slate-400" />
+            <span>You're offline. Your journal still works, and anything you share will be reflected on once you're back online.</span>
+          </div>
+        )}
+
+        {queueNotice && (
+          <div
+            role={noticeTier !== 'none' || queueNotice.failed ? 'alert' : 'status'}
+            className={`w-full glass-card border-l-4 rounded-2xl px-5 py-3 text-sm text-slate-600 animate-fade-in-up space-y-4 ${noticeTier !== 'none' ? 'border-rose-400' : queueNotice.failed ? 'border-amber-400' : 'border-teal-400'}`}
+          >
+            <div className="flex items-center justify-between">
+              <span>{queueNotice.message}</span>
+              <span className="flex items-center space-x-3 flex-shrink-0 ml-4">
+                {queueNotice.entry ? (
+                  <button onClick={() => openSavedEntry(queueNotice.entry)} className="font-semibold text-rose-700 hover:text-rose-900">
+                    Open reflection
+                  </button>
+                ) : queueNotice.savedCount > 0 && (
+                  <button
+                    onClick={() => {
+                      setQueueNotice(null);
+                      setJournalFocusId(undefined);
+                      setView('journal');
+                    }}
+                    className="font-semibold text-teal-700 hover:text-teal-900"
+                  >
+                    Open journal
+                  </button>
+                )}
+                {queueNotice.failed && (
+                  <>
+                    <button onClick={() => retryQueued(queueNotice.failed)} className="font-semibold text-amber-700 hover:text-amber-900">
+                      Try again
+                    </button>
+                    <button onClick={() => discardQueued(queueNotice.failed)} className="font-semibold text-slate-500 hover:text-slate-700">
+                      Discard
+                    </button>
+                  </>
+                )}
+                <button onClick={() => setQueueNotice(null)} className="text-slate-400 hover:text-slate-600" title="Dismiss" aria-label="Dismiss">
+                  <X size={16} />
+                </button>
+              </span>
             </div>
-            <button onClick={reset} className="px-4 py-2 bg-white text-red-600 rounded-lg text-sm font-bold hover:bg-red-50 transition-colors">Try Again</button>
+            {noticeTier !== 'none' && <CrisisSupport tier={noticeTier} region={resolveCrisisRegion(settings.crisisRegion)} />}
           </div>
         )}
 
-        {state.status === 'idle' || state.status === 'recording' || state.status === 'analyzing' ? (
-           <div className="w-full mt-8">
-              <Recorder 
-                onRecordingComplete={handleRecordingComplete} 
-                isProcessing={state.status === 'analyzing'} 
-              />
-           </div>
-        ) : null}
+        {view === 'journal' && <Journal focusId={journalFocusId} />}
+        {view === 'garden' && (
+          <MoodGarden
+            onOpenEntry={id => {
+              setJournalFocusId(id);
+              setView('journal');
+            }}
+          />
+        )}
+        {view === 'trends' && <MoodDashboard />}
+        {view === 'settings' && <SettingsPanel settings={settings} onChange={updateSettings} onLock={lockNow} />}
+
+        {/* Kept mounted while browsing the journal so an in-flight recording or analysis isn't lost */}
+        <div className={view === 'session' ? 'w-full flex flex-col items-center space-y-12' : 'hidden'}>
+
+          {state.status === 'error' && (
+            <div ref={errorRef} role="alert" className="w-full glass-card border-l-4 border-red-400 p-6 rounded-xl flex items-center justify-between animate-fade-in-up">
+              <div className="flex items-center space-x-4">
+                 <div aria-hidden="true" className="bg-red-100 p-2 rounded-full text-red-500">
+                   <AlertTriangle size={24} />
+                 </div>
+                 <div>
+                   <p className="text-red-800 font-medium">{state.errorMessage}</p>
+                   {state.errorKind === 'too_large' && state.payload && (
+                     <p className="text-sm text-red-600">
+                       Even after compressing it came to {formatBytes(state.payload.bytes)}; the limit is {formatBytes(MAX_MEDIA_BYTES)}.
+                     </p>
+                   )}
+                 </div>
+              </div>
+              <button onClick={reset} className="px-4 py-2 bg-white text-red-600 rounded-lg text-sm font-bold hover:bg-red-50 transition-colors">Try Again</button>
+            </div>
+          )}
+
+          {state.status === 'queued' && (
+            <div ref={queuedRef} className="w-full glass-card rounded-3xl p-8 text-center space-y-4 animate-fade-in-up">
+              <div aria-hidden="true" className="w-14 h-14 mx-auto bg-white rounded-2xl shadow-sm flex items-center justify-center text-teal-500">
+                <CloudOff size={28} />
+              </div>
+              <h3 className="text-xl font-medium text-slate-700">Saved for when you're back online</h3>
+              <p className="text-slate-500 leading-relaxed">
+                We couldn't reach the reflection service, so what you shared is kept safely on this device. We'll reflect on it as soon as the connection returns and it will appear in your journal.
+              </p>
+              <button onClick={reset} className="px-6 py-2 rounded-full text-sm font-semibold text-slate-600 bg-white/70 border border-slate-200 hover:bg-white transition-colors">
+                Done
+              </button>
+            </div>
+          )}
 
-        {state.status === 'completed' && result && (
-          <div className="w-full space-y-10 animate-fade-in-up pb-24">
+          {(state.status === 'idle' || state.status === 'recording' || state.status === 'analyzing') ? (
+             <div ref={recorderRef} className="w-full mt-8">
+                <Recorder 
+                  onRecordingComplete={handleRecordingComplete} 
+                  onTextComplete={handleTextComplete}
+                  isProcessing={state.status === 'analyzing'} 
+                  payload={state.payload}
+                  onCancel={cancelAnalysis}
+                  onRecordingStart={liveEnabled ? handleRecordingStart : undefined}
+                  onChunk={liveEnabled ? chunk => liveAnalyzerRef.current?.push(chunk) : undefined}
+                  onDiscard={discardRecording}
+                  liveCues={liveCues}
+                  consentGiven={consentGiven}
+                  onConsent={() => updateSettings({ consentAcceptedAt: Date.now() })}
+                  recordingSettings={settings.recording}
+                  onRecordingSettingsChange={patch => updateSettings({ recording: { ...settings.recording, ...patch } })}
+                />
+             </div>
+          ) : null}
+
+          {state.status === 'completed' && result && (
+            <div ref={resultsRef} className="w-full space-y-10 animate-fade-in-up pb-24">
             
-            {/* Crisis Resource Box (Only if high distress) */}
-            {result.distressScore > 0.8 && (
-               <div className="glass-card bg-orange-50/80 border-orange-200 p-6 rounded-2xl flex items-start space-x-4 text-orange-900 shadow-soft">
-                  <AlertTriangle className="flex-shrink-0 mt-1 text-orange-600" size={24} />
-                  <div className="text-sm leading-relaxed">
-                     <p className="font-bold text-lg mb-2">You are going through a difficult moment.</p>
-                     <p className="mb-3">You don't have to carry this alone. Immediate support is available:</p>
-                     <div className="flex flex-wrap gap-3">
-                        <span className="bg-white/60 px-3 py-1 rounded-md font-bold border border-orange-200">988 (US Crisis Line)</span>
-                        <span className="bg-white/60 px-3 py-1 rounded-md font-bold border border-orange-200">Text HOME to 741741</span>
-                     </div>
-                  </div>
-               </div>
+              {/* Crisis / support resources, graded by distress */}
+            <CrisisSupport tier={getDistressTier(result.distressScore)} region={resolveCrisisRegion(settings.crisisRegion)} />
+
+            {highDistress && !safetyAnswer && <SafetyCheck onAnswer={answerSafety} />}
+
+            {highDistress && safetyAnswer && <SafetyPlanCard plan={safetyPlan} onEditPlan={() => setView('settings')} />}
+
+            {highDistress && safetyAnswer === 'not_safe' && (
+              <section ref={notSafeRef} className="glass-card rounded-3xl p-6 space-y-4 text-center">
+                <p className="text-slate-700 leading-relaxed">
+                  Thank you for telling us. Please reach out to one of the people or lines above right now; you don't have to get through this on your own. Your reflection will be here when you're safe.
+                </p>
+                <button
+                  onClick={() => answerSafety('safe')}
+                  className="px-6 py-2 rounded-full text-sm font-semibold text-slate-600 bg-white/70 border border-slate-200 hover:bg-white transition-colors"
+                >
+                  I'm safe now
+                </button>
+              </section>
             )}
 
+            {(!highDistress || safetyAnswer === 'safe') && (<>
             {/* 1. Empathy Header */}
-            <section className="text-center space-y-6">
-              <div className="inline-flex items-center space-x-2 px-4 py-1.5 bg-white/60 backdrop-blur-md rounded-full border border-white/50 shadow-sm">
-                 <span className="w-2 h-2 rounded-full" style={{ backgroundColor: result.flowerConfig.baseColor }}></span>
-                 <span className="text-sm font-semibold text-slate-600 uppercase tracking-wider">{result.emotion}</span>
-              </div>
-              <h2 className="text-3xl md:text-5xl font-light leading-tight text-slate-800 tracking-tight">
-                {result.empathySummary}
-              </h2>
-            </section>
-
-            {/* 2. Mood Flower Card - CAPTURE ZONE */}
-            <section className="relative group">
-              <div 
-                ref={captureRef}
-                className="flex flex-col items-center justify-center pt-16 pb-12 px-8 glass-card-dark rounded-[3rem] shadow-2xl relative overflow-hidden transition-all duration-500"
-              >
-                 {/* Decorative background gradient based on emotion */}
-                 <div 
-                   className="absolute top-0 left-0 w-full h-full opacity-10 pointer-events-none transition-colors duration-1000"
-                   style={{ background: `radial-gradient(circle at 50% 30%, ${result.flowerConfig.baseColor}, transparent 70%)` }}
-                 ></div>
-
-                 <MoodFlower config={result.flowerConfig} onClick={isPlaying ? stopAudio : playAudio} />
+              <section className="text-center space-y-6">
+                <div className="inline-flex items-center space-x-2 px-4 py-1.5 bg-white/60 backdrop-blur-md rounded-full border border-white/50 shadow-sm">
+                   <span aria-hidden="true" className="w-2 h-2 rounded-full" style={{ backgroundColor: result.flowerConfig.baseColor }}></span>
+                   <span className="text-sm font-semibold text-slate-600 uppercase tracking-wider">{result.emotion}</span>
+                </div>
+                <h2 ref={empathyRef} className="text-3xl md:text-5xl font-light leading-tight text-slate-800 tracking-tight">
+                  {result.empathySummary}
+                </h2>
+              </section>
+
+              {/* 2. Mood Flower Card - CAPTURE ZONE */}
+              <section className="relative group">
+                <div 
+                  ref={captureRef}
+                  className="flex flex-col items-center justify-center pt-16 pb-12 px-8 glass-card-dark rounded-[3rem] shadow-2xl relative overflow-hidden transition-all duration-500"
+                >
+                   {/* Decorative background gradient based on emotion */}
+                   <div 
+                     className="absolute top-0 left-0 w-full h-full opacity-10 pointer-events-none transition-colors duration-1000"
+                     style={{ background: `radial-gradient(circle at 50% 30%, ${result.flowerConfig.baseColor}, transparent 70%)` }}
+                   ></div>
+
+                   <MoodFlower
+                     config={result.flowerConfig}
+                     onClick={toggleAudio}
+                     actionLabel={isVoicePlaying ? 'Tap to Pause' : 'Tap to Replay'}
+                   />
                  
-                 <div className="mt-10 text-center max-w-lg z-10 space-y-6">
-                    <p className="text-slate-700 text-xl md:text-2xl italic font-serif leading-relaxed">"{result.affirmationText}"</p>
-                    <div className="flex items-center justify-center space-x-3 opacity-50">
-                       <div className="h-px w-8 bg-slate-400"></div>
-                       <span className="text-xs font-bold uppercase tracking-[0.2em] text-slate-500">EchoTherapy</span>
-                       <div className="h-px w-8 bg-slate-400"></div>
-                    </div>
-                 </div>
-              </div>
+                   <div className="mt-10 text-center max-w-lg z-10 space-y-6">
+                      <p className="text-slate-700 text-xl md:text-2xl italic font-serif leading-relaxed">"{result.affirmationText}"</p>
+                      <div className="flex items-center justify-center space-x-3 opacity-50">
+                         <div className="h-px w-8 bg-slate-400"></div>
+                         <span className="text-xs font-bold uppercase tracking-[0.2em] text-slate-500">EchoTherapy</span>
+                         <div className="h-px w-8 bg-slate-400"></div>
+                      </div>
+                   </div>
+                </div>
               
-              {/* Floating Controls */}
-              <div className="absolute top-6 right-6 flex space-x-3 z-20">
-                 <button 
-                  onClick={saveMoment}
-                  disabled={isSaving}
-                  className="p-3 bg-white/90 backdrop-blur-md rounded-full shadow-lg text-slate-500 hover:text-indigo-600 transition-all hover:scale-105 active:scale-95 border border-white/50"
-                  title="Save visual"
-                 >
-                   {isSaving ? <span className="animate-spin text-lg">⏳</span> : <Download size={20} />}
-                 </button>
+                {/* Floating Controls */}
+                <div className="absolute top-6 right-6 flex space-x-3 z-20">
+                   <button 
+                    onClick={() => setShareOpen(open => !open)}
+                    className="p-3 bg-white/90 backdrop-blur-md rounded-full shadow-lg text-slate-500 hover:text-indigo-600 transition-all hover:scale-105 active:scale-95 border border-white/50"
+                    title="Save or share visual"
+                    aria-label="Save or share visual"
+                    aria-expanded={shareOpen}
+                   >
+                     <Download size={20} />
+                   </button>
+                   <div className="relative" onKeyDown={e => e.key === 'Escape' && setAudioMenuOpen(false)}>
+                     <button
+                      onClick={() => supportedCompressedType() ? setAudioMenuOpen(open => !open) : saveAudio('wav')}
+                      disabled={isExportingAudio || !playerState.duration}
+                      className="p-3 bg-white/90 backdrop-blur-md rounded-full shadow-lg text-slate-500 hover:text-indigo-600 transition-all hover:scale-105 active:scale-95 border border-white/50 disabled:opacity-50"
+                      title="Save audio"
+                      aria-label={isExportingAudio ? 'Saving audio' : 'Save audio'}
+                      aria-expanded={supportedCompressedType() ? audioMenuOpen : undefined}
+                      aria-controls={supportedCompressedType() ? 'audio-format-menu' : undefined}
+                     >
+                       {isExportingAudio ? <span aria-hidden="true" className="animate-spin text-lg">⏳</span> : <FileAudio size={20} />}
+                     </button>
+                     {audioMenuOpen && (
+                       <div id="audio-format-menu" className="absolute right-0 mt-2 w-48 bg-white rounded-2xl shadow-xl border border-slate-100 py-2 text-sm">
+                         <button onClick={() => saveAudio('wav')} className="w-full text-left px-4 py-2 hover:bg-slate-50">
+                           <span className="font-semibold text-slate-700">WAV</span>
+                           <span className="block text-xs text-slate-400">Full quality</span>
+                         </button>
+                         <button onClick={() => saveAudio('compressed')} className="w-full text-left px-4 py-2 hover:bg-slate-50">
+                           <span className="font-semibold text-slate-700">Compressed</span>
+                           <span className="block text-xs text-slate-400">Smaller file, takes a few seconds</span>
+                         </button>
+                       </div>
+                     )}
+                   </div>
+                </div>
+
+                {/* Audio Player Control underneath */}
+                <div className="absolute -bottom-6 left-0 right-0 flex justify-center z-20">
+                   <button 
+                      onClick={toggleAudio}
+                      className="flex items-center space-x-3 bg-slate-800 text-white px-8 py-3 rounded-full hover:bg-slate-900 transition-all shadow-xl hover:shadow-2xl hover:-translate-y-1 active:translate-y-0"
+                    >
+                      {isVoicePlaying ? (
+                          <>
+                             <PauseCircle size={20} className="text-teal-400" />
+                             <span className="font-medium">Pause Voice</span>
+                          </>
+                      ) : (
+                          <>
+                             <PlayCircle size={20} className="text-teal-400" />
+                             <span className="font-medium">Listen to Reflection</span>
+                          </>
+                      )}
+                    </button>
+                </div>
+              </section>
+
+              <div className="pt-10 space-y-6">
+                {settings.captions && (
+                  <AffirmationCaptions
+                    text={result.affirmationText}
+                    player={getPlayer()}
+                    state={playerState}
+                    spokenChar={spokenChar}
+                  />
+                )}
+                <AffirmationControls player={getPlayer()} state={playerState} />
               </div>
 
-              {/* Audio Player Control underneath */}
-              <div className="absolute -bottom-6 left-0 right-0 flex justify-center z-20">
-                 <button 
-                    onClick={isPlaying ? stopAudio : playAudio}
-                    className="flex items-center space-x-3 bg-slate-800 text-white px-8 py-3 rounded-full hover:bg-slate-900 transition-all shadow-xl hover:shadow-2xl hover:-translate-y-1 active:translate-y-0"
-                  >
-                    {isPlaying ? (
-                        <>
-                           <PauseCircle size={20} className="text-teal-400" />
-                           <span className="font-medium">Pause Voice</span>
-                        </>
-                    ) : (
-                        <>
-                           <PlayCircle size={20} className="text-teal-400" />
-                           <span className="font-medium">Listen to Reflection</span>
-                        </>
-                    )}
-                  </button>
+              {shareOpen && (
+                <FlowerShare
+                  config={result.flowerConfig}
+                  affirmation={result.affirmationText}
+                  audio={getPlayer().buffer()}
+                  takeSnapshot={takeSnapshot}
+                  onClose={() => setShareOpen(false)}
+                />
+              )}
+
+              <div ref={breathingRef} className="pt-8 flex justify-center">
+                   {breathingPattern === null ? (
+                     <BreathingWidget onClick={() => setBreathingPattern('box')} />
+                   ) : (
+                     <BreathingExercise
+                       config={result.flowerConfig}
+                       initialPatternId={breathingPattern}
+                       sessionId={entryId}
+                       getAudioContext={getAudioContext}
+                       onClose={() => setBreathingPattern(null)}
+                     />
+                   )}
               </div>
-            </section>
 
-            <div className="pt-8 flex justify-center">
-                 <BreathingWidget />
-            </div>
+              {/* 3. Actionable Coping Cards; the safety plan stands in for generic tips at high distress */}
+              {!highDistress && <section className="space-y-6 pt-6">
+                <h3 className="text-xl font-bold text-slate-700 flex items-center px-2">
+                   <span className="mr-2 opacity-60">🌱</span>
+                   Suggested Practice
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {result.copingPlan.map((step, idx) => (
+                    <CopingStepCard
+                      key={step}
+                      step={step}
+                      index={idx}
+                      distressBefore={result.distressScore}
+                      practice={practices.find(p => p.step === step)}
+                      exercise={matchBreathingPattern(step)}
+                      onTryBreathing={openBreathing}
+                      onUpdate={updatePractice}
+                    />
+                  ))}
+                </div>
+              </section>}
+
+              {acoustics && <AcousticPanel features={acoustics} />}
 
-            {/* 3. Actionable Coping Cards */}
-            <section className="space-y-6 pt-6">
-              <h3 className="text-xl font-bold text-slate-700 flex items-center px-2">
-                 <span className="mr-2 opacity-60">🌱</span>
-                 Suggested Practice
-              </h3>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {result.copingPlan.map((step, idx) => (
-                  <div key={idx} className="glass-card p-6 rounded-2xl hover:bg-white/80 transition-all duration-300 hover:shadow-lg hover:-translate-y-1 group border border-white/60">
-                    <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-indigo-50 to-white border border-indigo-100 text-indigo-600 font-bold flex items-center justify-center mb-4 text-lg shadow-sm group-hover:scale-110 transition-transform">
-                      {idx + 1}
-                    </div>
-                    <p className="text-slate-600 font-medium leading-relaxed">{step}</p>
-                  </div>
-                ))}
+              {/* 4. Follow-up conversation */}
+              <FollowUpPanel
+                conversation={conversation}
+                onSendText={text => sendFollowUp({ kind: 'text', text })}
+                onSendVoice={sendVoiceFollowUp}
+                onCancel={cancelAnalysis}
+                consentGiven={consentGiven}
+                onConsent={() => updateSettings({ consentAcceptedAt: Date.now() })}
+              />
+            </>)}
+
+              <div className="flex justify-center pt-10">
+                 <button 
+                   onClick={reset}
+                   className="flex items-center space-x-2 text-slate-500 hover:text-indigo-600 transition-colors px-6 py-3 rounded-full hover:bg-white/50 border border-transparent hover:border-slate-200"
+                 >
+                   <RotateCcw size={18} />
+                   <span className="font-medium">Start New Session</span>
+                 </button>
               </div>
-            </section>
-
-            <div className="flex justify-center pt-10">
-               <button 
-                 onClick={reset}
-                 className="flex items-center space-x-2 text-slate-500 hover:text-indigo-600 transition-colors px-6 py-3 rounded-full hover:bg-white/50 border border-transparent hover:border-slate-200"
-               >
-                 <RotateCcw size={18} />
-                 <span className="font-medium">Start New Session</span>
-               </button>
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </main>
     </div>
   );
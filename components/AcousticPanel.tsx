@@ -0,0 +1,99 @@
+import React, { useId, useState } from 'react';
+import { AudioLines, ChevronDown, ChevronUp } from 'lucide-react';
+import { AcousticFeatures } from '../types';
+import { describeAcoustics } from '../services/acousticFeatures';
+
+interface AcousticPanelProps {
+  features: AcousticFeatures;
+  defaultOpen?: boolean;
+}
+
+const WIDTH = 300;
+const HEIGHT = 60;
+
+// Unvoiced steps (0 Hz) break the line rather than dropping it to the floor
+const contourSegments = (contour: number[]): string[] => {
+  const voiced = contour.filter(hz => hz > 0);
+  if (voiced.length < 2) return [];
+  const low = Math.min(...voiced);
+  const high = Math.max(...voiced);
+  const span = Math.max(high - low, 1);
+  const segments: string[] = [];
+  let current: string[] = [];
+  contour.forEach((hz, i) => {
+    if (hz <= 0) {
+      if (current.length > 1) segments.push(current.join(' '));
+      current = [];
+      return;
+    }
+    const x = (i / (contour.length - 1)) * WIDTH;
+    const y = HEIGHT - 4 - ((hz - low) / span) * (HEIGHT - 8);
+    current.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  });
+  if (current.length > 1) segments.push(current.join(' '));
+  return segments;
+};
+
+export const AcousticPanel: React.FC<AcousticPanelProps> = ({ features, defaultOpen = false }) => {
+  const [open, setOpen] = useState(defaultOpen);
+  const detailsId = useId();
+  const readings = describeAcoustics(features);
+  const segments = contourSegments(features.pitchContour);
+
+  if (!readings.length) return null;
+
+  return (
+    <section className="glass-card rounded-3xl p-6 space-y-4">
+      <button
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+        aria-controls={detailsId}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="flex items-center space-x-2 font-bold text-slate-700">
+          <AudioLines size={18} className="text-indigo-400" />
+          <span>What we heard</span>
+        </span>
+        {open ? <ChevronUp size={18} className="text-slate-400" /> : <ChevronDown size={18} className="text-slate-400" />}
+      </button>
+
+      {open && (
+        <div id={detailsId} className="space-y-4 animate-fade-in-up">
+          {segments.length > 0 && (
+            <div className="space-y-1">
+              <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-16" preserveAspectRatio="none">
+                {segments.map((points, idx) => (
+                  <polyline
+                    key={idx}
+                    points={points}
+                    fill="none"
+                    stroke="#818cf8"
+                    strokeWidth={2}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+              </svg>
+              <p className="text-xs text-slate-400">
+                How your pitch moved over {Math.round(features.durationSeconds)} seconds
+              </p>
+            </div>
+          )}
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {readings.map(reading => (
+              <div key={reading.label} className="bg-white/60 rounded-2xl px-4 py-3">
+                <dt className="text-xs font-semibold uppercase tracking-wider text-slate-400">{reading.label}</dt>
+                <dd className="text-sm font-semibold text-slate-700">{reading.value}</dd>
+                <dd className="text-xs text-slate-500">{reading.note}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="text-xs text-slate-400 leading-relaxed">
+            Measured on your device from the sound of your voice. These are rough signals that vary with your microphone and surroundings, not a diagnosis.
+          </p>
+        </div>
+      )}
+    </section>
+  );
+};
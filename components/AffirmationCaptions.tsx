@@ -0,0 +1,39 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AffirmationPlayer, PlayerState } from '../services/affirmationPlayer';
+import { buildCaptions, captionAt, captionAtChar } from '../services/captions';
+
+interface AffirmationCaptionsProps {
+  text: string;
+  player: AffirmationPlayer;
+  state: PlayerState;
+  // Set while the browser voice is reading instead of the player: the character it has reached
+  spokenChar: number | null;
+}
+
+// The full affirmation is already on the page for screen readers, so the moving captions are hidden from them
+export const AffirmationCaptions: React.FC<AffirmationCaptionsProps> = ({ text, player, state, spokenChar }) => {
+  const [position, setPosition] = useState(0);
+  // Without a recording to time against, the browser voice's boundaries are spread over a nominal length
+  const captions = useMemo(() => buildCaptions(text, state.duration || 1), [text, state.duration]);
+
+  useEffect(() => {
+    setPosition(player.position());
+    if (!state.playing) return;
+    const interval = setInterval(() => setPosition(player.position()), 200);
+    return () => clearInterval(interval);
+  }, [player, state]);
+
+  const caption = spokenChar !== null
+    ? captionAtChar(captions, spokenChar)
+    : state.playing ? captionAt(captions, position) : null;
+
+  if (!caption) return null;
+
+  return (
+    <div aria-hidden="true" className="flex justify-center">
+      <p className="max-w-xl text-center bg-slate-900/85 text-white text-lg leading-snug px-5 py-2 rounded-xl">
+        {caption.text}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Volume1, Volume2, VolumeX, Repeat } from 'lucide-react';
+import { AffirmationPlayer, PLAYBACK_RATES, PlayerState, REPEAT_OPTIONS } from '../services/affirmationPlayer';
+
+interface AffirmationControlsProps {
+  player: AffirmationPlayer;
+  state: PlayerState;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+export const AffirmationControls: React.FC<AffirmationControlsProps> = ({ player, state }) => {
+  const [position, setPosition] = useState(0);
+
+  // The player has no clock of its own, so sample its position while it's playing
+  useEffect(() => {
+    setPosition(player.position());
+    if (!state.playing) return;
+    const interval = setInterval(() => setPosition(player.position()), 200);
+    return () => clearInterval(interval);
+  }, [player, state]);
+
+  if (!state.duration) return null;
+
+  const VolumeIcon = state.volume === 0 ? VolumeX : state.volume < 0.5 ? Volume1 : Volume2;
+
+  return (
+    <div className="glass-card rounded-2xl px-5 py-4 border border-white/60 space-y-3 text-sm text-slate-500">
+      <div className="flex items-center space-x-3">
+        <span className="font-mono text-xs w-10 text-right">{formatTime(position)}</span>
+        <input
+          type="range"
+          min={0}
+          max={state.duration}
+          step={0.1}
+          value={position}
+          onChange={e => {
+            const seconds = Number(e.target.value);
+            setPosition(seconds);
+            player.seek(seconds);
+          }}
+          className="flex-grow accent-indigo-500"
+          aria-label="Seek"
+          aria-valuetext={`${formatTime(position)} of ${formatTime(state.duration)}`}
+        />
+        <span className="font-mono text-xs w-10">{formatTime(state.duration)}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-1">
+          {PLAYBACK_RATES.map(rate => (
+            <button
+              key={rate}
+              onClick={() => player.setRate(rate)}
+              aria-pressed={rate === state.rate}
+              aria-label={`Speed ${rate}×`}
+              className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${rate === state.rate ? 'bg-slate-800 text-white' : 'bg-white/60 hover:bg-white'}`}
+            >
+              {rate}×
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center space-x-2" title="Plays each time you press play">
+          <Repeat size={16} />
+          <select
+            value={state.repeat}
+            onChange={e => player.setRepeat(Number(e.target.value))}
+            className="bg-white/60 rounded-full px-2 py-1 text-xs font-semibold outline-none"
+          >
+            {REPEAT_OPTIONS.map(n => (
+              <option key={n} value={n}>{n === 1 ? 'Once' : `${n} times`}</option>
+            ))}
+          </select>
+          {state.playing && state.repeat > 1 && (
+            <span className="text-xs">{state.playsDone + 1} of {state.repeat}</span>
+          )}
+        </label>
+
+        <label className="flex items-center space-x-2">
+          <VolumeIcon size={16} />
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={state.volume}
+            onChange={e => player.setVolume(Number(e.target.value))}
+            className="w-24 accent-indigo-500"
+            aria-label="Volume"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
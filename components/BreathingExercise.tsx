@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Square, Volume2, VolumeX, X, CheckCircle2 } from 'lucide-react';
+import { BreathingPattern, FlowerConfig } from '../types';
+import { MoodFlower } from './MoodFlower';
+import {
+  BREATHING_PATTERNS,
+  PHASE_OPENNESS,
+  getBreathingPattern,
+  phaseAt,
+  playPhaseCue,
+  totalSeconds
+} from '../services/breathing';
+import { saveBreathingRecord } from '../services/journalStore';
+
+interface BreathingExerciseProps {
+  config: FlowerConfig;
+  initialPatternId?: string;
+  sessionId?: string;
+  getAudioContext: () => AudioContext;
+  onClose: () => void;
+}
+
+// Holds keep whatever openness the last inhale/exhale reached
+const opennessFor = (pattern: BreathingPattern, phaseIndex: number) => {
+  for (let i = phaseIndex; i >= 0; i--) {
+    const openness = PHASE_OPENNESS[pattern.phases[i].kind];
+    if (openness !== null) return openness;
+  }
+  return 0;
+};
+
+export const BreathingExercise: React.FC<BreathingExerciseProps> = ({
+  config,
+  initialPatternId,
+  sessionId,
+  getAudioContext,
+  onClose
+}) => {
+  const [pattern, setPattern] = useState<BreathingPattern>(() => getBreathingPattern(initialPatternId ?? 'box'));
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [audioCues, setAudioCues] = useState(true);
+  const [finished, setFinished] = useState<'completed' | 'stopped' | null>(null);
+  const lastPhaseKeyRef = useRef('');
+
+  useEffect(() => {
+    setPattern(getBreathingPattern(initialPatternId ?? 'box'));
+  }, [initialPatternId]);
+
+  const running = startedAt !== null;
+  const position = phaseAt(pattern, elapsed);
+  const phase = pattern.phases[position.phaseIndex];
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const interval = setInterval(() => setElapsed((Date.now() - startedAt) / 1000), 100);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  // Cue each new phase once
+  useEffect(() => {
+    if (!running || position.done) return;
+    const key = `${position.round}-${position.phaseIndex}`;
+    if (key === lastPhaseKeyRef.current) return;
+    lastPhaseKeyRef.current = key;
+    if (audioCues) {
+      try {
+        playPhaseCue(getAudioContext(), phase.kind);
+      } catch (err) {
+        console.warn("Breathing cue failed", err);
+      }
+    }
+  }, [running, position.round, position.phaseIndex, position.done]);
+
+  const finish = (completed: boolean) => {
+    if (startedAt === null) return;
+    saveBreathingRecord({
+      patternId: pattern.id,
+      sessionId,
+      startedAt,
+      endedAt: Date.now(),
+      roundsCompleted: completed ? pattern.rounds : position.round,
+      completed
+    }).catch(err => console.error("Breathing record save failed", err));
+    setStartedAt(null);
+    setFinished(completed ? 'completed' : 'stopped');
+  };
+
+  useEffect(() => {
+    if (running && position.done) finish(true);
+  }, [running, position.done]);
+
+  const start = () => {
+    // Resume inside the click so browsers allow the cues to play
+    if (audioCues) getAudioContext().resume().catch(() => undefined);
+    lastPhaseKeyRef.current = '';
+    setElapsed(0);
+    setFinished(null);
+    setStartedAt(Date.now());
+  };
+
+  const remaining = Math.max(0, Math.ceil(phase.seconds - position.phaseElapsed));
+
+  return (
+    <div className="w-full glass-card rounded-[2rem] p-6 md:p-8 border border-white/60 animate-fade-in-up">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-xl font-bold text-slate-700">Breathe with me</h3>
+          <p className="text-sm text-slate-500">{pattern.description}</p>
+        </div>
+        <button
+          onClick={() => {
+            if (running) finish(false);
+            onClose();
+          }}
+          className="p-2 rounded-full text-slate-400 hover:text-slate-700 hover:bg-white/70 transition-colors"
+          title="Close"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-5">
+        {BREATHING_PATTERNS.map(p => (
+          <button
+            key={p.id}
+            disabled={running}
+            onClick={() => {
+              setPattern(p);
+              setFinished(null);
+            }}
+            className={`px-4 py-1.5 rounded-full text-sm font-semibold transition-colors disabled:opacity-50 ${p.id === pattern.id ? 'bg-slate-800 text-white' : 'bg-white/60 text-slate-500 hover:bg-white'}`}
+          >
+            {p.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col items-center mt-4">
+        <MoodFlower
+          config={config}
+          breath={{
+            openness: running ? opennessFor(pattern, position.phaseIndex) : 0.4,
+            seconds: running ? phase.seconds : 1
+          }}
+        />
+
+        <div className="text-center h-20 space-y-1">
+          {running ? (
+            <>
+              <p className="text-2xl font-light text-slate-700">{phase.label}</p>
+              <p className="text-sm text-slate-400 font-mono">
+                {remaining}s · round {position.round + 1} of {pattern.rounds}
+              </p>
+            </>
+          ) : finished === 'completed' ? (
+            <p className="flex items-center space-x-2 text-teal-700 font-semibold">
+              <CheckCircle2 size={20} />
+              <span>Well done. {pattern.rounds} rounds complete.</span>
+            </p>
+          ) : (
+            <p className="text-sm text-slate-400">
+              {pattern.rounds} rounds · about {Math.round(totalSeconds(pattern) / 60 * 10) / 10} min
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={running ? () => finish(false) : start}
+            className="flex items-center space-x-3 bg-slate-800 text-white px-8 py-3 rounded-full hover:bg-slate-900 transition-all shadow-xl"
+          >
+            {running ? <Square size={18} className="text-teal-400" /> : <Play size={18} className="text-teal-400" />}
+            <span className="font-medium">{running ? 'Stop' : finished ? 'Go again' : 'Begin'}</span>
+          </button>
+          <button
+            onClick={() => setAudioCues(on => !on)}
+            className="p-3 rounded-full bg-white/70 text-slate-500 hover:text-indigo-600 transition-colors border border-white/60"
+            title={audioCues ? 'Mute cues' : 'Play cues'}
+          >
+            {audioCues ? <Volume2 size={18} /> : <VolumeX size={18} />}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileText, Printer, Download, Loader2, X } from 'lucide-react';
+import { JournalEntry } from '../types';
+import { REPORT_SECTIONS, ReportSection, buildClinicianReport, entriesInRange } from '../services/clinicianReport';
+import { buildReportHtml, printReportHtml, renderReportPages } from '../services/reportExport';
+import { shareOrDownload } from '../services/media';
+import { ReportDocument } from './ReportDocument';
+
+interface ClinicianReportBuilderProps {
+  entries: JournalEntry[];
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// <input type="date"> works in local YYYY-MM-DD
+const toDateInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const startOfDate = (value: string) => new Date(`${value}T00:00:00`).getTime();
+const endOfDate = (value: string) => new Date(`${value}T23:59:59.999`).getTime();
+
+export const ClinicianReportBuilder: React.FC<ClinicianReportBuilderProps> = ({ entries, onClose }) => {
+  const [fromDate, setFromDate] = useState(() => toDateInput(Date.now() - 29 * DAY_MS));
+  const [toDate, setToDate] = useState(() => toDateInput(Date.now()));
+  const [redacted, setRedacted] = useState<ReportSection[]>([]);
+  const [affirmationIds, setAffirmationIds] = useState<string[]>([]);
+  const [busy, setBusy] = useState<'print' | 'download' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const from = startOfDate(fromDate);
+  const to = endOfDate(toDate);
+  const validRange = !Number.isNaN(from) && !Number.isNaN(to) && from <= to;
+  const inRange = useMemo(
+    () => (validRange ? entriesInRange(entries, from, to) : []),
+    [entries, from, to, validRange]
+  );
+  const report = useMemo(
+    () => buildClinicianReport(inRange, { from, to, redacted, affirmationIds }),
+    [inRange, from, to, redacted, affirmationIds]
+  );
+
+  const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+  const exportReport = async (kind: 'print' | 'download') => {
+    if (!reportRef.current) return;
+    setBusy(kind);
+    setError(null);
+    try {
+      const pages = await renderReportPages(reportRef.current);
+      const title = `EchoTherapy summary ${fromDate} to ${toDate}`;
+      const html = buildReportHtml(pages, title);
+      if (kind === 'print') {
+        await printReportHtml(html);
+      } else {
+        await shareOrDownload(new Blob([html], { type: 'text/html' }), `echotherapy-summary-${fromDate}-to-${toDate}.html`, title);
+      }
+    } catch (err) {
+      console.error("Report export failed", err);
+      setError('The report could not be created. Please try again.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="glass-card rounded-2xl p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-bold text-slate-700 flex items-center space-x-2">
+            <FileText size={20} className="text-indigo-500" />
+            <span>Summary for your therapist</span>
+          </h3>
+          <p className="text-sm text-slate-500">Built on this device from your saved reflections. Your own recordings and words are never included.</p>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="space-y-1">
+          <span className="block text-sm text-slate-500">From</span>
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate}
+            onChange={e => e.target.value && setFromDate(e.target.value)}
+            className="bg-white/80 border border-slate-200 rounded-xl px-3 py-2 text-slate-700"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-sm text-slate-500">To</span>
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate}
+            onChange={e => e.target.value && setToDate(e.target.value)}
+            className="bg-white/80 border border-slate-200 rounded-xl px-3 py-2 text-slate-700"
+          />
+        </label>
+        <p className="text-sm text-slate-400 pb-2">{inRange.length} session{inRange.length === 1 ? '' : 's'} in this range</p>
+      </div>
+
+      <div className="space-y-2">
+        <span className="block text-slate-700 font-medium">Leave out</span>
+        {REPORT_SECTIONS.map(section => (
+          <label key={section.id} className="flex items-start space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={redacted.includes(section.id)}
+              onChange={() => setRedacted(prev => toggle(prev, section.id))}
+              className="mt-1 w-4 h-4 accent-indigo-600"
+            />
+            <span>
+              <span className="block text-sm text-slate-700">{section.label}</span>
+              <span className="block text-xs text-slate-400">{section.hint}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {inRange.length > 0 && (
+        <div className="space-y-2">
+          <span className="block text-slate-700 font-medium">Affirmations to include</span>
+          <div className="max-h-48 overflow-y-auto space-y-2 pr-1">
+            {[...inRange].reverse().map(entry => (
+              <label key={entry.id} className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={affirmationIds.includes(entry.id)}
+                  onChange={() => setAffirmationIds(prev => toggle(prev, entry.id))}
+                  className="mt-1 w-4 h-4 accent-indigo-600"
+                />
+                <span className="text-sm text-slate-600 italic font-serif">“{entry.result.affirmationText}”</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <span className="block text-slate-700 font-medium">Preview</span>
+        <div className="max-h-[32rem] overflow-auto rounded-xl border border-slate-200 bg-slate-100 p-3">
+          <div ref={reportRef} className="w-fit shadow-sm">
+            <ReportDocument report={report} />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => exportReport('print')}
+          disabled={busy !== null || inRange.length === 0}
+          className="flex items-center space-x-2 px-5 py-2 rounded-full text-sm font-semibold bg-slate-800 text-white hover:bg-slate-900 transition-colors disabled:opacity-40"
+        >
+          {busy === 'print' ? <Loader2 size={16} className="animate-spin" /> : <Printer size={16} />}
+          <span>Print or save as PDF</span>
+        </button>
+        <button
+          onClick={() => exportReport('download')}
+          disabled={busy !== null || inRange.length === 0}
+          className="flex items-center space-x-2 px-5 py-2 rounded-full text-sm font-semibold bg-white/70 text-slate-600 border border-slate-200 hover:bg-white transition-colors disabled:opacity-40"
+        >
+          {busy === 'download' ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+          <span>Download as a web page</span>
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-700 font-medium">{error}</p>}
+    </section>
+  );
+};
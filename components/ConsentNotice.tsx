@@ -0,0 +1,42 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+
+interface ConsentNoticeProps {
+  onAccept: () => void;
+  onDecline: () => void;
+  liveAnalysis?: boolean; // live reflection is on, so pieces of the recording go out while recording
+}
+
+// Shown once, before the camera or microphone is first opened or a file is first shared
+export const ConsentNotice: React.FC<ConsentNoticeProps> = ({ onAccept, onDecline, liveAnalysis = false }) => (
+  <div className="glass-card rounded-3xl p-8 space-y-6 animate-fade-in-up">
+    <div className="flex items-center space-x-3">
+      <div className="w-12 h-12 bg-white rounded-2xl shadow-sm flex items-center justify-center text-teal-500">
+        <ShieldCheck size={26} />
+      </div>
+      <h3 className="text-xl font-bold text-slate-700">Before you share</h3>
+    </div>
+    <ul className="space-y-3 text-slate-600 text-sm leading-relaxed list-disc pl-5">
+      <li>Your recording is sent to an AI model so it can reflect on how you feel. It is not used to identify you.</li>
+      {liveAnalysis && (
+        <li>Live reflection is on: short pieces of your recording are also sent while you speak, so feelings can show as they emerge. You can turn it off in Settings.</li>
+      )}
+      <li>Your journal is kept only on this device. You can lock it with a passcode, stop keeping recordings, export it or delete it in Settings.</li>
+      <li>EchoTherapy is a companion, not a therapist or an emergency service.</li>
+    </ul>
+    <div className="flex flex-col sm:flex-row gap-3">
+      <button
+        onClick={onAccept}
+        className="flex-grow px-6 py-3 rounded-full bg-slate-800 text-white font-semibold hover:bg-slate-900 transition-colors"
+      >
+        I understand, continue
+      </button>
+      <button
+        onClick={onDecline}
+        className="px-6 py-3 rounded-full text-slate-500 font-semibold bg-white/60 border border-slate-200 hover:bg-white transition-colors"
+      >
+        Not now
+      </button>
+    </div>
+  </div>
+);
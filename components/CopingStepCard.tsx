@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Timer, Wind, Square } from 'lucide-react';
+import { BreathingPattern, CopingPractice, PracticeRating } from '../types';
+import { PRACTICE_TIMER_SECONDS, distressDelta } from '../services/copingTracker';
+
+interface CopingStepCardProps {
+  step: string;
+  index: number;
+  distressBefore: number;
+  practice?: CopingPractice;
+  exercise?: BreathingPattern | null;
+  onTryBreathing: (patternId: string) => void;
+  onUpdate: (practice: CopingPractice) => void;
+}
+
+const RATING_OPTIONS: { value: PracticeRating; label: string }[] = [
+  { value: 'helped', label: 'Helped' },
+  { value: 'somewhat', label: 'A little' },
+  { value: 'not_really', label: 'Not really' }
+];
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const describeDelta = (delta: number) => {
+  const points = Math.round(Math.abs(delta) * 100);
+  if (points < 5) return 'about the same as before';
+  return delta < 0 ? `${points} points lighter` : `${points} points heavier`;
+};
+
+export const CopingStepCard: React.FC<CopingStepCardProps> = ({
+  step,
+  index,
+  distressBefore,
+  practice,
+  exercise,
+  onTryBreathing,
+  onUpdate
+}) => {
+  // Seconds left on the step timer, or null when it isn't running
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [rating, setRating] = useState<PracticeRating | undefined>(practice?.rating);
+  const [feeling, setFeeling] = useState(Math.round((practice?.distressAfter ?? distressBefore) * 100));
+  const [editing, setEditing] = useState(false);
+
+  const base: CopingPractice = practice ?? { step, distressBefore };
+  const done = !!base.doneAt;
+  const checkedIn = base.distressAfter !== undefined && !editing;
+
+  const markDone = (timerSeconds?: number) => {
+    setRemaining(null);
+    onUpdate({ ...base, doneAt: Date.now(), ...(timerSeconds ? { timerSeconds } : {}) });
+  };
+
+  useEffect(() => {
+    if (remaining === null) return;
+    if (remaining <= 0) {
+      markDone(PRACTICE_TIMER_SECONDS);
+      return;
+    }
+    const timer = setTimeout(() => setRemaining(r => (r === null ? null : r - 1)), 1000);
+    return () => clearTimeout(timer);
+  }, [remaining]);
+
+  const saveCheckIn = () => {
+    onUpdate({ ...base, rating, distressAfter: feeling / 100 });
+    setEditing(false);
+  };
+
+  const delta = distressDelta(base);
+
+  return (
+    <div className="glass-card p-6 rounded-2xl hover:bg-white/80 transition-all duration-300 hover:shadow-lg group border border-white/60 flex flex-col">
+      <div className={`w-10 h-10 rounded-xl border font-bold flex items-center justify-center mb-4 text-lg shadow-sm group-hover:scale-110 transition-transform ${done ? 'bg-teal-500 border-teal-500 text-white' : 'bg-gradient-to-br from-indigo-50 to-white border-indigo-100 text-indigo-600'}`}>
+        {done ? <Check size={20} /> : index + 1}
+      </div>
+      <p className="text-slate-600 font-medium leading-relaxed flex-grow">{step}</p>
+      {exercise && (
+        <button
+          onClick={() => onTryBreathing(exercise.id)}
+          className="mt-4 inline-flex items-center space-x-2 text-sm font-semibold text-teal-700 hover:text-teal-900"
+        >
+          <Wind size={16} />
+          <span>Try {exercise.name.toLowerCase()}</span>
+        </button>
+      )}
+
+      <div className="mt-5 pt-4 border-t border-slate-100 space-y-3">
+        {!done ? (
+          remaining !== null ? (
+            <div className="flex items-center justify-between">
+              <span className="flex items-center space-x-2 text-sm font-mono text-slate-600">
+                <Timer size={16} className="text-indigo-400" />
+                <span>{formatClock(remaining)}</span>
+              </span>
+              <button
+                onClick={() => markDone(PRACTICE_TIMER_SECONDS - remaining)}
+                className="flex items-center space-x-1 text-sm font-semibold text-slate-500 hover:text-slate-800"
+              >
+                <Square size={12} className="fill-current" />
+                <span>I'm done</span>
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => markDone()}
+                className="flex items-center space-x-1 px-3 py-1.5 rounded-full text-sm font-semibold bg-slate-800 text-white hover:bg-slate-900 transition-colors"
+              >
+                <Check size={14} />
+                <span>Done</span>
+              </button>
+              <button
+                onClick={() => setRemaining(PRACTICE_TIMER_SECONDS)}
+                className="flex items-center space-x-1 px-3 py-1.5 rounded-full text-sm font-semibold bg-white/70 text-slate-600 border border-slate-200 hover:bg-white transition-colors"
+              >
+                <Timer size={14} />
+                <span>{PRACTICE_TIMER_SECONDS / 60} min timer</span>
+              </button>
+            </div>
+          )
+        ) : checkedIn ? (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-slate-500">
+              {rating && <span className="font-semibold text-slate-700">{RATING_OPTIONS.find(o => o.value === rating)?.label} · </span>}
+              {delta !== null && describeDelta(delta)}
+            </span>
+            <button onClick={() => setEditing(true)} className="text-xs font-semibold text-slate-400 hover:text-indigo-600">Edit</button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm font-semibold text-slate-600">How did it go?</p>
+            <div className="flex flex-wrap gap-2">
+              {RATING_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setRating(option.value)}
+                  className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${rating === option.value ? 'bg-slate-800 text-white' : 'bg-white/60 text-slate-500 hover:bg-white'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <label className="block space-y-1">
+              <span className="text-sm text-slate-500">How do you feel now?</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={feeling}
+                onChange={e => setFeeling(Number(e.target.value))}
+                className="w-full accent-indigo-600"
+              />
+              <span className="flex justify-between text-xs text-slate-400">
+                <span>At ease</span>
+                <span>Overwhelmed</span>
+              </span>
+            </label>
+            <button
+              onClick={saveCheckIn}
+              className="w-full px-3 py-1.5 rounded-full text-sm font-semibold bg-slate-800 text-white hover:bg-slate-900 transition-colors"
+            >
+              Save check-in
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
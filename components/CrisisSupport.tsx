@@ -0,0 +1,73 @@
+import React from 'react';
+import { AlertTriangle, HeartHandshake, Phone, MessageSquare, Globe } from 'lucide-react';
+import { CrisisContact, CrisisRegion, DistressTier } from '../types';
+import { contactHref } from '../services/crisisResources';
+
+interface CrisisSupportProps {
+  tier: DistressTier;
+  region: CrisisRegion;
+}
+
+const CONTACT_ICONS: Record<CrisisContact['kind'], typeof Phone> = {
+  call: Phone,
+  text: MessageSquare,
+  web: Globe
+};
+
+const ContactLink: React.FC<{ contact: CrisisContact; tone: 'orange' | 'indigo' }> = ({ contact, tone }) => {
+  const Icon = CONTACT_ICONS[contact.kind];
+  return (
+    <a
+      href={contactHref(contact)}
+      target={contact.kind === 'web' ? '_blank' : undefined}
+      rel={contact.kind === 'web' ? 'noopener noreferrer' : undefined}
+      className={`flex items-center space-x-2 bg-white/70 px-3 py-2 rounded-lg font-bold border transition-colors ${tone === 'orange' ? 'border-orange-200 hover:bg-white' : 'border-indigo-100 hover:bg-white'}`}
+    >
+      <Icon size={16} className="flex-shrink-0" />
+      <span>{contact.display}</span>
+      <span className="font-normal opacity-70 hidden sm:inline">· {contact.name}</span>
+    </a>
+  );
+};
+
+export const CrisisSupport: React.FC<CrisisSupportProps> = ({ tier, region }) => {
+  if (tier === 'none') return null;
+
+  if (tier === 'elevated') {
+    return (
+      <div className="glass-card bg-indigo-50/70 border-indigo-100 p-5 rounded-2xl flex items-start space-x-4 text-indigo-900">
+        <HeartHandshake className="flex-shrink-0 mt-1 text-indigo-500" size={22} />
+        <div className="text-sm leading-relaxed space-y-3">
+          <p>It sounds like a lot right now. If it would help to talk to someone, these lines are free and confidential:</p>
+          <div className="flex flex-wrap gap-2">
+            {region.contacts.map(contact => (
+              <ContactLink key={`${contact.kind}-${contact.value}`} contact={contact} tone="indigo" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-card bg-orange-50/80 border-orange-200 p-6 rounded-2xl flex items-start space-x-4 text-orange-900 shadow-soft">
+      <AlertTriangle className="flex-shrink-0 mt-1 text-orange-600" size={24} />
+      <div className="text-sm leading-relaxed">
+        <p className="font-bold text-lg mb-2">You are going through a difficult moment.</p>
+        <p className="mb-3">You don't have to carry this alone. Immediate support is available:</p>
+        <div className="flex flex-wrap gap-3">
+          {region.contacts.map(contact => (
+            <ContactLink key={`${contact.kind}-${contact.value}`} contact={contact} tone="orange" />
+          ))}
+        </div>
+        {region.emergency && (
+          <p className="mt-4">
+            If you are in immediate danger, call{' '}
+            <a href={`tel:${region.emergency}`} className="font-bold underline">{region.emergency}</a>.
+          </p>
+        )}
+        <p className="mt-3 text-xs opacity-70">Showing resources for {region.name}. You can change this in Settings.</p>
+      </div>
+    </div>
+  );
+};
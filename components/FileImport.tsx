@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { Upload, ArrowLeft, Loader2, Scissors } from 'lucide-react';
+import { MediaType } from '../types';
+import {
+  ACCEPT_ATTRIBUTE,
+  ImportedMedia,
+  inspectImport,
+  needsTrim,
+  trimMedia
+} from '../services/mediaImport';
+
+interface FileImportProps {
+  onSubmit: (blob: Blob, type: MediaType, mimeType: string) => void;
+  onBack: () => void;
+  maxSeconds: number; // imported clips get the same budget as a live recording
+}
+
+const formatSeconds = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const FileImport: React.FC<FileImportProps> = ({ onSubmit, onBack, maxSeconds }) => {
+  const [media, setMedia] = useState<ImportedMedia | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [start, setStart] = useState(0);
+  const [length, setLength] = useState(maxSeconds);
+  const [dragging, setDragging] = useState(false);
+  const [busy, setBusy] = useState<'reading' | 'trimming' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const loadFile = async (file: File) => {
+    setError(null);
+    setBusy('reading');
+    try {
+      const inspected = await inspectImport(file);
+      setMedia(inspected);
+      setPreviewUrl(URL.createObjectURL(file));
+      setStart(0);
+      setLength(Math.min(maxSeconds, inspected.duration));
+    } catch (err) {
+      console.error("File import failed", err);
+      setMedia(null);
+      setPreviewUrl(null);
+      setError(err instanceof Error ? err.message : 'This file could not be opened.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const submit = async () => {
+    if (!media) return;
+    if (!needsTrim(media, maxSeconds)) {
+      onSubmit(media.file, media.type, media.mimeType);
+      return;
+    }
+    setError(null);
+    setBusy('trimming');
+    try {
+      const { blob, mimeType } = await trimMedia(media, start, start + length);
+      onSubmit(blob, media.type, mimeType);
+    } catch (err) {
+      console.error("Clip trim failed", err);
+      setError(err instanceof Error ? err.message : 'This clip could not be trimmed.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const trimming = media ? needsTrim(media, maxSeconds) : false;
+  const maxStart = media ? Math.max(0, media.duration - length) : 0;
+
+  return (
+    <div className="w-full space-y-6 animate-fade-in-up">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-light text-slate-800 tracking-tight">
+          Share a <span className="text-indigo-600 font-medium">recording</span>
+        </h2>
+        <p className="text-slate-500 font-light">
+          A voice memo or video you already have. We'll listen to up to {maxSeconds} seconds of it.
+        </p>
+      </div>
+
+      <label
+        onDragOver={e => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setDragging(false);
+          const file = e.dataTransfer.files[0];
+          if (file) loadFile(file);
+        }}
+        className={`flex flex-col items-center justify-center h-40 rounded-3xl glass-card border-2 border-dashed cursor-pointer transition-colors focus-within:ring-4 focus-within:ring-indigo-300 ${dragging ? 'border-indigo-400 bg-indigo-50/60' : 'border-slate-200 hover:bg-white/80'}`}
+      >
+        {busy === 'reading' ? (
+          <Loader2 size={28} className="text-indigo-400 animate-spin" />
+        ) : (
+          <>
+            <Upload size={28} className="text-indigo-500 mb-3" />
+            <span className="font-semibold text-slate-700">{media ? media.file.name : 'Drop a file here or choose one'}</span>
+            <span className="text-sm text-slate-400 mt-1">MP3, M4A, WAV, MP4, MOV or WebM</span>
+          </>
+        )}
+        {/* Visually hidden but still focusable, so the picker opens from the keyboard and is announced */}
+        <input
+          type="file"
+          accept={ACCEPT_ATTRIBUTE}
+          className="sr-only"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) loadFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {media && previewUrl && (
+        <div className="glass-card rounded-3xl p-5 space-y-4 border border-white/60">
+          {media.type === MediaType.VIDEO ? (
+            <video src={previewUrl} controls playsInline className="w-full rounded-2xl bg-slate-900 max-h-64" />
+          ) : (
+            <audio src={previewUrl} controls className="w-full" />
+          )}
+
+          {trimming ? (
+            <div className="space-y-3 text-sm text-slate-600">
+              <p className="flex items-center space-x-2 font-semibold text-slate-700">
+                <Scissors size={16} className="text-indigo-500" />
+                <span>Choose the part to share</span>
+              </p>
+              <label className="block space-y-1">
+                <span>Start at {formatSeconds(start)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={maxStart}
+                  step={0.5}
+                  value={Math.min(start, maxStart)}
+                  onChange={e => setStart(Number(e.target.value))}
+                  className="w-full accent-indigo-500"
+                />
+              </label>
+              <label className="block space-y-1">
+                <span>Length {Math.round(length)}s</span>
+                <input
+                  type="range"
+                  min={3}
+                  max={Math.min(maxSeconds, media.duration)}
+                  step={1}
+                  value={length}
+                  onChange={e => {
+                    const next = Number(e.target.value);
+                    setLength(next);
+                    setStart(s => Math.min(s, Math.max(0, media.duration - next)));
+                  }}
+                  className="w-full accent-indigo-500"
+                />
+              </label>
+              <p className="text-xs text-slate-400">
+                {formatSeconds(start)} – {formatSeconds(start + length)} of {formatSeconds(media.duration)}
+                {media.type === MediaType.VIDEO && ' · trimming video plays it through once, so it takes as long as the clip'}
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">{formatSeconds(media.duration)} · ready to share as is.</p>
+          )}
+        </div>
+      )}
+
+      {error && <p role="alert" className="text-center text-red-700 font-medium">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onBack}
+          disabled={busy === 'trimming'}
+          className="flex items-center space-x-2 px-5 py-3 rounded-full text-sm font-semibold text-slate-500 hover:text-slate-700 hover:bg-white/60 transition-colors disabled:opacity-40"
+        >
+          <ArrowLeft size={16} />
+          <span>Back</span>
+        </button>
+        <button
+          onClick={submit}
+          disabled={!media || busy !== null}
+          className="flex items-center space-x-2 bg-slate-800 text-white px-8 py-3 rounded-full hover:bg-slate-900 transition-all shadow-xl disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {busy === 'trimming' && <Loader2 size={18} className="animate-spin text-teal-400" />}
+          <span className="font-medium">{busy === 'trimming' ? 'Preparing clip...' : 'Analyze this clip'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
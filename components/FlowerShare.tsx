@@ -0,0 +1,154 @@
+import React, { useRef, useState } from 'react';
+import { X, Image, Film, Shapes, Camera, Share2, Loader2 } from 'lucide-react';
+import { FlowerConfig } from '../types';
+import {
+  ASPECT_PRESETS,
+  AspectPreset,
+  buildFlowerSvg,
+  recordFlowerVideo,
+  renderFlowerPng,
+  supportedVideoType
+} from '../services/flowerExport';
+import { shareOrDownload } from '../services/media';
+
+type ExportFormat = 'snapshot' | 'png' | 'video' | 'svg';
+
+interface FlowerShareProps {
+  config: FlowerConfig;
+  affirmation: string;
+  audio: AudioBuffer | null;
+  // PNG of the on-screen card, exactly as it looks now
+  takeSnapshot: () => Promise<Blob>;
+  onClose: () => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string; hint: string; Icon: typeof Image }[] = [
+  { id: 'video', label: 'Animated video', hint: 'WebM with the bloom and motion', Icon: Film },
+  { id: 'png', label: 'Image', hint: 'PNG sized for sharing', Icon: Image },
+  { id: 'svg', label: 'SVG', hint: 'Animated vector, any size', Icon: Shapes },
+  { id: 'snapshot', label: 'Card snapshot', hint: 'The card as it looks on screen', Icon: Camera }
+];
+
+const EXTENSIONS: Record<ExportFormat, string> = { snapshot: 'png', png: 'png', video: 'webm', svg: 'svg' };
+
+export const FlowerShare: React.FC<FlowerShareProps> = ({ config, affirmation, audio, takeSnapshot, onClose }) => {
+  const videoSupported = !!supportedVideoType();
+  const [format, setFormat] = useState<ExportFormat>(videoSupported ? 'video' : 'png');
+  const [preset, setPreset] = useState<AspectPreset>('story');
+  const [withAudio, setWithAudio] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const exportFlower = async () => {
+    const artwork = { config, affirmation, preset };
+    setBusy(true);
+    setStatus(format === 'video' ? 'Recording your flower. This takes a few seconds...' : null);
+    try {
+      let blob: Blob;
+      if (format === 'video') {
+        abortRef.current = new AbortController();
+        blob = await recordFlowerVideo(artwork, withAudio ? audio : null, abortRef.current.signal);
+      } else if (format === 'svg') {
+        blob = buildFlowerSvg(artwork);
+      } else if (format === 'png') {
+        blob = await renderFlowerPng(artwork);
+      } else {
+        blob = await takeSnapshot();
+      }
+      const extension = format === 'video' && blob.type === 'video/mp4' ? 'mp4' : EXTENSIONS[format];
+      const outcome = await shareOrDownload(blob, `echo-moment-${new Date().toISOString().slice(0,10)}.${extension}`, 'My EchoTherapy flower');
+      setStatus(outcome === 'downloaded' ? 'Saved to your downloads.' : null);
+    } catch (err) {
+      if ((err as Error)?.name === 'AbortError') {
+        setStatus(null);
+      } else {
+        console.error("Flower export failed", err);
+        setStatus('That export didn\'t work in this browser. Try another format.');
+      }
+    } finally {
+      abortRef.current = null;
+      setBusy(false);
+    }
+  };
+
+  const usesPreset = format === 'png' || format === 'video' || format === 'svg';
+
+  return (
+    <div className="w-full glass-card rounded-[2rem] p-6 md:p-8 border border-white/60 space-y-6 animate-fade-in-up">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-xl font-bold text-slate-700">Keep this moment</h3>
+          <p className="text-sm text-slate-500">Save or share your flower and affirmation.</p>
+        </div>
+        <button
+          onClick={() => {
+            abortRef.current?.abort();
+            onClose();
+          }}
+          className="p-2 rounded-full text-slate-400 hover:text-slate-700 hover:bg-white/70 transition-colors"
+          title="Close"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {FORMATS.filter(f => f.id !== 'video' || videoSupported).map(({ id, label, hint, Icon }) => (
+          <button
+            key={id}
+            onClick={() => setFormat(id)}
+            disabled={busy}
+            className={`flex items-start space-x-3 text-left p-4 rounded-2xl border transition-colors ${format === id ? 'bg-white border-indigo-200 shadow-sm' : 'bg-white/40 border-transparent hover:bg-white/70'}`}
+          >
+            <Icon size={20} className={format === id ? 'text-indigo-500' : 'text-slate-400'} />
+            <span>
+              <span className="block font-semibold text-slate-700 text-sm">{label}</span>
+              <span className="block text-xs text-slate-400">{hint}</span>
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {usesPreset && (
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(ASPECT_PRESETS) as AspectPreset[]).map(id => (
+            <button
+              key={id}
+              onClick={() => setPreset(id)}
+              disabled={busy}
+              className={`px-4 py-1.5 rounded-full text-sm font-semibold transition-colors ${id === preset ? 'bg-slate-800 text-white' : 'bg-white/60 text-slate-500 hover:bg-white'}`}
+            >
+              {ASPECT_PRESETS[id].label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {format === 'video' && audio && (
+        <label className="flex items-center space-x-3 text-sm text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={withAudio}
+            onChange={e => setWithAudio(e.target.checked)}
+            disabled={busy}
+            className="w-4 h-4 accent-indigo-600"
+          />
+          <span>Include the spoken affirmation</span>
+        </label>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-500">{status}</p>
+        <button
+          onClick={exportFlower}
+          disabled={busy}
+          className="flex items-center space-x-3 bg-slate-800 text-white px-8 py-3 rounded-full hover:bg-slate-900 transition-all shadow-xl disabled:opacity-60"
+        >
+          {busy ? <Loader2 size={18} className="animate-spin text-teal-400" /> : <Share2 size={18} className="text-teal-400" />}
+          <span className="font-medium">Save or share</span>
+        </button>
+      </div>
+    </div>
+  );
+};
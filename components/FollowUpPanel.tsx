@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, Mic, Square, Loader2, MessageCircle } from 'lucide-react';
+import { ConversationState } from '../types';
+import { ConsentNotice } from './ConsentNotice';
+
+interface FollowUpPanelProps {
+  conversation: ConversationState;
+  onSendText: (text: string) => void;
+  onSendVoice: (blob: Blob, mimeType: string) => void;
+  onCancel: () => void;
+  consentGiven: boolean;
+  onConsent: () => void;
+}
+
+const MAX_VOICE_SECONDS = 30;
+
+export const FollowUpPanel: React.FC<FollowUpPanelProps> = ({ conversation, onSendText, onSendVoice, onCancel, consentGiven, onConsent }) => {
+  const [draft, setDraft] = useState('');
+  const [askingConsent, setAskingConsent] = useState(false);
+  const [recordingFor, setRecordingFor] = useState<number | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const sending = conversation.status === 'sending';
+
+  useEffect(() => {
+    if (recordingFor === null) return;
+    if (recordingFor >= MAX_VOICE_SECONDS) {
+      recorderRef.current?.stop();
+      return;
+    }
+    const timer = setTimeout(() => setRecordingFor(s => (s === null ? null : s + 1)), 1000);
+    return () => clearTimeout(timer);
+  }, [recordingFor]);
+
+  // Release the microphone if the panel goes away mid-recording, without sending anything
+  useEffect(() => () => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.onstop = null;
+      recorderRef.current.stop();
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+  }, []);
+
+  const submitText = () => {
+    const text = draft.trim();
+    if (!text || sending) return;
+    onSendText(text);
+    setDraft('');
+  };
+
+  const startVoice = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = e => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        setRecordingFor(null);
+        const mimeType = recorder.mimeType || 'audio/webm';
+        if (chunks.length) onSendVoice(new Blob(chunks, { type: mimeType }), mimeType);
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      setRecordingFor(0);
+    } catch (err) {
+      console.error("Follow-up recording failed", err);
+    }
+  };
+
+  return (
+    <section className="space-y-5 pt-6">
+      <h3 className="text-xl font-bold text-slate-700 flex items-center px-2">
+        <MessageCircle size={20} className="mr-2 text-indigo-400" />
+        Tell me more
+      </h3>
+
+      {conversation.turns.length > 0 && (
+        <ol className="space-y-4">
+          {conversation.turns.map(turn => (
+            <li key={turn.id} className="space-y-2">
+              <div className="ml-auto max-w-[85%] w-fit bg-slate-800 text-white px-4 py-3 rounded-2xl rounded-br-md text-sm leading-relaxed">
+                {turn.source === 'voice' && <Mic size={14} className="inline mr-2 text-teal-300" />}
+                {turn.message}
+              </div>
+              <div className="max-w-[85%] w-fit glass-card px-4 py-3 rounded-2xl rounded-bl-md text-sm text-slate-600 leading-relaxed">
+                {turn.result.empathySummary}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {conversation.status === 'error' && (
+        <p role="alert" className="text-sm text-red-700 font-medium px-2">{conversation.errorMessage}</p>
+      )}
+
+      {askingConsent ? (
+        <ConsentNotice
+          onAccept={() => {
+            setAskingConsent(false);
+            onConsent();
+            startVoice();
+          }}
+          onDecline={() => setAskingConsent(false)}
+        />
+      ) : sending ? (
+        <div className="flex items-center justify-between glass-card rounded-2xl px-5 py-4">
+          <span className="flex items-center space-x-3 text-slate-500 text-sm">
+            <Loader2 size={18} className="animate-spin text-indigo-400" />
+            <span>Thinking about what you said...</span>
+          </span>
+          <button onClick={onCancel} className="text-sm font-semibold text-slate-500 hover:text-slate-700">Cancel</button>
+        </div>
+      ) : recordingFor !== null ? (
+        <div className="flex items-center justify-between glass-card rounded-2xl px-5 py-4">
+          <span className="flex items-center space-x-3 text-slate-600 text-sm font-mono">
+            <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+            <span>{recordingFor}s / {MAX_VOICE_SECONDS}s</span>
+          </span>
+          <button
+            onClick={() => recorderRef.current?.stop()}
+            className="w-10 h-10 bg-slate-800 rounded-full flex items-center justify-center hover:bg-slate-900 transition-colors"
+            title="Stop and send"
+          >
+            <Square size={16} className="text-white fill-current" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-end space-x-3">
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                submitText();
+              }
+            }}
+            rows={2}
+            placeholder="e.g. the second step doesn't work for me"
+            className="flex-grow glass-card rounded-2xl px-5 py-3 text-slate-700 placeholder:text-slate-400 outline-none resize-none focus:ring-2 focus:ring-indigo-200"
+          />
+          <button
+            onClick={() => (consentGiven ? startVoice() : setAskingConsent(true))}
+            className="p-3 rounded-full bg-white/80 text-indigo-500 hover:text-indigo-700 border border-white/60 shadow-sm transition-colors"
+            title="Record a voice reply"
+          >
+            <Mic size={20} />
+          </button>
+          <button
+            onClick={submitText}
+            disabled={!draft.trim()}
+            className="p-3 rounded-full bg-slate-800 text-white hover:bg-slate-900 shadow-sm transition-colors disabled:opacity-40"
+            title="Send"
+          >
+            <Send size={20} />
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { Search, Trash2, Mic, Video, PenLine, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { JournalEntry, MediaType } from '../types';
+import { MoodFlower } from './MoodFlower';
+import { AcousticPanel } from './AcousticPanel';
+import { clearSessions, deleteSession, loadSessionMedia, searchSessionsByEmotion } from '../services/journalStore';
+import { distressDelta } from '../services/copingTracker';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+// Loads a kept recording only once its entry is opened; they can be large
+const EntryRecording: React.FC<{ id: string; mediaType: MediaType }> = ({ id, mediaType }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    loadSessionMedia(id)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => console.error("Recording load failed", err));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id]);
+
+  if (!url) return null;
+  return mediaType === MediaType.VIDEO
+    ? <video src={url} controls className="w-full max-h-64 rounded-xl bg-black" />
+    : <audio src={url} controls className="w-full" />;
+};
+
+interface JournalProps {
+  focusId?: string; // open this entry and scroll to it
+}
+
+export const Journal: React.FC<JournalProps> = ({ focusId }) => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(focusId ?? null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    searchSessionsByEmotion(query)
+      .then(found => {
+        if (!cancelled) {
+          setEntries(found);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        console.error("Journal load failed", err);
+        if (!cancelled) setError('Your journal could not be opened in this browser.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  useEffect(() => {
+    if (!focusId || loading) return;
+    setExpandedId(focusId);
+    document.getElementById(`journal-entry-${focusId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusId, loading]);
+
+  const removeEntry = async (id: string) => {
+    if (!window.confirm('Delete this entry? This cannot be undone.')) return;
+    await deleteSession(id);
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+  };
+
+  // A search only shows some entries, but "Delete all" removes every one, so it waits for the search to be cleared
+  const searching = query.trim() !== '';
+
+  const removeAll = async () => {
+    if (!window.confirm('Delete your entire journal? This cannot be undone.')) return;
+    await clearSessions();
+    setEntries([]);
+  };
+
+  return (
+    <div className="w-full space-y-8 animate-fade-in-up pb-24">
+      <div className="text-center space-y-3">
+        <h2 className="text-3xl md:text-4xl font-light text-slate-800 tracking-tight">
+          Your <span className="text-indigo-600 font-medium">journal</span>
+        </h2>
+        <p className="text-slate-500 text-lg font-light">Every reflection you've had, kept only on this device.</p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 items-stretch sm:items-center">
+        <label className="flex-grow flex items-center space-x-3 glass-card rounded-full px-5 py-3">
+          <Search size={18} className="text-slate-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search by emotion (e.g. anxiety)"
+            className="flex-grow bg-transparent outline-none text-slate-700 placeholder:text-slate-400"
+          />
+        </label>
+        <button
+          onClick={removeAll}
+          disabled={entries.length === 0 || searching}
+          title={searching ? 'Clear the search to delete all entries' : undefined}
+          className="px-5 py-3 rounded-full text-sm font-bold text-red-600 bg-white/70 border border-red-100 hover:bg-red-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Delete all
+        </button>
+      </div>
+
+      {error && <p className="text-center text-red-700 font-medium">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 size={32} className="text-indigo-400 animate-spin" />
+        </div>
+      ) : entries.length === 0 && !error ? (
+        <p className="text-center text-slate-400 py-16">
+          {query ? 'No entries match that emotion.' : 'No sessions yet. Your reflections will appear here.'}
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {entries.map(entry => {
+            const { result } = entry;
+            const expanded = expandedId === entry.id;
+            return (
+              <li key={entry.id} id={`journal-entry-${entry.id}`} className="glass-card rounded-2xl p-5 border border-white/60">
+                <div className="flex items-center space-x-5">
+                  <div className="flex-shrink-0">
+                    <MoodFlower config={result.flowerConfig} compact />
+                  </div>
+                  <div className="flex-grow min-w-0 space-y-1">
+                    <div className="flex items-center space-x-2 text-xs text-slate-400 font-semibold uppercase tracking-wider">
+                      {entry.mediaType === MediaType.VIDEO ? <Video size={14} /> : entry.mediaType === MediaType.TEXT ? <PenLine size={14} /> : <Mic size={14} />}
+                      <span>{formatDate(entry.createdAt)}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: result.flowerConfig.baseColor }}></span>
+                      <span className="font-semibold text-slate-700 capitalize">{result.emotion}</span>
+                      <span className="text-xs text-slate-400">distress {Math.round(result.distressScore * 100)}%</span>
+                    </div>
+                    <p className="text-slate-600 text-sm leading-relaxed truncate">{result.empathySummary}</p>
+                  </div>
+                  <div className="flex flex-col space-y-2">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                      className="p-2 rounded-full text-slate-400 hover:text-indigo-600 hover:bg-white/70 transition-colors"
+                      title={expanded ? 'Collapse' : 'Expand'}
+                      aria-label={expanded ? 'Collapse' : 'Expand'}
+                      aria-expanded={expanded}
+                    >
+                      {expanded ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+                    </button>
+                    <button
+                      onClick={() => removeEntry(entry.id)}
+                      className="p-2 rounded-full text-slate-400 hover:text-red-600 hover:bg-white/70 transition-colors"
+                      title="Delete entry"
+                      aria-label="Delete entry"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+
+                {expanded && (
+                  <div className="mt-5 pt-5 border-t border-slate-100 space-y-4 animate-fade-in-up">
+                    {entry.hasMedia && <EntryRecording id={entry.id} mediaType={entry.mediaType} />}
+                    {entry.acoustics && <AcousticPanel features={entry.acoustics} />}
+                    {entry.text && (
+                      <p className="text-slate-500 text-sm leading-relaxed whitespace-pre-line border-l-2 border-purple-200 pl-4">{entry.text}</p>
+                    )}
+                    <p className="text-slate-700 leading-relaxed">{result.empathySummary}</p>
+                    <p className="text-slate-600 italic font-serif">"{result.affirmationText}"</p>
+                    {entry.safetyCheck && (
+                      <p className="text-xs text-slate-400">
+                        Safety check: {entry.safetyCheck === 'safe' ? 'you said you were safe' : 'you said you weren\'t safe'}
+                        {entry.safeLaterAt && `, then at ${new Date(entry.safeLaterAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })} that you were safe again`}
+                      </p>
+                    )}
+                    <ol className="space-y-2">
+                      {result.copingPlan.map((step, idx) => (
+                        <li key={idx} className="flex space-x-3 text-sm text-slate-600">
+                          <span className="font-bold text-indigo-500">{idx + 1}.</span>
+                          <span>{step}</span>
+                        </li>
+                      ))}
+                    </ol>
+                    {entry.practices && entry.practices.some(p => p.doneAt) && (
+                      <div className="space-y-2 pt-2">
+                        <p className="text-xs font-semibold uppercase tracking-wider text-slate-400">Practiced</p>
+                        {entry.practices.filter(p => p.doneAt).map(practice => {
+                          const delta = distressDelta(practice);
+                          return (
+                            <p key={practice.step} className="text-sm text-slate-600">
+                              {practice.step}
+                              {delta !== null && (
+                                <span className="ml-2 text-xs text-slate-400">distress {delta <= 0 ? '−' : '+'}{Math.round(Math.abs(delta) * 100)}</span>
+                              )}
+                            </p>
+                          );
+                        })}
+                      </div>
+                    )}
+                    {entry.followUps && entry.followUps.length > 0 && (
+                      <div className="space-y-2 pt-2">
+                        <p className="text-xs font-semibold uppercase tracking-wider text-slate-400">Follow-ups</p>
+                        {entry.followUps.map(turn => (
+                          <div key={turn.id} className="text-sm space-y-1">
+                            {turn.message && <p className="text-slate-700">“{turn.message}”</p>}
+                            <p className="text-slate-500">{turn.result.empathySummary}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createLevelMeter } from '../services/mediaDevices';
+
+interface LevelMeterProps {
+  stream: MediaStream;
+  paused?: boolean;
+}
+
+// Below this the input is treated as silence
+const QUIET_LEVEL = 0.04;
+// How long the input can stay silent before we suggest checking the microphone
+const QUIET_HINT_MS = 4000;
+
+export const LevelMeter: React.FC<LevelMeterProps> = ({ stream, paused = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [level, setLevel] = useState(0);
+  const [tooQuiet, setTooQuiet] = useState(false);
+
+  useEffect(() => {
+    const meter = createLevelMeter(stream);
+    let frame = 0;
+    let lastHeardAt = performance.now();
+    let lastLevelUpdate = 0;
+
+    const draw = (now: number) => {
+      const { level: current, waveform } = meter.read();
+      if (current > QUIET_LEVEL) lastHeardAt = now;
+      // The bar doesn't need 60 re-renders a second
+      if (now - lastLevelUpdate > 100) {
+        lastLevelUpdate = now;
+        setLevel(current);
+        setTooQuiet(now - lastHeardAt > QUIET_HINT_MS);
+      }
+
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        const { width, height } = canvas;
+        ctx.clearRect(0, 0, width, height);
+        ctx.beginPath();
+        for (let i = 0; i < waveform.length; i++) {
+          const x = (i / (waveform.length - 1)) * width;
+          const y = height / 2 + ((waveform[i] - 128) / 128) * (height / 2);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      meter.stop();
+    };
+  }, [stream]);
+
+  return (
+    <div className="w-full space-y-2">
+      <canvas aria-hidden="true" ref={canvasRef} width={480} height={64} className={`w-full h-12 transition-opacity ${paused ? 'opacity-30' : ''}`} />
+      <div className="flex items-center space-x-3">
+        <div aria-hidden="true" className="flex-grow h-1.5 bg-white/20 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-teal-300 to-indigo-300 transition-[width] duration-100"
+            style={{ width: `${Math.round((paused ? 0 : level) * 100)}%` }}
+          />
+        </div>
+        {/* Only changes when the mic goes quiet, so reading it out doesn't talk over the recording */}
+        <span aria-live="polite" className="text-xs text-white/80 whitespace-nowrap">
+          {paused ? 'Paused' : tooQuiet ? 'Can\'t hear much — check your mic?' : 'We can hear you'}
+        </span>
+      </div>
+    </div>
+  );
+};
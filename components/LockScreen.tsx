@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Lock, Loader2 } from 'lucide-react';
+import { WrongPasscodeError, unlockVault } from '../services/vault';
+
+interface LockScreenProps {
+  onUnlock: () => void;
+  onForgot: () => void;
+}
+
+export const LockScreen: React.FC<LockScreenProps> = ({ onUnlock, onForgot }) => {
+  const [passcode, setPasscode] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passcode || checking) return;
+    setChecking(true);
+    try {
+      await unlockVault(passcode);
+      onUnlock();
+    } catch (err) {
+      if (!(err instanceof WrongPasscodeError)) console.error("Unlock failed", err);
+      setError(err instanceof WrongPasscodeError ? err.message : 'Your journal could not be unlocked in this browser.');
+      setPasscode('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <form onSubmit={submit} className="w-full max-w-sm glass-card rounded-3xl p-8 space-y-6 text-center animate-fade-in-up">
+        <div className="w-16 h-16 mx-auto bg-white rounded-2xl shadow-sm flex items-center justify-center text-indigo-500">
+          <Lock size={30} />
+        </div>
+        <div className="space-y-2">
+          <h1 className="text-2xl font-light text-slate-800">EchoTherapy is <span className="text-indigo-600 font-medium">locked</span></h1>
+          <p className="text-slate-500 text-sm">Enter your passcode to open your journal.</p>
+        </div>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="current-password"
+          autoFocus
+          value={passcode}
+          onChange={e => {
+            setPasscode(e.target.value);
+            setError(null);
+          }}
+          className="w-full bg-white/80 border border-slate-200 rounded-xl px-4 py-3 text-center text-lg tracking-[0.3em] text-slate-700"
+        />
+        {error && <p className="text-sm text-red-700 font-medium">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passcode || checking}
+          className="w-full flex items-center justify-center space-x-2 px-6 py-3 rounded-full bg-slate-800 text-white font-semibold hover:bg-slate-900 transition-colors disabled:opacity-40"
+        >
+          {checking && <Loader2 size={18} className="animate-spin" />}
+          <span>Unlock</span>
+        </button>
+        <button type="button" onClick={onForgot} className="text-xs text-slate-400 hover:text-red-600 transition-colors">
+          Forgot your passcode? Start over
+        </button>
+      </form>
+    </div>
+  );
+};
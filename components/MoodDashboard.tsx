@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Flame, TrendingUp, Loader2, Award, FileText } from 'lucide-react';
+import { JournalEntry } from '../types';
+import { CRISIS_DISTRESS_THRESHOLD } from '../constants';
+import { listSessions } from '../services/journalStore';
+import {
+  TrendPoint,
+  dailyDistress,
+  weeklyDistress,
+  emotionBreakdown,
+  sessionStreaks,
+  detectRisingDistress
+} from '../services/moodTrends';
+import { summarizeStrategies } from '../services/copingTracker';
+import { ClinicianReportBuilder } from './ClinicianReportBuilder';
+
+type Range = 'days' | 'weeks';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 36 };
+
+const formatBucket = (timestamp: number, range: Range) =>
+  new Date(timestamp).toLocaleDateString(undefined, range === 'days'
+    ? { month: 'short', day: 'numeric' }
+    : { month: 'short', day: 'numeric', year: '2-digit' });
+
+const DistressChart: React.FC<{ points: TrendPoint[]; range: Range }> = ({ points, range }) => {
+  const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (i: number) => PADDING.left + (points.length === 1 ? innerWidth / 2 : (i / (points.length - 1)) * innerWidth);
+  const y = (score: number) => PADDING.top + (1 - score) * innerHeight;
+
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(p.averageDistress)}`).join(' ');
+  const area = points.length > 1
+    ? `${line} L${x(points.length - 1)},${y(0)} L${x(0)},${y(0)} Z`
+    : '';
+  // Keep axis labels readable when there are many buckets
+  const labelEvery = Math.max(1, Math.ceil(points.length / 6));
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto overflow-visible">
+      <defs>
+        <linearGradient id="distressFill" x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0%" stopColor="#6366F1" stopOpacity="0.25" />
+          <stop offset="100%" stopColor="#6366F1" stopOpacity="0" />
+        </linearGradient>
+      </defs>
+
+      {[0, 0.25, 0.5, 0.75, 1].map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#E2E8F0" strokeDasharray="4 4" />
+          <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#94A3B8">{Math.round(tick * 100)}</text>
+        </g>
+      ))}
+
+      <line
+        x1={PADDING.left}
+        x2={CHART_WIDTH - PADDING.right}
+        y1={y(CRISIS_DISTRESS_THRESHOLD)}
+        y2={y(CRISIS_DISTRESS_THRESHOLD)}
+        stroke="#F97316"
+        strokeOpacity="0.6"
+      />
+
+      {area && <path d={area} fill="url(#distressFill)" />}
+      <path d={line} fill="none" stroke="#6366F1" strokeWidth="2.5" strokeLinejoin="round" strokeLinecap="round" />
+
+      {points.map((p, i) => (
+        <g key={p.start}>
+          <circle
+            cx={x(i)}
+            cy={y(p.averageDistress)}
+            r={4}
+            fill={p.averageDistress > CRISIS_DISTRESS_THRESHOLD ? '#F97316' : '#6366F1'}
+            stroke="#fff"
+            strokeWidth="2"
+          >
+            <title>{`${formatBucket(p.start, range)}: ${Math.round(p.averageDistress * 100)}% across ${p.sessions} session${p.sessions === 1 ? '' : 's'}`}</title>
+          </circle>
+          {i % labelEvery === 0 && (
+            <text x={x(i)} y={CHART_HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#94A3B8">
+              {formatBucket(p.start, range)}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export const MoodDashboard: React.FC = () => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState<Range>('days');
+  const [reportOpen, setReportOpen] = useState(false);
+
+  useEffect(() => {
+    listSessions()
+      .then(setEntries)
+      .catch(err => console.error("Dashboard load failed", err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const stats = useMemo(() => ({
+    daily: dailyDistress(entries),
+    weekly: weeklyDistress(entries),
+    emotions: emotionBreakdown(entries),
+    streaks: sessionStreaks(entries),
+    rising: detectRisingDistress(entries),
+    strategies: summarizeStrategies(entries)
+  }), [entries]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <Loader2 size={32} className="text-indigo-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-center text-slate-400 py-20">Your trends will appear here after your first session.</p>
+    );
+  }
+
+  const points = range === 'days' ? stats.daily : stats.weekly;
+  const recentWeeks = stats.weekly.slice(-4).reverse();
+
+  return (
+    <div className="w-full space-y-8 animate-fade-in-up pb-24">
+      <div className="text-center space-y-3">
+        <h2 className="text-3xl md:text-4xl font-light text-slate-800 tracking-tight">
+          Your <span className="text-indigo-600 font-medium">trends</span>
+        </h2>
+        <p className="text-slate-500 text-lg font-light">{entries.length} session{entries.length === 1 ? '' : 's'} so far.</p>
+        {!reportOpen && (
+          <button
+            onClick={() => setReportOpen(true)}
+            className="inline-flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-semibold text-slate-600 bg-white/70 border border-slate-200 hover:bg-white transition-colors"
+          >
+            <FileText size={16} />
+            <span>Summary for your therapist</span>
+          </button>
+        )}
+      </div>
+
+      {reportOpen && <ClinicianReportBuilder entries={entries} onClose={() => setReportOpen(false)} />}
+
+      {stats.rising && (
+        <div className="glass-card bg-orange-50/80 border-orange-200 p-5 rounded-2xl flex items-start space-x-4 text-orange-900 shadow-soft">
+          <TrendingUp className="flex-shrink-0 mt-0.5 text-orange-600" size={22} />
+          <p className="text-sm leading-relaxed">
+            Your distress has risen across your last {stats.rising.sessions} sessions
+            (from {Math.round(stats.rising.from * 100)}% to {Math.round(stats.rising.to * 100)}%).
+            It may help to slow down today, or to reach out to someone you trust.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="glass-card rounded-2xl p-5 flex items-center space-x-4">
+          <Flame className="text-orange-500" size={28} />
+          <div>
+            <p className="text-2xl font-bold text-slate-700">{stats.streaks.current} day{stats.streaks.current === 1 ? '' : 's'}</p>
+            <p className="text-xs uppercase tracking-wider text-slate-400 font-semibold">Current streak</p>
+          </div>
+        </div>
+        <div className="glass-card rounded-2xl p-5 flex items-center space-x-4">
+          <Award className="text-indigo-500" size={28} />
+          <div>
+            <p className="text-2xl font-bold text-slate-700">{stats.streaks.longest} day{stats.streaks.longest === 1 ? '' : 's'}</p>
+            <p className="text-xs uppercase tracking-wider text-slate-400 font-semibold">Longest streak</p>
+          </div>
+        </div>
+      </div>
+
+      <section className="glass-card rounded-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-700">Distress over time</h3>
+          <div className="flex bg-white/60 rounded-full p-1 text-xs font-semibold">
+            {(['days', 'weeks'] as Range[]).map(r => (
+              <button
+                key={r}
+                onClick={() => setRange(r)}
+                className={`px-3 py-1 rounded-full capitalize transition-colors ${range === r ? 'bg-slate-800 text-white' : 'text-slate-500'}`}
+              >
+                {r}
+              </button>
+            ))}
+          </div>
+        </div>
+        {points.length > 0 ? (
+          <DistressChart points={points} range={range} />
+        ) : (
+          <p className="text-sm text-slate-400 py-8 text-center">No sessions in this period.</p>
+        )}
+      </section>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <section className="glass-card rounded-2xl p-6 space-y-4">
+          <h3 className="text-lg font-bold text-slate-700">Emotions</h3>
+          <svg viewBox={`0 0 300 ${stats.emotions.length * 28}`} className="w-full h-auto">
+            {stats.emotions.map((e, i) => (
+              <g key={e.emotion} transform={`translate(0, ${i * 28})`}>
+                <text x={0} y={16} fontSize="12" fill="#475569" className="capitalize">{e.emotion}</text>
+                <rect x={110} y={6} width={150} height={12} rx={6} fill="#F1F5F9" />
+                <rect x={110} y={6} width={Math.max(4, e.share * 150)} height={12} rx={6} fill={e.color} fillOpacity={0.8} />
+                <text x={300} y={16} fontSize="11" textAnchor="end" fill="#94A3B8">{e.count}</text>
+              </g>
+            ))}
+          </svg>
+        </section>
+
+        <section className="glass-card rounded-2xl p-6 space-y-4">
+          <h3 className="text-lg font-bold text-slate-700">Weekly averages</h3>
+          <ul className="space-y-3">
+            {recentWeeks.map(week => (
+              <li key={week.start} className="flex items-center justify-between text-sm">
+                <span className="text-slate-500">Week of {formatBucket(week.start, 'days')}</span>
+                <span className="font-semibold text-slate-700">
+                  {Math.round(week.averageDistress * 100)}%
+                  <span className="ml-2 text-xs font-normal text-slate-400">{week.sessions} session{week.sessions === 1 ? '' : 's'}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+
+      {stats.strategies.length > 0 && (
+        <section className="glass-card rounded-2xl p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-700">What helps you</h3>
+            <p className="text-sm text-slate-400">From your ratings and check-ins. New plans lean on what works.</p>
+          </div>
+          <ul className="space-y-3">
+            {stats.strategies.map(strategy => (
+              <li key={strategy.id} className="flex items-center justify-between text-sm">
+                <span className="text-slate-600 capitalize">{strategy.label}</span>
+                <span className={`font-semibold ${strategy.score >= 0.25 ? 'text-teal-600' : strategy.score <= -0.25 ? 'text-orange-500' : 'text-slate-500'}`}>
+                  {strategy.score >= 0.25 ? 'Helps' : strategy.score <= -0.25 ? 'Rarely helps' : 'Mixed'}
+                  <span className="ml-2 text-xs font-normal text-slate-400">{strategy.tries} tries</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
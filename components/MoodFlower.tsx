@@ -1,23 +1,40 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useId, useMemo, useState, useSyncExternalStore } from 'react';
 import { FlowerConfig } from '../types';
+import { bloomSeconds, describeFlower, generateFlower, petalTransform, rotationSpeed } from '../services/flowerGeometry';
+import { prefersReducedMotion, subscribeReducedMotion } from '../services/a11y';
 
 interface MoodFlowerProps {
   config: FlowerConfig;
   onClick?: () => void;
+  compact?: boolean; // Small thumbnail variant for lists, without the replay hint
+  breath?: { openness: number; seconds: number }; // Breathing guide: petals ease to openness (0-1) over the phase
+  actionLabel?: string; // What clicking does, shown as the hint and read after the description
 }
 
-export const MoodFlower: React.FC<MoodFlowerProps> = ({ config, onClick }) => {
-  const [scale, setScale] = useState(0);
+export const MoodFlower: React.FC<MoodFlowerProps> = ({ config, onClick, compact = false, breath, actionLabel = 'Tap to Replay' }) => {
+  const reducedMotion = useSyncExternalStore(subscribeReducedMotion, prefersReducedMotion);
+  const [scale, setScale] = useState(() => (prefersReducedMotion() ? 1 : 0));
   const [rotation, setRotation] = useState(0);
+  // Unique per instance so several flowers on one page don't share a gradient
+  const gradientId = `centerGrad-${useId().replace(/:/g, '')}`;
+  // Seeded, so re-renders and later visits from the journal draw the same flower
+  const model = useMemo(() => generateFlower(config), [config]);
+  const shouldRotate = rotationSpeed(config) > 0 && !reducedMotion;
+  const description = useMemo(() => describeFlower(config, { still: reducedMotion }), [config, reducedMotion]);
 
   useEffect(() => {
+    if (reducedMotion) {
+      // Shown fully open and still: no bloom, turn, tremble or drifting particles
+      setScale(1);
+      return;
+    }
+
     // Bloom animation on mount
     const timer = setTimeout(() => {
       setScale(1);
     }, 100);
 
-    // Continuous gentle rotation if not calm (calm is steady) or trembling
-    const shouldRotate = config.style !== 'calm';
+    // Continuous gentle rotation unless the mix is mostly calm or sad (those hold steady)
     const rotationInterval = setInterval(() => {
         if(shouldRotate) setRotation(prev => (prev + 0.2) % 360);
     }, 50);
@@ -26,124 +43,134 @@ export const MoodFlower: React.FC<MoodFlowerProps> = ({ config, onClick }) => {
       clearTimeout(timer);
       clearInterval(rotationInterval);
     };
-  }, [config.style]);
+  }, [shouldRotate, reducedMotion]);
 
-  // Generate petals based on style
-  const numPetals = Math.max(6, Math.min(24, config.intensity * 2.5));
-  const petals = [];
-  const angleStep = 360 / numPetals;
+  const petalCount = model.layers.reduce((sum, layer) => sum + layer.petals.length, 0);
+  let petalIndex = 0;
+  const layers = model.layers.map((layer, l) => (
+    <g key={l}>
+      {layer.petals.map((petal, i) => (
+        <path
+          key={i}
+          d={petal.d}
+          fill={layer.color}
+          fillOpacity={layer.opacity}
+          transform={petalTransform(petal)}
+          className={`flower-petal ${petal.trembles && !reducedMotion ? 'animate-tremble' : ''}`}
+          style={{
+            transitionDelay: `${petalIndex++ * (300 / config.bloomSpeed / petalCount)}ms`,
+            transformOrigin: '0 0',
+            animationDelay: `${petal.delay}s`,
+            filter: 'drop-shadow(0px 4px 6px rgba(0,0,0,0.1))'
+          }}
+        />
+      ))}
+    </g>
+  ));
 
-  const getPetalPath = (style: string) => {
-    switch (style) {
-      case 'spiky': // Sharp, aggressive
-        return "M0,0 Q15,-60 0,-120 Q-15,-60 0,0"; 
-      case 'drooping': // Heavy, sad
-        return "M0,0 C30,-30 50,40 60,60 C40,50 20,30 0,0";
-      case 'trembling': // Nervous, thin
-        return "M0,0 Q5,-40 0,-80 Q-5,-40 0,0";
-      case 'particle': // Open, round (Happy)
-        return "M0,0 C30,-50 70,-50 100,0 C70,50 30,50 0,0";
-      case 'calm': // Balanced, lotus-like
-      default:
-        return "M0,0 C20,-40 60,-40 80,0 C60,40 20,40 0,0";
-    }
-  };
+  // Particle effects for happy/particle style
+  const particles = model.particles.map((particle, i) => (
+    <circle
+      key={`p-${i}`}
+      r={particle.r}
+      fill={particle.color}
+      className={reducedMotion ? undefined : 'particle'}
+      style={{
+         animationDelay: `${particle.delay}s`,
+         transformBox: 'fill-box',
+         transformOrigin: 'center'
+      }}
+      cx={particle.x}
+      cy={particle.y}
+    />
+  ));
 
-  const pathD = getPetalPath(config.style);
+  const { core } = model;
 
-  for (let i = 0; i < numPetals; i++) {
-    const angle = i * angleStep;
-    
-    let transform = `rotate(${angle}) translate(0, -${10 + config.intensity}) scale(${0.5 + config.intensity * 0.1})`;
-    
-    // Custom transforms per style
-    if (config.style === 'drooping') {
-       // Rotate so they point somewhat down/out
-       transform = `rotate(${angle}) translate(0, 20) scale(${0.6})`;
-    }
+  const animatesCore = config.style === 'calm' && !reducedMotion;
+  const className = `relative flex items-center justify-center ${compact ? 'w-28 h-28' : `w-80 h-80 ${onClick ? 'cursor-pointer group rounded-full motion-safe:hover:scale-105 transition-transform duration-700 ease-out' : ''}`}`;
 
-    petals.push(
-      <path
-        key={i}
-        d={pathD}
-        fill={config.baseColor}
-        fillOpacity={0.7}
-        transform={transform}
-        className={`flower-petal ${config.style === 'trembling' ? 'animate-tremble' : ''}`}
-        style={{
-          transitionDelay: `${i * (300 / config.bloomSpeed / numPetals)}ms`,
-          transformOrigin: '0 0',
-          animationDelay: `${Math.random()}s`, // For tremble randomness
-          filter: 'drop-shadow(0px 4px 6px rgba(0,0,0,0.1))'
-        }}
-      />
-    );
-  }
+  const flower = (
+    <svg
+      aria-hidden="true"
+      viewBox="-150 -150 300 300"
+      className="w-full h-full overflow-visible"
+      style={{
+        transform: `scale(${scale})`,
+        transition: reducedMotion ? undefined : `transform ${bloomSeconds(config)}s cubic-bezier(0.34, 1.56, 0.64, 1)`
+      }}
+    >
+      <defs>
+        <radialGradient id={gradientId}>
+          <stop offset="0%" stopColor="#FFF" stopOpacity="1" />
+          <stop offset="60%" stopColor={core.accent} stopOpacity="0.5" />
+          <stop offset="100%" stopColor={core.color} stopOpacity="0.2" />
+        </radialGradient>
+      </defs>
 
-  // Particle effects for happy/particle style
-  const particles = [];
-  if (config.style === 'particle') {
-    for (let i = 0; i < 12; i++) {
-      particles.push(
+      {/* Stem and leaves stay upright while the head turns */}
+      <g opacity={0.8}>
+        {model.leaves.map((leaf, i) => (
+          <path key={i} d={leaf.d} fill={leaf.color} fillOpacity={0.7} />
+        ))}
+        <path d={model.stem.d} stroke={model.stem.color} strokeWidth={model.stem.width} strokeLinecap="round" fill="none" />
+      </g>
+      
+      <g className="filter drop-shadow-xl" style={{ transform: `rotate(${rotation}deg)` }}>
+         {/* Center Core */}
         <circle 
-          key={`p-${i}`}
-          r={Math.random() * 4 + 2}
-          fill={config.baseColor}
-          className="particle"
-          style={{
-             animationDelay: `${Math.random() * 2}s`,
-             transformBox: 'fill-box',
-             transformOrigin: 'center'
-          }}
-          cx={(Math.random() - 0.5) * 150}
-          cy={(Math.random() - 0.5) * 150}
-        />
-      );
-    }
+          r={core.radius} 
+          fill={`url(#${gradientId})`} 
+          className={`${animatesCore ? 'animate-pulse' : ''}`}
+        >
+          {animatesCore && (
+             <animate attributeName="r" values={`${core.radius};${core.radius + 5};${core.radius}`} dur="4s" repeatCount="indefinite" />
+          )}
+        </circle>
+        <g
+          style={breath ? {
+            transform: `scale(${0.6 + breath.openness * 0.6})`,
+            transition: `transform ${breath.seconds}s ease-in-out`
+          } : undefined}
+        >
+          {layers}
+        </g>
+        {particles}
+      </g>
+    </svg>
+  );
+
+  // Clickable flowers are real buttons so they can be reached and pressed from the keyboard
+  if (onClick) {
+    return (
+      <button
+        type="button"
+        id={compact ? undefined : 'mood-flower-container'}
+        onClick={onClick}
+        aria-label={`${description} ${actionLabel}.`}
+        className={className}
+      >
+        {flower}
+        {!compact && (
+          // Hover-only hints never show on touch screens or to keyboard users
+          <span className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 group-focus-visible:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity duration-500 pointer-events-none">
+             <span className="text-slate-600 font-semibold drop-shadow-sm bg-white/80 px-5 py-2 rounded-full text-sm backdrop-blur-md shadow-lg transform translate-y-2 [@media(hover:none)]:translate-y-32">
+                 {actionLabel}
+             </span>
+          </span>
+        )}
+      </button>
+    );
   }
 
   return (
-    <div 
-      id="mood-flower-container" 
-      onClick={onClick}
-      className="relative w-80 h-80 flex items-center justify-center cursor-pointer group hover:scale-105 transition-transform duration-700 ease-out"
+    <div
+      id={compact ? undefined : 'mood-flower-container'}
+      role="img"
+      aria-label={description}
+      className={className}
     >
-      <svg
-        viewBox="-150 -150 300 300"
-        className="w-full h-full overflow-visible"
-        style={{
-          transform: `scale(${scale}) rotate(${config.style === 'drooping' ? 0 : rotation}deg)`, // Don't rotate drooping flowers
-          transition: `transform ${3 / config.bloomSpeed}s cubic-bezier(0.34, 1.56, 0.64, 1)`
-        }}
-      >
-        <defs>
-          <radialGradient id="centerGrad">
-            <stop offset="0%" stopColor="#FFF" stopOpacity="1" />
-            <stop offset="100%" stopColor={config.baseColor} stopOpacity="0.2" />
-          </radialGradient>
-        </defs>
-        
-        <g className="filter drop-shadow-xl">
-           {/* Center Core */}
-          <circle 
-            r={15 + config.intensity} 
-            fill="url(#centerGrad)" 
-            className={`${config.style === 'calm' ? 'animate-pulse' : ''}`}
-          >
-            {config.style === 'calm' && (
-               <animate attributeName="r" values={`${15 + config.intensity};${20 + config.intensity};${15 + config.intensity}`} dur="4s" repeatCount="indefinite" />
-            )}
-          </circle>
-          
-          {petals}
-          {particles}
-        </g>
-      </svg>
-      <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-500 pointer-events-none">
-         <span className="text-slate-600 font-semibold drop-shadow-sm bg-white/80 px-5 py-2 rounded-full text-sm backdrop-blur-md shadow-lg transform translate-y-2">
-             Tap to Replay
-         </span>
-      </div>
+      {flower}
     </div>
   );
-};
\ No newline at end of file
+};
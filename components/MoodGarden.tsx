@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, Download, Loader2 } from 'lucide-react';
+import { JournalEntry } from '../types';
+import { listSessions } from '../services/journalStore';
+import { shareOrDownload } from '../services/media';
+import {
+  GardenPlot,
+  drawGarden,
+  findPlotAt,
+  gardenSpanDays,
+  headPosition,
+  layoutGarden,
+  renderFlowerSprite
+} from '../services/moodGarden';
+
+interface MoodGardenProps {
+  onOpenEntry: (id: string) => void;
+}
+
+const GARDEN_HEIGHT = 420;
+// The whole time-lapse takes about this long, however many days it covers
+const TIMELAPSE_SECONDS = 12;
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const MoodGarden: React.FC<MoodGardenProps> = ({ onOpenEntry }) => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [width, setWidth] = useState(0);
+  const [hover, setHover] = useState<GardenPlot | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [cursorDay, setCursorDay] = useState(Infinity);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const spritesRef = useRef(new Map<string, HTMLCanvasElement>());
+
+  useEffect(() => {
+    listSessions()
+      .then(setEntries)
+      .catch(err => {
+        console.error("Garden load failed", err);
+        setError('Your garden could not be opened in this browser.');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [loading]);
+
+  const plots = useMemo(() => layoutGarden(entries, width, GARDEN_HEIGHT), [entries, width]);
+  const span = gardenSpanDays(plots);
+
+  // Sprites only depend on the entry, so they survive resizes and playback
+  useEffect(() => {
+    const ratio = window.devicePixelRatio || 1;
+    for (const plot of plots) {
+      if (!spritesRef.current.has(plot.entry.id)) {
+        spritesRef.current.set(plot.entry.id, renderFlowerSprite(plot.entry, plot.wilt, ratio));
+      }
+    }
+  }, [plots]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !width) return;
+    const ratio = window.devicePixelRatio || 1;
+    if (canvas.width !== width * ratio) {
+      canvas.width = width * ratio;
+      canvas.height = GARDEN_HEIGHT * ratio;
+    }
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    drawGarden(ctx, { width, height: GARDEN_HEIGHT, plots, sprites: spritesRef.current, cursorDay, hoverId: hover?.entry.id });
+  }, [plots, width, cursorDay, hover]);
+
+  // Time-lapse: advance the cursor a day at a time until the newest flower has grown
+  useEffect(() => {
+    if (!playing) return;
+    const daysPerSecond = Math.max(1, (span + 1) / TIMELAPSE_SECONDS);
+    const startedAt = performance.now();
+    let frame = 0;
+    const tick = (now: number) => {
+      const day = ((now - startedAt) / 1000) * daysPerSecond;
+      if (day >= span + 1) {
+        setCursorDay(Infinity);
+        setPlaying(false);
+        return;
+      }
+      setCursorDay(day);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, span]);
+
+  const togglePlayback = () => {
+    if (playing) {
+      setPlaying(false);
+      setCursorDay(Infinity);
+      return;
+    }
+    setHover(null);
+    setCursorDay(0);
+    setPlaying(true);
+  };
+
+  const pointerPlot = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return findPlotAt(plots, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const exportGarden = () => {
+    canvasRef.current?.toBlob(blob => {
+      if (!blob) return;
+      shareOrDownload(blob, `echo-garden-${new Date().toISOString().slice(0,10)}.png`, 'My EchoTherapy garden')
+        .catch(err => console.error("Garden export failed", err));
+    }, 'image/png');
+  };
+
+  const tooltip = hover ? headPosition(hover) : null;
+  const cursorDate = plots.length && Number.isFinite(cursorDay)
+    ? plots.reduce((min, plot) => Math.min(min, plot.entry.createdAt), Infinity) + cursorDay * 24 * 60 * 60 * 1000
+    : null;
+
+  return (
+    <div className="w-full space-y-8 animate-fade-in-up pb-24">
+      <div className="text-center space-y-3">
+        <h2 className="text-3xl md:text-4xl font-light text-slate-800 tracking-tight">
+          Your <span className="text-indigo-600 font-medium">garden</span>
+        </h2>
+        <p className="text-slate-500 text-lg font-light">Every reflection, planted where and when it happened.</p>
+      </div>
+
+      {error && <p className="text-center text-red-700 font-medium">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 size={32} className="text-indigo-400 animate-spin" />
+        </div>
+      ) : entries.length === 0 && !error ? (
+        <p className="text-center text-slate-400 py-16">Nothing planted yet. Each session you save grows a flower here.</p>
+      ) : (
+        <>
+          <div ref={containerRef} className="relative w-full glass-card rounded-[2rem] overflow-hidden border border-white/60">
+            <canvas
+              ref={canvasRef}
+              style={{ width: '100%', height: GARDEN_HEIGHT }}
+              className={hover ? 'cursor-pointer' : ''}
+              onPointerMove={e => {
+                if (!playing) setHover(pointerPlot(e));
+              }}
+              onPointerLeave={() => setHover(null)}
+              onClick={e => {
+                const plot = pointerPlot(e);
+                if (plot && !playing) onOpenEntry(plot.entry.id);
+              }}
+            />
+            {hover && tooltip && (
+              <div
+                className="absolute pointer-events-none -translate-x-1/2 -translate-y-full bg-white/90 backdrop-blur-md rounded-xl shadow-lg px-3 py-2 text-xs text-slate-600 whitespace-nowrap"
+                style={{ left: tooltip.x, top: tooltip.y - tooltip.radius - 6 }}
+              >
+                <span className="font-semibold capitalize text-slate-700">{hover.entry.result.emotion}</span>
+                <span> · {formatDay(hover.entry.createdAt)} · tap to open</span>
+              </div>
+            )}
+            {cursorDate !== null && (
+              <div className="absolute top-4 left-4 bg-white/80 backdrop-blur-md rounded-full px-4 py-1.5 text-sm font-semibold text-slate-600">
+                {formatDay(cursorDate)}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-slate-500 max-w-md">
+              Oldest on the left, newest on the right. Bigger flowers felt stronger; drooping ones were harder days.
+            </p>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={togglePlayback}
+                className="flex items-center space-x-2 bg-slate-800 text-white px-6 py-3 rounded-full hover:bg-slate-900 transition-all shadow-xl"
+              >
+                {playing ? <Pause size={18} className="text-teal-400" /> : <Play size={18} className="text-teal-400" />}
+                <span className="font-medium">{playing ? 'Stop' : 'Watch it grow'}</span>
+              </button>
+              <button
+                onClick={exportGarden}
+                disabled={playing}
+                className="p-3 rounded-full bg-white/70 text-slate-500 hover:text-indigo-600 transition-colors border border-white/60 disabled:opacity-50"
+                title="Save garden image"
+              >
+                <Download size={18} />
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
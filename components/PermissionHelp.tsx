@@ -0,0 +1,44 @@
+import React from 'react';
+import { MicOff, RotateCcw, ArrowLeft } from 'lucide-react';
+import { PermissionProblem } from '../services/mediaDevices';
+
+interface PermissionHelpProps {
+  problem: PermissionProblem;
+  onRetry: () => void;
+  onBack: () => void;
+}
+
+export const PermissionHelp: React.FC<PermissionHelpProps> = ({ problem, onRetry, onBack }) => (
+  <div className="glass-card rounded-3xl p-8 space-y-6 animate-fade-in-up">
+    <div className="flex items-center space-x-3">
+      <div className="w-12 h-12 bg-white rounded-2xl shadow-sm flex items-center justify-center text-orange-500 flex-shrink-0">
+        <MicOff size={26} />
+      </div>
+      <h3 className="text-xl font-bold text-slate-700">{problem.title}</h3>
+    </div>
+    <ol className="space-y-3">
+      {problem.steps.map((step, idx) => (
+        <li key={idx} className="flex space-x-3 text-sm text-slate-600 leading-relaxed">
+          <span className="font-bold text-indigo-500">{idx + 1}.</span>
+          <span>{step}</span>
+        </li>
+      ))}
+    </ol>
+    <div className="flex flex-col sm:flex-row gap-3">
+      <button
+        onClick={onRetry}
+        className="flex-grow flex items-center justify-center space-x-2 px-6 py-3 rounded-full bg-slate-800 text-white font-semibold hover:bg-slate-900 transition-colors"
+      >
+        <RotateCcw size={18} />
+        <span>Try again</span>
+      </button>
+      <button
+        onClick={onBack}
+        className="flex items-center justify-center space-x-2 px-6 py-3 rounded-full text-slate-500 font-semibold bg-white/60 border border-slate-200 hover:bg-white transition-colors"
+      >
+        <ArrowLeft size={18} />
+        <span>Back</span>
+      </button>
+    </div>
+  </div>
+);
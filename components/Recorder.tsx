@@ -1,23 +1,115 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Video, Loader2 } from 'lucide-react';
-import { MediaType } from '../types';
+import { Mic, Square, Video, Loader2, PenLine, Upload, Pause, Play, RotateCcw, Check } from 'lucide-react';
+import { EmotionCue, MediaType, PayloadSize, RecordingSettings } from '../types';
+import { RECORDING_DURATIONS } from '../constants';
+import { MoodFlower } from './MoodFlower';
+import { TextEntry } from './TextEntry';
+import { FileImport } from './FileImport';
+import { ConsentNotice } from './ConsentNotice';
+import { LevelMeter } from './LevelMeter';
+import { PermissionHelp } from './PermissionHelp';
+import { LIVE_CHUNK_MS } from '../services/liveAnalysis';
+import { formatBytes } from '../services/media';
+import { InputDevices, PermissionProblem, buildConstraints, describeMediaError, listInputDevices } from '../services/mediaDevices';
+import { focusHeading } from '../services/a11y';
 
 interface RecorderProps {
   onRecordingComplete: (blob: Blob, type: MediaType, mimeType: string) => void;
+  onTextComplete: (text: string) => void;
   isProcessing: boolean;
+  payload?: PayloadSize;
+  onCancel?: () => void;
+  // Streaming mode: when onChunk is set, chunks are emitted during recording for live cues
+  onRecordingStart?: (type: MediaType, mimeType: string) => void;
+  onChunk?: (chunk: Blob) => void;
+  // The recording was thrown away in review, so anything started for it can stop
+  onDiscard?: () => void;
+  liveCues?: EmotionCue[];
+  consentGiven: boolean;
+  onConsent: () => void;
+  recordingSettings: RecordingSettings;
+  onRecordingSettingsChange: (patch: Partial<RecordingSettings>) => void;
 }
 
-export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProcessing }) => {
+// A finished recording the user can listen back to before it is sent
+interface PendingReview {
+  blob: Blob;
+  type: MediaType;
+  mimeType: string;
+  url: string;
+  seconds: number;
+}
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const durationLabel = (seconds: number) => (seconds < 60 ? `${seconds} sec` : `${seconds / 60} min`);
+
+// Shortcuts only make sense while recording; they never fire from a text field or with a modifier held
+const isShortcut = (e: KeyboardEvent) =>
+  !e.ctrlKey && !e.metaKey && !e.altKey && !(e.target instanceof HTMLElement && e.target.closest('input, textarea, select'));
+
+export const Recorder: React.FC<RecorderProps> = ({
+  onRecordingComplete,
+  onTextComplete,
+  isProcessing,
+  payload,
+  onCancel,
+  onRecordingStart,
+  onChunk,
+  onDiscard,
+  liveCues = [],
+  consentGiven,
+  onConsent,
+  recordingSettings,
+  onRecordingSettingsChange
+}) => {
   const [recording, setRecording] = useState(false);
+  const [writing, setWriting] = useState(false);
+  const [importing, setImporting] = useState(false);
   const [mediaType, setMediaType] = useState<MediaType | null>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
-  const [timeLeft, setTimeLeft] = useState(0);
-  const [progress, setProgress] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [review, setReview] = useState<PendingReview | null>(null);
+  const [problem, setProblem] = useState<{ problem: PermissionProblem; type: MediaType } | null>(null);
+  const [devices, setDevices] = useState<InputDevices>({ audio: [], video: [] });
+  // What the user picked while consent was still outstanding; runs once they agree
+  const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const mimeTypeRef = useRef<string>('');
   const videoPreviewRef = useRef<HTMLVideoElement>(null);
+  const elapsedRef = useRef(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stopButtonRef = useRef<HTMLButtonElement>(null);
+  const maxSeconds = recordingSettings.maxSeconds;
+
+  useEffect(() => {
+    const refresh = () => listInputDevices().then(setDevices).catch(err => console.warn("Device list unavailable", err));
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, []);
+
+  useEffect(() => {
+    elapsedRef.current = elapsed;
+  }, [elapsed]);
+
+  useEffect(() => () => {
+    if (review) URL.revokeObjectURL(review.url);
+  }, [review]);
+
+  // Unmounted mid-recording (e.g. the journal was locked): release the mic and camera and drop the take
+  useEffect(() => () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder) return;
+    recorder.ondataavailable = null;
+    recorder.onstop = null;
+    if (recorder.state !== 'inactive') recorder.stop();
+    recorder.stream.getTracks().forEach(track => track.stop());
+  }, []);
 
   const getSupportedMimeType = (type: MediaType) => {
     const videoTypes = [
@@ -37,14 +129,13 @@ export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProce
   };
 
   const startRecording = async (type: MediaType) => {
+    setProblem(null);
     try {
-      const constraints = type === MediaType.VIDEO 
-        ? { video: true, audio: true } 
-        : { audio: true, video: false };
-        
-      const mediaStream = await navigator.mediaDevices.getUserMedia(constraints);
+      const mediaStream = await navigator.mediaDevices.getUserMedia(buildConstraints(type, recordingSettings));
       setStream(mediaStream);
       setMediaType(type);
+      // Device names are only visible once access has been granted
+      listInputDevices().then(setDevices).catch(() => undefined);
 
       if (type === MediaType.VIDEO && videoPreviewRef.current) {
         videoPreviewRef.current.srcObject = mediaStream;
@@ -61,29 +152,45 @@ export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProce
       chunksRef.current = [];
 
       recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunksRef.current.push(e.data);
+        if (e.data.size > 0) {
+          chunksRef.current.push(e.data);
+          onChunk?.(e.data);
+        }
       };
 
       recorder.onstop = () => {
         // Create blob with the detected mime type
         const blob = new Blob(chunksRef.current, { type: mimeTypeRef.current });
-        onRecordingComplete(blob, type, mimeTypeRef.current);
+        setReview({ blob, type, mimeType: mimeTypeRef.current, url: URL.createObjectURL(blob), seconds: elapsedRef.current });
         
         // Cleanup
         mediaStream.getTracks().forEach(track => track.stop());
         setStream(null);
         setMediaType(null);
+        setPaused(false);
       };
 
-      recorder.start();
+      // With a timeslice the recorder emits chunks as it goes; without one, a single blob at stop
+      if (onChunk) {
+        recorder.start(LIVE_CHUNK_MS);
+      } else {
+        recorder.start();
+      }
+      onRecordingStart?.(type, mimeType);
+      setElapsed(0);
+      setPaused(false);
       setRecording(true);
-      setTimeLeft(30); // 30 second limit
     } catch (err) {
       console.error("Error accessing media devices:", err);
-      alert("Could not access microphone or camera. Please grant permissions.");
+      setProblem({ problem: describeMediaError(err), type });
     }
   };
 
+  const withConsent = (action: () => void) => {
+    if (consentGiven) action();
+    else setPendingAction(() => action);
+  };
+
   const stopRecording = () => {
     if (mediaRecorderRef.current && recording) {
       mediaRecorderRef.current.stop();
@@ -91,23 +198,82 @@ export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProce
     }
   };
 
+  const togglePause = () => {
+    const recorder = mediaRecorderRef.current;
+    if (recorder?.state === 'recording') {
+      recorder.pause();
+      setPaused(true);
+    } else if (recorder?.state === 'paused') {
+      recorder.resume();
+      setPaused(false);
+    }
+  };
+
+  // The clock only runs while actually recording, so paused time doesn't count toward the limit
   useEffect(() => {
-    let interval: any;
-    if (recording && timeLeft > 0) {
-      interval = setInterval(() => {
-        setTimeLeft((prev) => prev - 1);
-        setProgress((prev) => prev + (100 / 30));
-      }, 1000);
-    } else if (timeLeft === 0 && recording) {
+    if (!recording || paused) return;
+    if (elapsed >= maxSeconds) {
       stopRecording();
+      return;
     }
-    return () => clearInterval(interval);
-  }, [recording, timeLeft]);
+    const timer = setTimeout(() => setElapsed(s => s + 1), 1000);
+    return () => clearTimeout(timer);
+  }, [recording, paused, elapsed, maxSeconds]);
+
+  const confirmReview = () => {
+    if (!review) return;
+    onRecordingComplete(review.blob, review.type, review.mimeType);
+    setReview(null);
+  };
+
+  const reRecord = () => {
+    if (!review) return;
+    const { type } = review;
+    setReview(null);
+    startRecording(type);
+  };
+
+  useEffect(() => {
+    if (!recording) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (!isShortcut(e)) return;
+      if (e.key === 'p' || e.key === 'P') {
+        e.preventDefault();
+        togglePause();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        stopRecording();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [recording, paused]);
+
+  // Which screen is showing; focus moves to it whenever it changes (the first screen is App's to focus)
+  const screen = isProcessing ? 'processing'
+    : problem ? 'problem'
+    : review ? 'review'
+    : pendingAction ? 'consent'
+    : writing ? 'writing'
+    : importing ? 'importing'
+    : recording ? 'recording'
+    : 'choose';
+  const previousScreenRef = useRef(screen);
+
+  useEffect(() => {
+    if (previousScreenRef.current === screen) return;
+    previousScreenRef.current = screen;
+    if (screen === 'recording') stopButtonRef.current?.focus();
+    // The text box focuses itself so the user can start typing straight away
+    else if (screen !== 'writing') focusHeading(containerRef.current);
+  }, [screen]);
+
+  const latestCue = liveCues.length ? liveCues[liveCues.length - 1] : null;
 
   if (isProcessing) {
     return (
-      <div className="flex flex-col items-center justify-center py-20 animate-fade-in-up">
-        <div className="relative">
+      <div ref={containerRef} className="flex flex-col items-center justify-center py-20 animate-fade-in-up">
+        <div aria-hidden="true" className="relative">
           <div className="w-24 h-24 bg-gradient-to-tr from-indigo-100 to-purple-100 rounded-full flex items-center justify-center shadow-glow">
              <Loader2 size={40} className="text-indigo-500 animate-spin" />
           </div>
@@ -115,13 +281,101 @@ export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProce
         </div>
         <h3 className="mt-8 text-xl font-medium text-slate-700">Listening to your heart...</h3>
         <p className="mt-2 text-slate-400 text-sm">Analyzing tone, words, and expressions</p>
+        {payload && (
+          <p className="mt-1 text-slate-400 text-xs">
+            Sent {formatBytes(payload.bytes)}{payload.bytes < payload.originalBytes && ` (compressed from ${formatBytes(payload.originalBytes)})`}
+          </p>
+        )}
+        {latestCue && (
+          <p className="mt-4 text-sm text-slate-500">
+            So far we sensed <span className="font-semibold capitalize" style={{ color: latestCue.flower.baseColor }}>{latestCue.emotion}</span>
+          </p>
+        )}
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="mt-8 px-6 py-2 rounded-full text-sm font-semibold text-slate-500 bg-white/60 border border-slate-200 hover:text-slate-700 hover:bg-white transition-colors"
+          >
+            Cancel
+          </button>
+        )}
       </div>
     );
   }
 
   return (
-    <div className="w-full max-w-xl mx-auto transition-all duration-500">
-      {!recording ? (
+    <div ref={containerRef} className="w-full max-w-xl mx-auto transition-all duration-500">
+      {problem ? (
+        <PermissionHelp
+          problem={problem.problem}
+          onRetry={() => startRecording(problem.type)}
+          onBack={() => setProblem(null)}
+        />
+      ) : review ? (
+        <div className="flex flex-col items-center space-y-6 animate-fade-in-up">
+          <div className="text-center space-y-2">
+            <h2 className="text-2xl font-light text-slate-800">Listen back before we <span className="text-indigo-600 font-medium">reflect</span></h2>
+            <p className="text-slate-500">{formatClock(review.seconds)} recorded. Send it as it is, or try again.</p>
+          </div>
+          {review.type === MediaType.VIDEO ? (
+            <video src={review.url} controls playsInline className="w-full max-w-md rounded-3xl bg-black shadow-2xl" />
+          ) : (
+            <audio src={review.url} controls className="w-full max-w-md" />
+          )}
+          <div className="flex flex-col sm:flex-row gap-3 w-full max-w-md">
+            <button
+              onClick={confirmReview}
+              className="flex-grow flex items-center justify-center space-x-2 px-6 py-3 rounded-full bg-slate-800 text-white font-semibold hover:bg-slate-900 transition-colors"
+            >
+              <Check size={18} />
+              <span>Reflect on this</span>
+            </button>
+            <button
+              onClick={reRecord}
+              className="flex items-center justify-center space-x-2 px-6 py-3 rounded-full text-slate-600 font-semibold bg-white/70 border border-slate-200 hover:bg-white transition-colors"
+            >
+              <RotateCcw size={18} />
+              <span>Re-record</span>
+            </button>
+          </div>
+          <button
+            onClick={() => {
+              setReview(null);
+              onDiscard?.();
+            }}
+            className="text-sm text-slate-400 hover:text-red-600 transition-colors"
+          >
+            Discard
+          </button>
+        </div>
+      ) : pendingAction ? (
+        <ConsentNotice
+          onAccept={() => {
+            onConsent();
+            pendingAction();
+            setPendingAction(null);
+          }}
+          onDecline={() => setPendingAction(null)}
+          liveAnalysis={!!onChunk}
+        />
+      ) : writing ? (
+        <TextEntry
+          onSubmit={text => {
+            setWriting(false);
+            onTextComplete(text);
+          }}
+          onBack={() => setWriting(false)}
+        />
+      ) : importing ? (
+        <FileImport
+          onSubmit={(blob, type, mimeType) => {
+            setImporting(false);
+            onRecordingComplete(blob, type, mimeType);
+          }}
+          onBack={() => setImporting(false)}
+          maxSeconds={maxSeconds}
+        />
+      ) : !recording ? (
         <div className="flex flex-col items-center space-y-10 animate-fade-in-up">
           <div className="text-center space-y-3">
             <h2 className="text-3xl md:text-4xl font-light text-slate-800 tracking-tight">
@@ -132,10 +386,10 @@ export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProce
             </p>
           </div>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 w-full">
              <button
-              onClick={() => startRecording(MediaType.AUDIO)}
-              className="group relative flex flex-col items-center justify-center p-8 h-64 rounded-3xl glass-card hover:bg-white/80 transition-all duration-300 hover:shadow-soft hover:-translate-y-1"
+              onClick={() => withConsent(() => startRecording(MediaType.AUDIO))}
+              className="group relative flex flex-col items-center justify-center p-6 h-56 rounded-3xl glass-card hover:bg-white/80 transition-all duration-300 hover:shadow-soft hover:-translate-y-1"
             >
               <div className="absolute inset-0 bg-gradient-to-br from-indigo-50/50 to-transparent rounded-3xl opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
               <div className="w-16 h-16 bg-white rounded-2xl shadow-sm flex items-center justify-center mb-6 text-indigo-500 group-hover:scale-110 transition-transform duration-300 z-10">
@@ -146,8 +400,8 @@ export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProce
             </button>
 
             <button
-              onClick={() => startRecording(MediaType.VIDEO)}
-              className="group relative flex flex-col items-center justify-center p-8 h-64 rounded-3xl glass-card hover:bg-white/80 transition-all duration-300 hover:shadow-soft hover:-translate-y-1"
+              onClick={() => withConsent(() => startRecording(MediaType.VIDEO))}
+              className="group relative flex flex-col items-center justify-center p-6 h-56 rounded-3xl glass-card hover:bg-white/80 transition-all duration-300 hover:shadow-soft hover:-translate-y-1"
             >
               <div className="absolute inset-0 bg-gradient-to-br from-teal-50/50 to-transparent rounded-3xl opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
               <div className="w-16 h-16 bg-white rounded-2xl shadow-sm flex items-center justify-center mb-6 text-teal-500 group-hover:scale-110 transition-transform duration-300 z-10">
@@ -156,6 +410,59 @@ export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProce
               <span className="text-lg font-semibold text-slate-700 z-10">Video & Voice</span>
               <span className="text-sm text-slate-400 mt-2 z-10">Show how you feel</span>
             </button>
+
+            <button
+              onClick={() => setWriting(true)}
+              className="group relative flex flex-col items-center justify-center p-6 h-56 rounded-3xl glass-card hover:bg-white/80 transition-all duration-300 hover:shadow-soft hover:-translate-y-1"
+            >
+              <div className="absolute inset-0 bg-gradient-to-br from-purple-50/50 to-transparent rounded-3xl opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+              <div className="w-16 h-16 bg-white rounded-2xl shadow-sm flex items-center justify-center mb-6 text-purple-500 group-hover:scale-110 transition-transform duration-300 z-10">
+                <PenLine size={32} />
+              </div>
+              <span className="text-lg font-semibold text-slate-700 z-10">Write It Down</span>
+              <span className="text-sm text-slate-400 mt-2 z-10">Quietly, in words</span>
+            </button>
+          </div>
+
+          <button
+            onClick={() => withConsent(() => setImporting(true))}
+            className="flex items-center space-x-2 text-sm font-semibold text-slate-500 hover:text-indigo-600 transition-colors"
+          >
+            <Upload size={16} />
+            <span>Or upload a voice memo or clip you already have</span>
+          </button>
+
+          <div className="w-full grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+            <label className="space-y-1">
+              <span className="block text-xs font-semibold uppercase tracking-wider text-slate-400">Length</span>
+              <select
+                value={maxSeconds}
+                onChange={e => onRecordingSettingsChange({ maxSeconds: Number(e.target.value) })}
+                className="w-full bg-white/70 border border-slate-200 rounded-xl px-3 py-2 text-slate-700"
+              >
+                {RECORDING_DURATIONS.map(seconds => (
+                  <option key={seconds} value={seconds}>Up to {durationLabel(seconds)}</option>
+                ))}
+              </select>
+            </label>
+            {[
+              { label: 'Microphone', key: 'audioDeviceId' as const, list: devices.audio },
+              { label: 'Camera', key: 'videoDeviceId' as const, list: devices.video }
+            ].map(({ label, key, list }) => (
+              <label key={key} className="space-y-1">
+                <span className="block text-xs font-semibold uppercase tracking-wider text-slate-400">{label}</span>
+                <select
+                  value={recordingSettings[key] ?? ''}
+                  onChange={e => onRecordingSettingsChange({ [key]: e.target.value || null })}
+                  className="w-full bg-white/70 border border-slate-200 rounded-xl px-3 py-2 text-slate-700 truncate"
+                >
+                  <option value="">Default</option>
+                  {list.map((device, idx) => (
+                    <option key={device.deviceId} value={device.deviceId}>{device.label || `${label} ${idx + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
           </div>
         </div>
       ) : (
@@ -163,6 +470,14 @@ export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProce
           <div className="relative w-full max-w-md aspect-[4/3] bg-slate-900 rounded-3xl overflow-hidden shadow-2xl ring-8 ring-white/30">
              {mediaType === MediaType.VIDEO ? (
                 <video ref={videoPreviewRef} autoPlay muted playsInline className="w-full h-full object-cover" />
+             ) : latestCue ? (
+                <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-indigo-900 to-slate-900">
+                   {/* The flower forms as cues arrive, opening a little more with each one */}
+                   <MoodFlower
+                     config={latestCue.flower}
+                     breath={{ openness: Math.min(1, liveCues.length / 5), seconds: 2 }}
+                   />
+                </div>
              ) : (
                 <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-indigo-900 to-slate-900">
                    <div className="relative">
@@ -174,26 +489,71 @@ export const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProce
                 </div>
              )}
              
+             {/* Cues are left out of any live region on purpose: a screen reader reading them aloud would be picked up by the mic */}
+             {latestCue && (
+                <div className="absolute top-4 left-4 right-4 flex items-center space-x-3 animate-fade-in-up">
+                   {mediaType === MediaType.VIDEO && (
+                      <div className="flex-shrink-0 bg-white/10 backdrop-blur-md rounded-2xl">
+                         <MoodFlower config={latestCue.flower} compact />
+                      </div>
+                   )}
+                   <div className="bg-black/40 backdrop-blur-md text-white px-4 py-2 rounded-full text-sm">
+                      <span className="font-semibold capitalize">{latestCue.emotion}</span>
+                      {latestCue.note && <span className="opacity-70"> · {latestCue.note}</span>}
+                   </div>
+                </div>
+             )}
+
              {/* Overlay Controls */}
-             <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-black/60 to-transparent flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                   <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></div>
-                   <span className="text-white font-mono font-bold">{30 - timeLeft}s / 30s</span>
+             <div className="absolute bottom-0 left-0 right-0 p-6 pt-10 bg-gradient-to-t from-black/70 to-transparent space-y-3">
+                {stream && <LevelMeter stream={stream} paused={paused} />}
+                <div className="flex items-center justify-between">
+                   <div className="flex items-center space-x-2">
+                      <div aria-hidden="true" className={`w-2 h-2 rounded-full ${paused ? 'bg-amber-400' : 'bg-red-500 animate-pulse'}`}></div>
+                      <span className="text-white font-mono font-bold">{formatClock(elapsed)} / {formatClock(maxSeconds)}</span>
+                   </div>
+                   <div className="flex items-center space-x-3">
+                      <button
+                        onClick={togglePause}
+                        className="w-12 h-12 bg-white/20 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/30 transition-colors border border-white/30"
+                        title={paused ? 'Resume' : 'Pause'}
+                        aria-label={paused ? 'Resume recording' : 'Pause recording'}
+                        aria-keyshortcuts="P"
+                      >
+                        {paused ? <Play size={20} className="text-white fill-current" /> : <Pause size={20} className="text-white fill-current" />}
+                      </button>
+                      <button
+                        ref={stopButtonRef}
+                        onClick={stopRecording}
+                        className="w-12 h-12 bg-white rounded-full flex items-center justify-center hover:scale-105 transition-transform active:scale-95 shadow-lg"
+                        title="Stop and review"
+                        aria-label="Stop and review"
+                        aria-keyshortcuts="Escape"
+                      >
+                        <Square size={20} className="text-slate-900 fill-current" />
+                      </button>
+                   </div>
                 </div>
-                <button
-                  onClick={stopRecording}
-                  className="w-12 h-12 bg-white rounded-full flex items-center justify-center hover:scale-105 transition-transform active:scale-95 shadow-lg"
-                >
-                  <Square size={20} className="text-slate-900 fill-current" />
-                </button>
              </div>
              
              {/* Progress Bar */}
-             <div className="absolute top-0 left-0 h-1 bg-gradient-to-r from-indigo-500 to-teal-400 transition-all duration-1000 ease-linear" style={{ width: `${(progress / 100) * 100}%` }}></div>
+             <div
+               role="progressbar"
+               aria-label="Recording time"
+               aria-valuemin={0}
+               aria-valuemax={maxSeconds}
+               aria-valuenow={elapsed}
+               aria-valuetext={`${formatClock(elapsed)} of ${formatClock(maxSeconds)}`}
+               className="absolute top-0 left-0 h-1 bg-gradient-to-r from-indigo-500 to-teal-400 transition-all duration-1000 ease-linear"
+               style={{ width: `${Math.min(100, (elapsed / maxSeconds) * 100)}%` }}
+             ></div>
           </div>
           
           <p className="mt-8 text-slate-600 font-medium bg-white/50 px-4 py-2 rounded-full backdrop-blur-sm">
-             Take a deep breath. Just speak naturally.
+             {paused ? 'Take your time. Resume whenever you\'re ready.' : 'Take a deep breath. Just speak naturally.'}
+          </p>
+          <p className="mt-3 text-xs text-slate-400">
+             Keyboard: <kbd className="font-sans font-semibold">P</kbd> to pause or resume, <kbd className="font-sans font-semibold">Esc</kbd> to stop and review
           </p>
         </div>
       )}
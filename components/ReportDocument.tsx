@@ -0,0 +1,200 @@
+import React from 'react';
+import { PracticeRating } from '../types';
+import { CRISIS_DISTRESS_THRESHOLD } from '../constants';
+import { ClinicianReport } from '../services/clinicianReport';
+import { REPORT_PAGE_WIDTH } from '../services/reportExport';
+
+const CHART_WIDTH = 680;
+const CHART_HEIGHT = 180;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 32 };
+
+const RATING_LABELS: Record<PracticeRating, string> = {
+  helped: 'Helped',
+  somewhat: 'Helped a little',
+  not_really: 'Didn\'t help'
+};
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+const percent = (score: number) => `${Math.round(score * 100)}`;
+
+// Plain SVG with no gradients or filters so html2canvas draws it faithfully
+const TrendChart: React.FC<{ report: ClinicianReport }> = ({ report }) => {
+  const points = report.trend;
+  const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (i: number) => PADDING.left + (points.length === 1 ? innerWidth / 2 : (i / (points.length - 1)) * innerWidth);
+  const y = (score: number) => PADDING.top + (1 - score) * innerHeight;
+  const labelEvery = Math.max(1, Math.ceil(points.length / 8));
+
+  return (
+    <svg width={CHART_WIDTH} height={CHART_HEIGHT} viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}>
+      {[0, 0.5, 1].map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#E2E8F0" />
+          <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#64748B">{percent(tick)}</text>
+        </g>
+      ))}
+      <line
+        x1={PADDING.left}
+        x2={CHART_WIDTH - PADDING.right}
+        y1={y(CRISIS_DISTRESS_THRESHOLD)}
+        y2={y(CRISIS_DISTRESS_THRESHOLD)}
+        stroke="#F97316"
+        strokeDasharray="4 4"
+      />
+      <polyline
+        points={points.map((p, i) => `${x(i)},${y(p.averageDistress)}`).join(' ')}
+        fill="none"
+        stroke="#4F46E5"
+        strokeWidth="2"
+      />
+      {points.map((p, i) => (
+        <g key={p.start}>
+          <circle cx={x(i)} cy={y(p.averageDistress)} r={3} fill={p.averageDistress > CRISIS_DISTRESS_THRESHOLD ? '#F97316' : '#4F46E5'} />
+          {i % labelEvery === 0 && (
+            <text x={x(i)} y={CHART_HEIGHT - 6} textAnchor="middle" fontSize="10" fill="#64748B">
+              {new Date(p.start).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const Block: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section data-report-block className="pt-6 space-y-3">
+    <h2 className="text-base font-bold text-slate-800 border-b border-slate-200 pb-1">{title}</h2>
+    {children}
+  </section>
+);
+
+// Laid out for paper: fixed A4 width, white background, no glass effects
+export const ReportDocument: React.FC<{ report: ClinicianReport }> = ({ report }) => (
+  <div style={{ width: REPORT_PAGE_WIDTH }} className="bg-white text-slate-700 px-14 py-12 text-sm leading-relaxed font-sans">
+    <header data-report-block className="space-y-1">
+      <p className="text-xs font-bold uppercase tracking-[0.2em] text-indigo-500">EchoTherapy</p>
+      <h1 className="text-2xl font-bold text-slate-800">Summary for my clinician</h1>
+      <p className="text-slate-500">
+        {formatDay(report.from)} to {formatDay(report.to)} · prepared {formatDay(report.generatedAt)}
+      </p>
+      <p className="text-xs text-slate-400 pt-2">
+        Self-reported app data. Distress scores (0 to 100) and emotion labels are estimates by an AI model from short voice, video or written check-ins, not clinical measures. The person chose what to include.
+      </p>
+    </header>
+
+    <Block title="Overview">
+      <div className="grid grid-cols-3 gap-4">
+        {[
+          { label: 'Check-ins', value: `${report.sessionCount}` },
+          { label: 'Average distress', value: report.sessionCount ? percent(report.averageDistress) : '–' },
+          { label: `Above ${percent(CRISIS_DISTRESS_THRESHOLD)}`, value: `${report.highDistressSessions}` }
+        ].map(stat => (
+          <div key={stat.label} className="border border-slate-200 rounded-lg px-4 py-3">
+            <p className="text-xl font-bold text-slate-800">{stat.value}</p>
+            <p className="text-xs text-slate-500">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+      {report.safetyChecks && (
+        <p className="text-slate-600">
+          Safety checks at very high distress: said they were safe {report.safetyChecks.safe} time{report.safetyChecks.safe === 1 ? '' : 's'}, not safe {report.safetyChecks.notSafe} time{report.safetyChecks.notSafe === 1 ? '' : 's'}{report.safetyChecks.safeLater > 0 && ` (${report.safetyChecks.safeLater} of those later said they were safe)`}.
+        </p>
+      )}
+    </Block>
+
+    {report.trend.length > 0 && (
+      <Block title={`Distress trend (${report.trendBy === 'day' ? 'daily' : 'weekly'} average)`}>
+        <TrendChart report={report} />
+        <p className="text-xs text-slate-400">The dashed line marks the level at which the app shows crisis resources.</p>
+      </Block>
+    )}
+
+    {report.emotions && report.emotions.length > 0 && (
+      <Block title="Emotions">
+        <table className="w-full">
+          <tbody>
+            {report.emotions.map(emotion => (
+              <tr key={emotion.emotion}>
+                <td className="py-1 pr-4 capitalize w-40">{emotion.emotion}</td>
+                <td className="py-1">
+                  <div className="h-2.5 rounded-full" style={{ width: `${Math.max(2, emotion.share * 100)}%`, backgroundColor: emotion.color }} />
+                </td>
+                <td className="py-1 pl-4 text-right text-slate-500 w-24">{emotion.count} ({Math.round(emotion.share * 100)}%)</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Block>
+    )}
+
+    {(report.strategies.length > 0 || report.practices.length > 0) && (
+      <Block title="Coping strategies">
+        {report.strategies.length > 0 && (
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-xs text-slate-400">
+                <th className="py-1 font-semibold">Kind of practice</th>
+                <th className="py-1 font-semibold">Times rated</th>
+                <th className="py-1 font-semibold">Overall</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.strategies.map(strategy => (
+                <tr key={strategy.id}>
+                  <td className="py-1 capitalize">{strategy.label}</td>
+                  <td className="py-1">{strategy.tries}</td>
+                  <td className="py-1">{strategy.score >= 0.25 ? 'Usually helps' : strategy.score <= -0.25 ? 'Rarely helps' : 'Mixed'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {report.practices.length > 0 && (
+          <ul className="space-y-1">
+            {report.practices.map((practice, idx) => (
+              <li key={idx} className="flex justify-between gap-4">
+                <span>
+                  <span className="text-slate-400 mr-2">{formatDay(practice.at)}</span>
+                  {practice.step}
+                </span>
+                <span className="text-slate-500 whitespace-nowrap">
+                  {practice.rating ? RATING_LABELS[practice.rating] : 'Not rated'}
+                  {practice.distressChange !== null && ` · distress ${practice.distressChange <= 0 ? '−' : '+'}${percent(Math.abs(practice.distressChange))}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Block>
+    )}
+
+    {report.affirmations.length > 0 && (
+      <Block title="Affirmations they chose to share">
+        <ul className="space-y-2">
+          {report.affirmations.map((affirmation, idx) => (
+            <li key={idx} className="italic font-serif text-slate-600">
+              “{affirmation.text}” <span className="not-italic font-sans text-xs text-slate-400">{formatDay(affirmation.at)}</span>
+            </li>
+          ))}
+        </ul>
+      </Block>
+    )}
+
+    {report.sessionNotes && report.sessionNotes.length > 0 && (
+      <>
+        <h2 data-report-block className="pt-6 text-base font-bold text-slate-800 border-b border-slate-200 pb-1">Session summaries</h2>
+        {report.sessionNotes.map((note, idx) => (
+          <div key={idx} data-report-block className="pt-3">
+            <p className="text-xs text-slate-400">
+              {formatDay(note.at)} · distress {percent(note.distress)}{note.emotion ? ` · ${note.emotion}` : ''}
+            </p>
+            <p>{note.summary}</p>
+          </div>
+        ))}
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,36 @@
+import React from 'react';
+import { ShieldQuestion } from 'lucide-react';
+import { SafetyAnswer } from '../types';
+
+interface SafetyCheckProps {
+  onAnswer: (answer: SafetyAnswer) => void;
+}
+
+// Asked before anything else when distress is very high; the rest of the session waits for an answer
+export const SafetyCheck: React.FC<SafetyCheckProps> = ({ onAnswer }) => (
+  <section className="glass-card rounded-3xl p-8 text-center space-y-6 animate-fade-in-up">
+    <div aria-hidden="true" className="w-14 h-14 mx-auto bg-white rounded-2xl shadow-sm flex items-center justify-center text-rose-500">
+      <ShieldQuestion size={28} />
+    </div>
+    <div className="space-y-2">
+      <h2 className="text-2xl md:text-3xl font-light text-slate-800">Are you safe right now?</h2>
+      <p className="text-slate-500 leading-relaxed max-w-md mx-auto">
+        What you shared sounds really heavy. Before anything else, we want to check in with you.
+      </p>
+    </div>
+    <div className="flex flex-col sm:flex-row gap-3 justify-center">
+      <button
+        onClick={() => onAnswer('safe')}
+        className="px-6 py-3 rounded-full bg-slate-800 text-white font-semibold hover:bg-slate-900 transition-colors"
+      >
+        Yes, I'm safe for now
+      </button>
+      <button
+        onClick={() => onAnswer('not_safe')}
+        className="px-6 py-3 rounded-full bg-rose-600 text-white font-semibold hover:bg-rose-700 transition-colors"
+      >
+        No, I'm not safe
+      </button>
+    </div>
+  </section>
+);
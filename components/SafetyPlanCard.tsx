@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { MessageCircleHeart, Copy, Check, PenLine } from 'lucide-react';
+import { SafetyPlan } from '../types';
+import { DEFAULT_TRUSTED_MESSAGE, hasSafetyPlan, trustedContactHref } from '../services/safetyPlan';
+
+interface SafetyPlanCardProps {
+  plan: SafetyPlan | null;
+  onEditPlan: () => void;
+}
+
+const PLAN_SECTIONS: { key: 'warningSigns' | 'reasonsToLive' | 'contacts'; title: string }[] = [
+  { key: 'reasonsToLive', title: 'Your reasons to keep going' },
+  { key: 'contacts', title: 'People and places that help' },
+  { key: 'warningSigns', title: 'Warning signs you wrote down' }
+];
+
+export const SafetyPlanCard: React.FC<SafetyPlanCardProps> = ({ plan, onEditPlan }) => {
+  const [copied, setCopied] = useState(false);
+  const contact = plan?.trustedContact ?? null;
+
+  const copyMessage = async () => {
+    if (!contact) return;
+    try {
+      await navigator.clipboard.writeText(contact.message.trim() || DEFAULT_TRUSTED_MESSAGE);
+      setCopied(true);
+    } catch (err) {
+      console.warn("Message could not be copied", err);
+    }
+  };
+
+  if (!hasSafetyPlan(plan)) {
+    return (
+      <section className="glass-card rounded-3xl p-6 space-y-3">
+        <h3 className="text-lg font-bold text-slate-700">Your safety plan</h3>
+        <p className="text-sm text-slate-500 leading-relaxed">
+          A safety plan is a short list, written in your own words, of warning signs, reasons to keep going and people to reach for. When you feel able to, making one can help next time.
+        </p>
+        <button onClick={onEditPlan} className="flex items-center space-x-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800">
+          <PenLine size={16} />
+          <span>Write my safety plan</span>
+        </button>
+      </section>
+    );
+  }
+
+  return (
+    <section className="glass-card rounded-3xl p-6 space-y-5">
+      <h3 className="text-lg font-bold text-slate-700">Your safety plan</h3>
+
+      {contact && (
+        <div className="bg-rose-50/80 border border-rose-100 rounded-2xl p-4 space-y-3">
+          <p className="text-sm text-rose-900">Reaching out to {contact.name} could help right now. We'll draft the message; you decide whether to send it.</p>
+          <div className="flex flex-wrap gap-2">
+            <a
+              href={trustedContactHref(contact)}
+              className="flex items-center space-x-2 px-5 py-2 rounded-full bg-rose-600 text-white font-semibold hover:bg-rose-700 transition-colors"
+            >
+              <MessageCircleHeart size={18} />
+              <span>Text {contact.name}</span>
+            </a>
+            <button
+              onClick={copyMessage}
+              className="flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-semibold text-rose-700 bg-white/70 border border-rose-100 hover:bg-white transition-colors"
+            >
+              {copied ? <Check size={16} /> : <Copy size={16} />}
+              <span>{copied ? 'Copied' : 'Copy message'}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {PLAN_SECTIONS.filter(section => plan[section.key].length > 0).map(section => (
+        <div key={section.key} className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wider text-slate-400">{section.title}</p>
+          <ul className="space-y-1">
+            {plan[section.key].map((item, idx) => (
+              <li key={idx} className="text-slate-700 leading-relaxed">{item}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+
+      <button onClick={onEditPlan} className="flex items-center space-x-2 text-xs font-semibold text-slate-400 hover:text-indigo-600">
+        <PenLine size={14} />
+        <span>Edit my plan</span>
+      </button>
+    </section>
+  );
+};
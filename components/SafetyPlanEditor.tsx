@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { HeartHandshake, Loader2, Check } from 'lucide-react';
+import { SafetyPlan } from '../types';
+import { loadSafetyPlan, saveSafetyPlan } from '../services/journalStore';
+import { DEFAULT_TRUSTED_MESSAGE, EMPTY_SAFETY_PLAN, linesToItems } from '../services/safetyPlan';
+
+type ListField = 'warningSigns' | 'reasonsToLive' | 'contacts';
+
+const LIST_FIELDS: { key: ListField; label: string; hint: string }[] = [
+  { key: 'warningSigns', label: 'My warning signs', hint: 'Thoughts, feelings or situations that tell you things are getting worse' },
+  { key: 'reasonsToLive', label: 'My reasons to keep going', hint: 'People, plans, pets, anything that matters to you' },
+  { key: 'contacts', label: 'People and places that help', hint: 'Who you can talk to or where you can go, with numbers if you like' }
+];
+
+interface Draft {
+  warningSigns: string;
+  reasonsToLive: string;
+  contacts: string;
+  contactName: string;
+  contactPhone: string;
+  contactMessage: string;
+}
+
+const toDraft = (plan: SafetyPlan): Draft => ({
+  warningSigns: plan.warningSigns.join('\n'),
+  reasonsToLive: plan.reasonsToLive.join('\n'),
+  contacts: plan.contacts.join('\n'),
+  contactName: plan.trustedContact?.name ?? '',
+  contactPhone: plan.trustedContact?.phone ?? '',
+  contactMessage: plan.trustedContact?.message ?? DEFAULT_TRUSTED_MESSAGE
+});
+
+export const SafetyPlanEditor: React.FC = () => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+
+  useEffect(() => {
+    loadSafetyPlan()
+      .then(plan => setDraft(toDraft(plan ?? EMPTY_SAFETY_PLAN)))
+      .catch(err => {
+        console.error("Safety plan could not be loaded", err);
+        setDraft(toDraft(EMPTY_SAFETY_PLAN));
+      });
+  }, []);
+
+  if (!draft) return null;
+
+  const update = (patch: Partial<Draft>) => {
+    setDraft({ ...draft, ...patch });
+    setStatus('idle');
+  };
+
+  const save = async () => {
+    setStatus('saving');
+    const phone = draft.contactPhone.trim();
+    try {
+      await saveSafetyPlan({
+        warningSigns: linesToItems(draft.warningSigns),
+        reasonsToLive: linesToItems(draft.reasonsToLive),
+        contacts: linesToItems(draft.contacts),
+        // Without a number there's nothing to message
+        trustedContact: phone
+          ? { name: draft.contactName.trim() || phone, phone, message: draft.contactMessage.trim() }
+          : null,
+        updatedAt: Date.now()
+      });
+      setStatus('saved');
+    } catch (err) {
+      console.error("Safety plan save failed", err);
+      setStatus('error');
+    }
+  };
+
+  return (
+    <section className="glass-card rounded-2xl p-6 space-y-5">
+      <div className="space-y-1">
+        <h3 className="text-lg font-bold text-slate-700 flex items-center space-x-2">
+          <HeartHandshake size={20} className="text-rose-500" />
+          <span>My safety plan</span>
+        </h3>
+        <p className="text-sm text-slate-500">
+          Written now, while things are calmer. If a reflection shows you're in a lot of pain, we'll show you this instead of the usual tips.
+        </p>
+      </div>
+
+      {LIST_FIELDS.map(field => (
+        <label key={field.key} className="block space-y-2">
+          <span className="block text-slate-700 font-medium">{field.label}</span>
+          <span className="block text-xs text-slate-400">{field.hint}. One per line.</span>
+          <textarea
+            value={draft[field.key]}
+            onChange={e => update({ [field.key]: e.target.value })}
+            rows={3}
+            className="w-full bg-white/80 border border-slate-200 rounded-xl px-4 py-3 text-slate-700 resize-y"
+          />
+        </label>
+      ))}
+
+      <div className="space-y-3">
+        <span className="block text-slate-700 font-medium">Someone I trust</span>
+        <span className="block text-xs text-slate-400">We'll offer to draft a text to them. Nothing is ever sent without you pressing send.</span>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input
+            value={draft.contactName}
+            onChange={e => update({ contactName: e.target.value })}
+            placeholder="Name"
+            className="w-full bg-white/80 border border-slate-200 rounded-xl px-4 py-3 text-slate-700"
+          />
+          <input
+            type="tel"
+            value={draft.contactPhone}
+            onChange={e => update({ contactPhone: e.target.value })}
+            placeholder="Mobile number"
+            className="w-full bg-white/80 border border-slate-200 rounded-xl px-4 py-3 text-slate-700"
+          />
+        </div>
+        <textarea
+          value={draft.contactMessage}
+          onChange={e => update({ contactMessage: e.target.value })}
+          rows={2}
+          className="w-full bg-white/80 border border-slate-200 rounded-xl px-4 py-3 text-slate-700 resize-y"
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={save}
+          disabled={status === 'saving'}
+          className="flex items-center space-x-2 px-5 py-2 rounded-full text-sm font-semibold bg-slate-800 text-white hover:bg-slate-900 transition-colors disabled:opacity-40"
+        >
+          {status === 'saving' ? <Loader2 size={14} className="animate-spin" /> : status === 'saved' ? <Check size={14} /> : null}
+          <span>{status === 'saved' ? 'Saved' : 'Save plan'}</span>
+        </button>
+        {status === 'error' && <p className="text-sm text-red-700 font-medium">Your plan could not be saved.</p>}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,425 @@
+import React, { useState } from 'react';
+import { LifeBuoy, Radio, Languages, AudioLines, ShieldCheck, Lock, Download, Trash2, Loader2, Bell, Plus, X } from 'lucide-react';
+import { AppSettings, SpeechPace, SpeechStyle } from '../types';
+import { PREBUILT_VOICES, SUPPORTED_LANGUAGES } from '../constants';
+import { CRISIS_DATASET_VERSION, detectCountry, listCrisisRegions, resolveCrisisRegion } from '../services/crisisResources';
+import { MIN_PASSCODE_LENGTH, createVault, isVaultEnabled, removeVault, supportsVault } from '../services/vault';
+import { reencryptAll } from '../services/journalStore';
+import { deleteEverything, exportAllData } from '../services/dataExport';
+import { shareOrDownload } from '../services/media';
+import { MAX_REMINDERS, inQuietHours, requestReminderPermission, supportsReminders } from '../services/reminders';
+import { SafetyPlanEditor } from './SafetyPlanEditor';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (patch: Partial<AppSettings>) => void;
+  onLock: () => void;
+}
+
+const PACE_OPTIONS: { value: SpeechPace; label: string }[] = [
+  { value: 'slower', label: 'Slower' },
+  { value: 'normal', label: 'Natural' },
+  { value: 'faster', label: 'Brisker' }
+];
+
+const STYLE_OPTIONS: { value: SpeechStyle; label: string }[] = [
+  { value: 'neutral', label: 'Calm' },
+  { value: 'warmer', label: 'Warmer' },
+  { value: 'whispered', label: 'Whispered' }
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onLock }) => {
+  const detected = resolveCrisisRegion(detectCountry());
+  const [vaultEnabled, setVaultEnabled] = useState(isVaultEnabled);
+  const [settingPasscode, setSettingPasscode] = useState(false);
+  const [passcode, setPasscode] = useState('');
+  const [confirmPasscode, setConfirmPasscode] = useState('');
+  const [busy, setBusy] = useState<'lock' | 'export' | 'delete' | null>(null);
+  const [privacyError, setPrivacyError] = useState<string | null>(null);
+  const [reminderError, setReminderError] = useState<string | null>(null);
+  const { reminders } = settings;
+
+  const passcodeProblem = passcode.length < MIN_PASSCODE_LENGTH
+    ? `Use at least ${MIN_PASSCODE_LENGTH} characters.`
+    : passcode !== confirmPasscode ? 'The passcodes don\'t match.' : null;
+
+  const updateReminders = (patch: Partial<AppSettings['reminders']>) => onChange({ reminders: { ...reminders, ...patch } });
+
+  const toggleReminders = async (enabled: boolean) => {
+    setReminderError(null);
+    if (enabled && await requestReminderPermission() !== 'granted') {
+      setReminderError('Notifications are blocked for this site. Allow them in your browser settings to get reminders.');
+      return;
+    }
+    updateReminders({ enabled });
+  };
+
+  const silencedTimes = reminders.times.filter(time => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return inQuietHours(reminders, new Date(2000, 0, 1, hours, minutes));
+  });
+
+  const runPrivacyTask = async (task: 'lock' | 'export' | 'delete', work: () => Promise<void>, failure: string) => {
+    setBusy(task);
+    setPrivacyError(null);
+    try {
+      await work();
+    } catch (err) {
+      console.error(failure, err);
+      setPrivacyError(failure);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Existing entries are re-written so everything on disk matches the new setting.
+  // The key config only changes alongside a rewrite that succeeded, so nothing is left sealed without it.
+  const enableLock = () => runPrivacyTask('lock', async () => {
+    await createVault(passcode);
+    try {
+      await reencryptAll(true);
+    } catch (err) {
+      removeVault();
+      throw err;
+    }
+    setVaultEnabled(true);
+    setSettingPasscode(false);
+    setPasscode('');
+    setConfirmPasscode('');
+  }, 'The lock could not be turned on.');
+
+  const disableLock = () => {
+    if (!window.confirm('Turn off the lock? Your journal will be stored unencrypted on this device.')) return;
+    runPrivacyTask('lock', async () => {
+      await reencryptAll(false);
+      removeVault();
+      setVaultEnabled(false);
+    }, 'The lock could not be turned off.');
+  };
+
+  const exportData = () => runPrivacyTask('export', async () => {
+    const blob = await exportAllData();
+    await shareOrDownload(blob, `echotherapy-data-${new Date().toISOString().slice(0, 10)}.json`, 'My EchoTherapy data');
+  }, 'Your data could not be exported.');
+
+  const deleteAll = () => {
+    if (!window.confirm('Delete your journal, recordings, settings and passcode from this device? This cannot be undone.')) return;
+    runPrivacyTask('delete', async () => {
+      await deleteEverything();
+      window.location.reload();
+    }, 'Some data could not be deleted.');
+  };
+
+  return (
+    <div className="w-full space-y-8 animate-fade-in-up pb-24">
+      <div className="text-center space-y-3">
+        <h2 className="text-3xl md:text-4xl font-light text-slate-800 tracking-tight">
+          <span className="text-indigo-600 font-medium">Settings</span>
+        </h2>
+        <p className="text-slate-500 text-lg font-light">Everything here is stored only on this device.</p>
+      </div>
+
+      <section className="glass-card rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-bold text-slate-700 flex items-center space-x-2">
+          <LifeBuoy size={20} className="text-orange-500" />
+          <span>Crisis resources</span>
+        </h3>
+        <label className="block space-y-2">
+          <span className="text-sm text-slate-500">Which country's support lines should we show?</span>
+          <select
+            value={settings.crisisRegion ?? ''}
+            onChange={e => onChange({ crisisRegion: e.target.value || null })}
+            className="w-full bg-white/80 border border-slate-200 rounded-xl px-4 py-3 text-slate-700"
+          >
+            <option value="">Automatic ({detected.name})</option>
+            {listCrisisRegions().map(region => (
+              <option key={region.country} value={region.country}>{region.name}</option>
+            ))}
+          </select>
+        </label>
+        <p className="text-xs text-slate-400">Hotline directory version {CRISIS_DATASET_VERSION}</p>
+      </section>
+
+      <SafetyPlanEditor />
+
+      <section className="glass-card rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-bold text-slate-700 flex items-center space-x-2">
+          <Languages size={20} className="text-teal-500" />
+          <span>Language</span>
+        </h3>
+        <label className="block space-y-2">
+          <span className="text-sm text-slate-500">Which language should your reflection and affirmation be in?</span>
+          <select
+            value={settings.language ?? ''}
+            onChange={e => onChange({ language: e.target.value || null })}
+            className="w-full bg-white/80 border border-slate-200 rounded-xl px-4 py-3 text-slate-700"
+          >
+            <option value="">Match the language I use</option>
+            {SUPPORTED_LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.name}</option>
+            ))}
+          </select>
+        </label>
+      </section>
+
+      <section className="glass-card rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-bold text-slate-700 flex items-center space-x-2">
+          <AudioLines size={20} className="text-purple-500" />
+          <span>Affirmation voice</span>
+        </h3>
+        <label className="block space-y-2">
+          <span className="text-sm text-slate-500">Voice</span>
+          <select
+            value={settings.voice.voice}
+            onChange={e => onChange({ voice: { ...settings.voice, voice: e.target.value } })}
+            className="w-full bg-white/80 border border-slate-200 rounded-xl px-4 py-3 text-slate-700"
+          >
+            {PREBUILT_VOICES.map(voice => (
+              <option key={voice.name} value={voice.name}>{voice.name} · {voice.character}</option>
+            ))}
+          </select>
+        </label>
+        {[
+          { label: 'Pace', key: 'pace' as const, options: PACE_OPTIONS },
+          { label: 'Style', key: 'style' as const, options: STYLE_OPTIONS }
+        ].map(({ label, key, options }) => (
+          <div key={key} className="space-y-2">
+            <span className="block text-sm text-slate-500">{label}</span>
+            <div className="flex flex-wrap gap-2">
+              {options.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => onChange({ voice: { ...settings.voice, [key]: option.value } })}
+                  className={`px-4 py-1.5 rounded-full text-sm font-semibold transition-colors ${settings.voice[key] === option.value ? 'bg-slate-800 text-white' : 'bg-white/60 text-slate-500 hover:bg-white'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        <label className="flex items-start justify-between space-x-4 cursor-pointer">
+          <span className="space-y-1">
+            <span className="block text-slate-700 font-medium">Captions</span>
+            <span className="block text-sm text-slate-500">Show the affirmation line by line while it is spoken.</span>
+          </span>
+          <input
+            type="checkbox"
+            checked={settings.captions}
+            onChange={e => onChange({ captions: e.target.checked })}
+            className="mt-1 w-5 h-5 accent-indigo-600"
+          />
+        </label>
+        <p className="text-xs text-slate-400">Applies to your next reflection. If the voice can't be reached, your browser reads the affirmation instead.</p>
+      </section>
+
+      <section className="glass-card rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-bold text-slate-700 flex items-center space-x-2">
+          <Radio size={20} className="text-indigo-500" />
+          <span>Recording</span>
+        </h3>
+        <label className="flex items-start justify-between space-x-4 cursor-pointer">
+          <span className="space-y-1">
+            <span className="block text-slate-700 font-medium">Live reflection</span>
+            <span className="block text-sm text-slate-500">Show emerging feelings and let your flower start forming while you speak. Sends partial recordings as you go.</span>
+          </span>
+          <input
+            type="checkbox"
+            checked={settings.liveAnalysis}
+            onChange={e => onChange({ liveAnalysis: e.target.checked })}
+            className="mt-1 w-5 h-5 accent-indigo-600"
+          />
+        </label>
+      </section>
+
+      {supportsReminders() && (
+        <section className="glass-card rounded-2xl p-6 space-y-4">
+          <h3 className="text-lg font-bold text-slate-700 flex items-center space-x-2">
+            <Bell size={20} className="text-amber-500" />
+            <span>Check-in reminders</span>
+          </h3>
+          <label className="flex items-start justify-between space-x-4 cursor-pointer">
+            <span className="space-y-1">
+              <span className="block text-slate-700 font-medium">Remind me to check in</span>
+              <span className="block text-sm text-slate-500">A gentle notification each day. Works while EchoTherapy is open; installed apps may also be woken in the background.</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={reminders.enabled}
+              onChange={e => toggleReminders(e.target.checked)}
+              className="mt-1 w-5 h-5 accent-indigo-600"
+            />
+          </label>
+          {reminderError && <p className="text-sm text-red-700 font-medium">{reminderError}</p>}
+          {reminders.enabled && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <span className="block text-sm text-slate-500">Remind me at</span>
+                <div className="flex flex-wrap gap-2">
+                  {reminders.times.map((time, idx) => (
+                    <span key={idx} className="flex items-center bg-white/80 border border-slate-200 rounded-xl pl-3 pr-1 py-1">
+                      <input
+                        type="time"
+                        value={time}
+                        onChange={e => updateReminders({ times: reminders.times.map((t, i) => (i === idx ? e.target.value || t : t)) })}
+                        className="bg-transparent text-slate-700 outline-none"
+                      />
+                      {reminders.times.length > 1 && (
+                        <button
+                          onClick={() => updateReminders({ times: reminders.times.filter((_, i) => i !== idx) })}
+                          className="p-1 text-slate-400 hover:text-red-600"
+                          title="Remove this reminder"
+                        >
+                          <X size={14} />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                  {reminders.times.length < MAX_REMINDERS && (
+                    <button
+                      onClick={() => updateReminders({ times: [...reminders.times, '12:00'] })}
+                      className="flex items-center space-x-1 px-3 py-1.5 rounded-xl text-sm font-semibold text-slate-500 bg-white/60 hover:bg-white transition-colors"
+                    >
+                      <Plus size={14} />
+                      <span>Add a time</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <span className="block text-sm text-slate-500">Quiet hours, when reminders stay silent</span>
+                <div className="flex items-center space-x-3 text-slate-500 text-sm">
+                  <input
+                    type="time"
+                    value={reminders.quietStart}
+                    onChange={e => e.target.value && updateReminders({ quietStart: e.target.value })}
+                    className="bg-white/80 border border-slate-200 rounded-xl px-3 py-2 text-slate-700"
+                  />
+                  <span>to</span>
+                  <input
+                    type="time"
+                    value={reminders.quietEnd}
+                    onChange={e => e.target.value && updateReminders({ quietEnd: e.target.value })}
+                    className="bg-white/80 border border-slate-200 rounded-xl px-3 py-2 text-slate-700"
+                  />
+                </div>
+                {silencedTimes.length > 0 && (
+                  <p className="text-xs text-amber-600">{silencedTimes.join(', ')} {silencedTimes.length === 1 ? 'falls' : 'fall'} in your quiet hours, so {silencedTimes.length === 1 ? 'it' : 'they'} won't ring.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </section>
+      )}
+
+      <section className="glass-card rounded-2xl p-6 space-y-5">
+        <h3 className="text-lg font-bold text-slate-700 flex items-center space-x-2">
+          <ShieldCheck size={20} className="text-teal-500" />
+          <span>Privacy</span>
+        </h3>
+
+        {supportsVault() && (
+          <div className="space-y-3">
+            <div className="flex items-start justify-between space-x-4">
+              <span className="space-y-1">
+                <span className="block text-slate-700 font-medium">Passcode lock</span>
+                <span className="block text-sm text-slate-500">
+                  {vaultEnabled
+                    ? 'On. Your journal and recordings are encrypted and need your passcode to open.'
+                    : 'Encrypt your journal on this device and ask for a passcode when the app opens.'}
+                </span>
+              </span>
+              {vaultEnabled ? (
+                <div className="flex flex-shrink-0 gap-2">
+                  <button onClick={onLock} className="flex items-center space-x-1 px-4 py-1.5 rounded-full text-sm font-semibold bg-slate-800 text-white hover:bg-slate-900 transition-colors">
+                    <Lock size={14} />
+                    <span>Lock now</span>
+                  </button>
+                  <button onClick={disableLock} disabled={busy !== null} className="px-4 py-1.5 rounded-full text-sm font-semibold bg-white/60 text-slate-500 hover:bg-white transition-colors disabled:opacity-40">
+                    Turn off
+                  </button>
+                </div>
+              ) : !settingPasscode && (
+                <button onClick={() => setSettingPasscode(true)} className="flex-shrink-0 px-4 py-1.5 rounded-full text-sm font-semibold bg-slate-800 text-white hover:bg-slate-900 transition-colors">
+                  Set a passcode
+                </button>
+              )}
+            </div>
+            {settingPasscode && !vaultEnabled && (
+              <div className="space-y-3">
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={passcode}
+                  onChange={e => setPasscode(e.target.value)}
+                  placeholder="New passcode"
+                  className="w-full bg-white/80 border border-slate-200 rounded-xl px-4 py-3 text-slate-700"
+                />
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPasscode}
+                  onChange={e => setConfirmPasscode(e.target.value)}
+                  placeholder="Repeat passcode"
+                  className="w-full bg-white/80 border border-slate-200 rounded-xl px-4 py-3 text-slate-700"
+                />
+                <p className="text-xs text-slate-400">
+                  {passcode && passcodeProblem ? passcodeProblem : 'There is no way to recover a forgotten passcode; you would have to delete everything and start over.'}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={enableLock}
+                    disabled={!!passcodeProblem || busy !== null}
+                    className="flex items-center space-x-2 px-4 py-1.5 rounded-full text-sm font-semibold bg-slate-800 text-white hover:bg-slate-900 transition-colors disabled:opacity-40"
+                  >
+                    {busy === 'lock' && <Loader2 size={14} className="animate-spin" />}
+                    <span>Turn on lock</span>
+                  </button>
+                  <button onClick={() => setSettingPasscode(false)} className="px-4 py-1.5 rounded-full text-sm font-semibold bg-white/60 text-slate-500 hover:bg-white transition-colors">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <label className="flex items-start justify-between space-x-4 cursor-pointer">
+          <span className="space-y-1">
+            <span className="block text-slate-700 font-medium">Keep my recordings and words</span>
+            <span className="block text-sm text-slate-500">When off, only the reflection is saved: no recordings, written entries or follow-up messages. Applies to new sessions.</span>
+          </span>
+          <input
+            type="checkbox"
+            checked={settings.keepRawInput}
+            onChange={e => onChange({ keepRawInput: e.target.checked })}
+            className="mt-1 w-5 h-5 accent-indigo-600"
+          />
+        </label>
+
+        <div className="flex flex-wrap gap-2 pt-1">
+          <button
+            onClick={exportData}
+            disabled={busy !== null}
+            className="flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-semibold bg-white/70 text-slate-600 border border-slate-200 hover:bg-white transition-colors disabled:opacity-40"
+          >
+            {busy === 'export' ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            <span>Export my data</span>
+          </button>
+          <button
+            onClick={deleteAll}
+            disabled={busy !== null}
+            className="flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-bold text-red-600 bg-white/70 border border-red-100 hover:bg-red-50 transition-colors disabled:opacity-40"
+          >
+            {busy === 'delete' ? <Loader2 size={16} className="animate-spin" /> : <Trash2 size={16} />}
+            <span>Delete everything</span>
+          </button>
+        </div>
+        {privacyError && <p className="text-sm text-red-700 font-medium">{privacyError}</p>}
+        {settings.consentAcceptedAt && (
+          <p className="text-xs text-slate-400">You agreed to share recordings for analysis on {new Date(settings.consentAcceptedAt).toLocaleDateString()}.</p>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Send } from 'lucide-react';
+
+interface TextEntryProps {
+  onSubmit: (text: string) => void;
+  onBack: () => void;
+}
+
+export const MAX_TEXT_LENGTH = 5000;
+// Long enough to carry some feeling, short enough not to discourage a quick note
+const MIN_TEXT_LENGTH = 10;
+
+const GUIDED_PROMPTS = [
+  'Right now I feel...',
+  'What\'s weighing on me today is...',
+  'Something that went well recently...',
+  'My body feels...',
+  'What I wish someone understood is...'
+];
+
+export const TextEntry: React.FC<TextEntryProps> = ({ onSubmit, onBack }) => {
+  const [text, setText] = useState('');
+  const trimmed = text.trim();
+
+  const addPrompt = (prompt: string) => {
+    setText(prev => (prev.trim() ? `${prev.trimEnd()}\n\n${prompt} ` : `${prompt} `));
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-6 animate-fade-in-up">
+      <div className="w-full flex items-center justify-between">
+        <button
+          onClick={onBack}
+          className="flex items-center space-x-2 text-sm font-semibold text-slate-500 hover:text-indigo-600 transition-colors"
+        >
+          <ArrowLeft size={16} />
+          <span>Back</span>
+        </button>
+        <span className="text-xs text-slate-400 font-mono">{text.length} / {MAX_TEXT_LENGTH}</span>
+      </div>
+
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-light text-slate-800 tracking-tight">
+          Write it <span className="text-indigo-600 font-medium">down</span>
+        </h2>
+        <p className="text-slate-500 font-light">Whatever comes to mind. It doesn't need to be tidy.</p>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2">
+        {GUIDED_PROMPTS.map(prompt => (
+          <button
+            key={prompt}
+            onClick={() => addPrompt(prompt)}
+            className="px-3 py-1.5 rounded-full text-sm bg-white/60 text-slate-500 border border-white/60 hover:bg-white hover:text-indigo-600 transition-colors"
+          >
+            {prompt}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value.slice(0, MAX_TEXT_LENGTH))}
+        rows={8}
+        autoFocus
+        placeholder="Today I..."
+        className="w-full glass-card rounded-3xl p-6 text-slate-700 text-lg leading-relaxed placeholder:text-slate-300 outline-none resize-none focus:ring-2 focus:ring-indigo-200"
+      />
+
+      <button
+        onClick={() => onSubmit(trimmed)}
+        disabled={trimmed.length < MIN_TEXT_LENGTH}
+        className="flex items-center space-x-3 bg-slate-800 text-white px-8 py-3 rounded-full hover:bg-slate-900 transition-all shadow-xl disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <Send size={18} className="text-teal-400" />
+        <span className="font-medium">Reflect on this</span>
+      </button>
+    </div>
+  );
+};
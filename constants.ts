@@ -0,0 +1,61 @@
+import { FlowerStyle } from './types';
+
+// Single source for the emotion → flower mapping. The analysis prompt and the
+// trend dashboard both read from here so their colors never drift apart.
+export const FLOWER_STYLES: Record<FlowerStyle, { label: string; color: string; tones: string }> = {
+  spiky: { label: 'ANGER/FRUSTRATION', color: '#EF4444', tones: 'Red tones' },
+  drooping: { label: 'SADNESS/GRIEF', color: '#6366F1', tones: 'Blue/Indigo tones' },
+  trembling: { label: 'ANXIETY/FEAR', color: '#8B5CF6', tones: 'Purple tones' },
+  calm: { label: 'CALM/NEUTRAL', color: '#10B981', tones: 'Green tones' },
+  particle: { label: 'HAPPINESS/HOPE/RELIEF', color: '#F59E0B', tones: 'Yellow/Gold tones' }
+};
+
+export const FLOWER_STYLE_ORDER: FlowerStyle[] = ['spiky', 'drooping', 'trembling', 'calm', 'particle'];
+
+// distressScore above this is treated as a potential crisis
+export const CRISIS_DISTRESS_THRESHOLD = 0.8;
+// Above this we gently surface support options without the full crisis treatment
+export const ELEVATED_DISTRESS_THRESHOLD = 0.6;
+
+// Gemini rejects inline requests above ~20MB; base64 inflates media by a third
+export const MAX_INLINE_PAYLOAD_BYTES = 20 * 1024 * 1024;
+
+// Recording length choices in seconds. Three minutes of compressed video is about the most that still fits inline.
+export const RECORDING_DURATIONS = [30, 60, 120, 180];
+
+// Languages offered for reflections. Codes are passed to the provider and to speechSynthesis.
+export const SUPPORTED_LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' },
+  { code: 'fr', name: 'Français' },
+  { code: 'de', name: 'Deutsch' },
+  { code: 'it', name: 'Italiano' },
+  { code: 'pt', name: 'Português' },
+  { code: 'nl', name: 'Nederlands' },
+  { code: 'pl', name: 'Polski' },
+  { code: 'tr', name: 'Türkçe' },
+  { code: 'ru', name: 'Русский' },
+  { code: 'ar', name: 'العربية' },
+  { code: 'hi', name: 'हिन्दी' },
+  { code: 'ja', name: '日本語' },
+  { code: 'ko', name: '한국어' },
+  { code: 'zh', name: '中文' }
+];
+
+// A gentle subset of Gemini's prebuilt TTS voices, with their published character
+export const PREBUILT_VOICES: { name: string; character: string }[] = [
+  { name: 'Kore', character: 'Firm, steady' },
+  { name: 'Sulafat', character: 'Warm' },
+  { name: 'Vindemiatrix', character: 'Gentle' },
+  { name: 'Achernar', character: 'Soft' },
+  { name: 'Enceladus', character: 'Breathy' },
+  { name: 'Aoede', character: 'Breezy' },
+  { name: 'Callirrhoe', character: 'Easy-going' },
+  { name: 'Umbriel', character: 'Easy-going' },
+  { name: 'Algieba', character: 'Smooth' },
+  { name: 'Despina', character: 'Smooth' },
+  { name: 'Schedar', character: 'Even' },
+  { name: 'Achird', character: 'Friendly' },
+  { name: 'Charon', character: 'Informative' },
+  { name: 'Puck', character: 'Upbeat' }
+];
@@ -0,0 +1,170 @@
+import { CrisisDataset } from "../types";
+
+// Bundled so help is available offline and without a lookup service.
+// Bump `version` whenever an entry changes; every region cites the official pages its numbers come from.
+export const CRISIS_DATASET: CrisisDataset = {
+  version: '2026.10.2',
+  reviewed: '2026-10-19',
+  fallback: 'INTL',
+  regions: [
+    {
+      country: 'US',
+      name: 'United States',
+      emergency: '911',
+      contacts: [
+        { name: '988 Suicide & Crisis Lifeline', kind: 'call', value: '988', display: 'Call 988' },
+        { name: '988 Suicide & Crisis Lifeline', kind: 'text', value: '988', display: 'Text 988' },
+        { name: 'Crisis Text Line', kind: 'text', value: '741741', body: 'HOME', display: 'Text HOME to 741741' }
+      ],
+      sources: ['https://988lifeline.org', 'https://www.crisistextline.org']
+    },
+    {
+      country: 'CA',
+      name: 'Canada',
+      emergency: '911',
+      contacts: [
+        { name: '9-8-8 Suicide Crisis Helpline', kind: 'call', value: '988', display: 'Call 9-8-8' },
+        { name: '9-8-8 Suicide Crisis Helpline', kind: 'text', value: '988', display: 'Text 9-8-8' },
+        { name: 'Kids Help Phone', kind: 'text', value: '686868', body: 'CONNECT', display: 'Text CONNECT to 686868' }
+      ],
+      sources: ['https://988.ca', 'https://kidshelpphone.ca']
+    },
+    {
+      country: 'GB',
+      name: 'United Kingdom',
+      emergency: '999',
+      contacts: [
+        { name: 'Samaritans', kind: 'call', value: '116123', display: 'Call 116 123' },
+        { name: 'Shout', kind: 'text', value: '85258', body: 'SHOUT', display: 'Text SHOUT to 85258' }
+      ],
+      sources: ['https://www.samaritans.org', 'https://giveusashout.org']
+    },
+    {
+      country: 'IE',
+      name: 'Ireland',
+      emergency: '112',
+      contacts: [
+        { name: 'Samaritans', kind: 'call', value: '116123', display: 'Call 116 123' },
+        { name: '50808', kind: 'text', value: '50808', body: 'HELLO', display: 'Text HELLO to 50808' }
+      ],
+      sources: ['https://www.samaritans.org/ireland', 'https://50808.ie']
+    },
+    {
+      country: 'AU',
+      name: 'Australia',
+      emergency: '000',
+      contacts: [
+        { name: 'Lifeline', kind: 'call', value: '131114', display: 'Call 13 11 14' },
+        { name: 'Lifeline', kind: 'text', value: '0477131114', display: 'Text 0477 13 11 14' },
+        { name: 'Beyond Blue', kind: 'call', value: '1300224636', display: 'Call 1300 22 4636' }
+      ],
+      sources: ['https://www.lifeline.org.au', 'https://www.beyondblue.org.au']
+    },
+    {
+      country: 'NZ',
+      name: 'New Zealand',
+      emergency: '111',
+      contacts: [
+        { name: 'Need to talk?', kind: 'call', value: '1737', display: 'Call 1737' },
+        { name: 'Need to talk?', kind: 'text', value: '1737', display: 'Text 1737' },
+        { name: 'Lifeline Aotearoa', kind: 'call', value: '0800543354', display: 'Call 0800 543 354' }
+      ],
+      sources: ['https://1737.org.nz', 'https://www.lifeline.org.nz']
+    },
+    {
+      country: 'DE',
+      name: 'Deutschland',
+      emergency: '112',
+      contacts: [
+        { name: 'TelefonSeelsorge', kind: 'call', value: '08001110111', display: 'Anrufen: 0800 111 0 111' },
+        { name: 'TelefonSeelsorge', kind: 'call', value: '08001110222', display: 'Anrufen: 0800 111 0 222' }
+      ],
+      sources: ['https://www.telefonseelsorge.de']
+    },
+    {
+      country: 'FR',
+      name: 'France',
+      emergency: '112',
+      contacts: [
+        { name: 'Numéro national de prévention du suicide', kind: 'call', value: '3114', display: 'Appeler le 3114' }
+      ],
+      sources: ['https://3114.fr']
+    },
+    {
+      country: 'ES',
+      name: 'España',
+      emergency: '112',
+      contacts: [
+        { name: 'Línea 024 de atención a la conducta suicida', kind: 'call', value: '024', display: 'Llamar al 024' }
+      ],
+      sources: ['https://www.sanidad.gob.es/linea024/']
+    },
+    {
+      country: 'NL',
+      name: 'Nederland',
+      emergency: '112',
+      contacts: [
+        { name: '113 Zelfmoordpreventie', kind: 'call', value: '113', display: 'Bel 113' },
+        { name: '113 Zelfmoordpreventie', kind: 'call', value: '08000113', display: 'Bel 0800-0113' }
+      ],
+      sources: ['https://www.113.nl']
+    },
+    {
+      country: 'IN',
+      name: 'India',
+      emergency: '112',
+      contacts: [
+        { name: 'Tele-MANAS', kind: 'call', value: '14416', display: 'Call 14416' },
+        { name: 'Tele-MANAS', kind: 'call', value: '18008914416', display: 'Call 1-800-891-4416' }
+      ],
+      sources: ['https://telemanas.mohfw.gov.in']
+    },
+    {
+      country: 'JP',
+      name: '日本',
+      emergency: '119',
+      contacts: [
+        { name: 'いのちの電話', kind: 'call', value: '0570783556', display: '0570-783-556' },
+        { name: 'よりそいホットライン', kind: 'call', value: '0120279338', display: '0120-279-338' }
+      ],
+      sources: ['https://www.inochinodenwa.org', 'https://www.since2011.net/yorisoi/']
+    },
+    {
+      country: 'BR',
+      name: 'Brasil',
+      emergency: '192',
+      contacts: [
+        { name: 'CVV – Centro de Valorização da Vida', kind: 'call', value: '188', display: 'Ligar 188' }
+      ],
+      sources: ['https://cvv.org.br']
+    },
+    {
+      country: 'MX',
+      name: 'México',
+      emergency: '911',
+      contacts: [
+        { name: 'Línea de la Vida', kind: 'call', value: '8009112000', display: 'Llamar 800 911 2000' }
+      ],
+      sources: ['https://www.gob.mx/salud/conadic']
+    },
+    {
+      country: 'ZA',
+      name: 'South Africa',
+      emergency: '112',
+      contacts: [
+        { name: 'SADAG Suicide Crisis Helpline', kind: 'call', value: '0800567567', display: 'Call 0800 567 567' }
+      ],
+      sources: ['https://www.sadag.org']
+    },
+    {
+      country: 'INTL',
+      name: 'Other / international',
+      emergency: '',
+      contacts: [
+        { name: 'Find A Helpline', kind: 'web', value: 'https://findahelpline.com', display: 'Find a helpline near you' }
+      ],
+      sources: ['https://findahelpline.com']
+    }
+  ]
+};
+
@@ -0,0 +1,158 @@
+// Offline shell and check-in reminders.
+// Same-origin requests are network-first so updates show up straight away; the cache is only a fallback.
+// Libraries and fonts from CDNs are versioned URLs, so they're served from cache and refreshed in the background.
+
+const SHELL_CACHE = 'echotherapy-shell-v1';
+const STATE_CACHE = 'echotherapy-state';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+// The hashed bundle, filled in by the build (see vite.config.ts). The page loads it before registering
+// this worker, so it would otherwise never be cached and an offline reload would be blank.
+const BUILD_URLS = [/* build assets */];
+// Loaded by index.html before the worker exists too; cached best-effort since they are cross-origin
+const CDN_URLS = ['https://cdn.tailwindcss.com', 'https://fonts.googleapis.com/css2?family=Quicksand:wght@300;400;500;600;700&display=swap'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const REMINDERS_KEY = '/__reminders';
+const REMINDER_SYNC_TAG = 'echotherapy-checkin';
+// A reminder missed while the browser slept is still shown if it is at most this late
+const REMINDER_GRACE_MS = 3 * 60 * 60 * 1000;
+
+const precacheCdn = cache =>
+  Promise.all(CDN_URLS.map(url =>
+    fetch(url, { mode: 'no-cors' })
+      .then(response => cache.put(url, response))
+      .catch(err => console.warn('Could not precache', url, err))
+  ));
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => Promise.all([cache.addAll([...SHELL_URLS, ...BUILD_URLS]), precacheCdn(cache)]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('echotherapy-shell') && key !== SHELL_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    // Any page of the app is the same single-page shell
+    if (cached) return cached;
+    if (request.mode === 'navigate') return cache.match('/index.html');
+    throw err;
+  }
+};
+
+const staleWhileRevalidate = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(err => {
+      if (!cached) throw err;
+    });
+  return cached || refresh;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return; // analysis calls are POSTs and must never be cached
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Reminder settings are posted by the page, since a worker can't read localStorage
+
+const readReminders = async () => {
+  const response = await (await caches.open(STATE_CACHE)).match(REMINDERS_KEY);
+  return response ? response.json() : null;
+};
+
+const writeReminders = async state => {
+  const cache = await caches.open(STATE_CACHE);
+  await cache.put(REMINDERS_KEY, new Response(JSON.stringify(state), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+const minutesOf = time => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Quiet hours may wrap past midnight, e.g. 22:00 to 07:00
+const inQuietHours = (reminders, date) => {
+  const start = minutesOf(reminders.quietStart);
+  const end = minutesOf(reminders.quietEnd);
+  const now = date.getHours() * 60 + date.getMinutes();
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+// The most recent reminder time that has passed, if it is within the grace window
+const dueReminder = (reminders, now) => {
+  let latest = null;
+  for (const time of reminders.times) {
+    const at = new Date(now);
+    const minutes = minutesOf(time);
+    at.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    if (at.getTime() > now.getTime()) at.setDate(at.getDate() - 1);
+    if (latest === null || at.getTime() > latest) latest = at.getTime();
+  }
+  return latest !== null && now.getTime() - latest <= REMINDER_GRACE_MS ? latest : null;
+};
+
+const checkReminders = async () => {
+  const state = await readReminders();
+  if (!state || !state.reminders.enabled || Notification.permission !== 'granted') return;
+  const now = new Date();
+  const due = dueReminder(state.reminders, now);
+  if (due === null || (state.lastShownAt ?? 0) >= due || inQuietHours(state.reminders, now)) return;
+  await self.registration.showNotification('Time for a check-in', {
+    body: 'How are you feeling right now? Take a minute to share it.',
+    icon: '/icon.svg',
+    badge: '/icon.svg',
+    tag: REMINDER_SYNC_TAG
+  });
+  await writeReminders({ ...state, lastShownAt: now.getTime() });
+};
+
+self.addEventListener('message', event => {
+  const { data } = event;
+  if (data?.type === 'reminders') {
+    event.waitUntil(readReminders().then(state => writeReminders({ reminders: data.reminders, lastShownAt: state?.lastShownAt ?? Date.now() })));
+  } else if (data?.type === 'check-reminders') {
+    event.waitUntil(checkReminders());
+  }
+});
+
+// Only some browsers wake an installed app periodically; elsewhere reminders need the tab open
+self.addEventListener('periodicsync', event => {
+  if (event.tag === REMINDER_SYNC_TAG) event.waitUntil(checkReminders());
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => 'focus' in client);
+      return open ? open.focus() : self.clients.openWindow('/');
+    })
+  );
+});
@@ -0,0 +1,76 @@
+// Model payloads as they arrive from the provider, before validation
+
+export const validPayload = {
+  emotion: 'Anxious',
+  empathySummary: 'It sounds like a lot is pressing on you at once.',
+  copingPlan: ['Take five slow breaths', 'Write down the one thing you can do next', 'Step outside for a minute'],
+  affirmationText: 'You are allowed to take this one step at a time.',
+  distressScore: 0.55,
+  flowerConfig: {
+    baseColor: '#8B5CF6',
+    intensity: 6,
+    bloomSpeed: 2,
+    style: 'trembling',
+    secondaryColors: ['#6366F1'],
+    blend: [
+      { emotion: 'anxious', style: 'trembling', weight: 0.7 },
+      { emotion: 'sad', style: 'drooping', weight: 0.3 }
+    ],
+    seed: 4242
+  }
+};
+
+const withFlower = (patch: Record<string, unknown>) => ({
+  ...validPayload,
+  flowerConfig: { ...validPayload.flowerConfig, ...patch }
+});
+
+export const badHexColor = withFlower({ baseColor: 'purple-ish' });
+
+export const shortHexColor = withFlower({ baseColor: '8b5' });
+
+export const intensityTooHigh = withFlower({ intensity: 14 });
+
+export const intensityAsString = withFlower({ intensity: '7' });
+
+export const intensityMissing = withFlower({ intensity: undefined });
+
+export const distressTooHigh = { ...validPayload, distressScore: 1.7 };
+
+export const distressNegative = { ...validPayload, distressScore: -0.2 };
+
+export const distressMissing = { ...validPayload, distressScore: undefined };
+
+export const unknownStyle = withFlower({ style: 'wilting', blend: undefined });
+
+export const unknownStyleUnmatchedEmotion = { ...unknownStyle, emotion: 'Puzzled' };
+
+export const copingPlanTooLong = {
+  ...validPayload,
+  copingPlan: [...validPayload.copingPlan, 'Call a friend', 'Drink some water']
+};
+
+export const copingPlanTooShort = { ...validPayload, copingPlan: ['Take five slow breaths'] };
+
+export const copingPlanWithBlanks = {
+  ...validPayload,
+  copingPlan: ['Take five slow breaths', '', 42, 'Write it down', 'Step outside']
+};
+
+export const blendWeightsOff = withFlower({
+  blend: [
+    { emotion: 'anxious', style: 'trembling', weight: 3 },
+    { emotion: 'sad', style: 'drooping', weight: 1 }
+  ]
+});
+
+export const blendWrongLead = withFlower({
+  blend: [
+    { emotion: 'sad', style: 'drooping', weight: 0.8 },
+    { emotion: 'anxious', style: 'trembling', weight: 0.2 }
+  ]
+});
+
+export const seedMissing = withFlower({ seed: undefined });
+
+export const emptyText = { ...validPayload, empathySummary: '   ', affirmationText: '' };
@@ -0,0 +1,23 @@
+// Shared accessibility helpers: motion preference and focus moves between views
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches;
+
+// Shaped for useSyncExternalStore, so components follow the setting if it changes while open
+export const subscribeReducedMotion = (onChange: () => void): (() => void) => {
+  const query = typeof window !== 'undefined' ? window.matchMedia?.(REDUCED_MOTION_QUERY) : undefined;
+  if (!query) return () => undefined;
+  query.addEventListener('change', onChange);
+  return () => query.removeEventListener('change', onChange);
+};
+
+// Moves focus to the first heading in a view that just appeared, so keyboard and screen reader
+// users land on what changed instead of being left on a button that no longer exists
+export const focusHeading = (container: HTMLElement | null) => {
+  if (!container) return;
+  const target = container.matches('h1, h2, h3') ? container : container.querySelector<HTMLElement>('h1, h2, h3') ?? container;
+  if (!target.hasAttribute('tabindex')) target.setAttribute('tabindex', '-1');
+  target.focus({ preventScroll: false });
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { computeAcousticFeatures } from './acousticFeatures';
+
+// Features are measured at 8kHz
+const SAMPLE_RATE = 8000;
+
+// A steady tone with silence either side, so the noise floor estimate has something quiet to go on
+const tone = (hz: number, seconds: number, amplitude = 0.5, padding = 0.5) => {
+  const pad = Math.round(padding * SAMPLE_RATE);
+  const samples = new Float32Array(pad * 2 + Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length - pad * 2; i++) {
+    samples[pad + i] = amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE);
+  }
+  return samples;
+};
+
+describe('computeAcousticFeatures', () => {
+  it('finds the pitch of a known sine wave', () => {
+    for (const hz of [120, 200, 300]) {
+      const features = computeAcousticFeatures(tone(hz, 2));
+      expect(Math.abs((features.medianPitchHz ?? 0) - hz), `${hz}Hz`).toBeLessThanOrEqual(2);
+      expect(features.pitchTrend).toBe('steady');
+    }
+  });
+
+  it('measures loudness and timing of the tone', () => {
+    const features = computeAcousticFeatures(tone(200, 2));
+    expect(features.durationSeconds).toBe(3);
+    // RMS of a 0.5 sine is 0.354, about -9 dBFS
+    expect(features.energyDb).toBe(-9);
+    expect(features.pauseRatio).toBe(0);
+    expect(features.pitchContour.some(hz => Math.abs(hz - 200) <= 2)).toBe(true);
+  });
+
+  it('returns no pitch or loudness for silence', () => {
+    const features = computeAcousticFeatures(new Float32Array(2 * SAMPLE_RATE));
+    expect(features.medianPitchHz).toBeNull();
+    expect(features.pitchTrend).toBeNull();
+    expect(features.energyDb).toBeNull();
+    expect(features.speakingRate).toBeNull();
+    expect(features.pitchContour.every(hz => hz === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,276 @@
+import { AcousticFeatures, PitchTrend } from "../types";
+import { decodeAudio, renderMono } from "./mediaPreprocess";
+
+// Voice pitch lives well below 4kHz, so 8kHz keeps the autocorrelation cheap without losing anything
+const SAMPLE_RATE = 8000;
+const FRAME_SECONDS = 0.04;
+const HOP_SECONDS = 0.02;
+const MIN_PITCH_HZ = 75;
+const MAX_PITCH_HZ = 400;
+// Normalised autocorrelation a frame needs before its pitch is trusted
+const VOICING_THRESHOLD = 0.5;
+// Silences shorter than this are just gaps between words
+const MIN_PAUSE_SECONDS = 0.25;
+// Syllable nuclei: energy peaks at least this far apart and this much above the surrounding dip
+const MIN_SYLLABLE_GAP_SECONDS = 0.1;
+const SYLLABLE_PROMINENCE_DB = 2;
+const CONTOUR_STEP_SECONDS = 0.1;
+const MAX_CONTOUR_POINTS = 300;
+
+interface Frame {
+  time: number;
+  rms: number;
+  pitch: number | null; // Hz, null when unvoiced
+}
+
+const toDb = (rms: number) => 20 * Math.log10(Math.max(rms, 1e-5));
+
+const percentile = (values: number[], p: number) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+const stdDev = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+
+const semitones = (hz: number, reference: number) => 12 * Math.log2(hz / reference);
+
+// Normalised autocorrelation over the plausible pitch lags; good enough for speech, not for singing
+const detectPitch = (samples: Float32Array, start: number, length: number): number | null => {
+  const minLag = Math.floor(SAMPLE_RATE / MAX_PITCH_HZ);
+  const maxLag = Math.min(length - 2, Math.ceil(SAMPLE_RATE / MIN_PITCH_HZ));
+  // Running energy so each lag is normalised over exactly the samples it compares
+  const energy = new Float64Array(length + 1);
+  for (let i = 0; i < length; i++) energy[i + 1] = energy[i] + samples[start + i] ** 2;
+  if (energy[length] === 0) return null;
+
+  const r = new Float64Array(maxLag + 2);
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < length; i++) sum += samples[start + i] * samples[start + i + lag];
+    const head = energy[length - lag];
+    const tail = energy[length] - energy[lag];
+    r[lag] = head > 0 && tail > 0 ? sum / Math.sqrt(head * tail) : 0;
+    if (lag <= maxLag) best = Math.max(best, r[lag]);
+  }
+  if (best < VOICING_THRESHOLD) return null;
+
+  // The first peak nearly as strong as the best is the true period; later ones are its multiples
+  for (let lag = minLag + 1; lag <= maxLag; lag++) {
+    if (r[lag] >= 0.9 * best && r[lag] >= r[lag - 1] && r[lag] >= r[lag + 1]) {
+      // Parabolic interpolation between neighbouring lags for sub-sample precision
+      const denominator = r[lag - 1] - 2 * r[lag] + r[lag + 1];
+      const offset = denominator ? (0.5 * (r[lag - 1] - r[lag + 1])) / denominator : 0;
+      return SAMPLE_RATE / (lag + offset);
+    }
+  }
+  return null;
+};
+
+const analyseFrames = (samples: Float32Array): Frame[] => {
+  const frameLength = Math.round(FRAME_SECONDS * SAMPLE_RATE);
+  const hop = Math.round(HOP_SECONDS * SAMPLE_RATE);
+  const frames: Frame[] = [];
+  for (let start = 0; start + frameLength <= samples.length; start += hop) {
+    let sum = 0;
+    for (let i = start; i < start + frameLength; i++) sum += samples[i] * samples[i];
+    frames.push({ time: start / SAMPLE_RATE, rms: Math.sqrt(sum / frameLength), pitch: null });
+  }
+
+  // Speech sits well above the room's noise floor; the quietest tenth of frames estimates that floor
+  const floor = percentile(frames.map(f => f.rms), 0.1);
+  const speechThreshold = Math.max(0.01, floor * 3);
+  for (const frame of frames) {
+    if (frame.rms >= speechThreshold) {
+      frame.pitch = detectPitch(samples, Math.round(frame.time * SAMPLE_RATE), frameLength);
+    }
+  }
+  return frames.map(frame => (frame.rms >= speechThreshold ? frame : { ...frame, rms: 0 }));
+};
+
+// Counts energy peaks inside speech as syllables, the usual way to estimate rate without a transcript
+const countSyllables = (frames: Frame[]) => {
+  const minGap = Math.round(MIN_SYLLABLE_GAP_SECONDS / HOP_SECONDS);
+  const db = frames.map(f => (f.rms > 0 ? toDb(f.rms) : -Infinity));
+  let count = 0;
+  let lastPeak = -minGap;
+  let dip = Infinity;
+  for (let i = 1; i < db.length - 1; i++) {
+    dip = Math.min(dip, db[i]);
+    const isPeak = db[i] > db[i - 1] && db[i] >= db[i + 1] && frames[i].pitch !== null;
+    if (isPeak && i - lastPeak >= minGap && db[i] - dip >= SYLLABLE_PROMINENCE_DB) {
+      count++;
+      lastPeak = i;
+      dip = db[i];
+    }
+  }
+  return count;
+};
+
+const pitchTrend = (voiced: Frame[], reference: number): PitchTrend | null => {
+  if (voiced.length < 10) return null;
+  // Least-squares slope in semitones per second
+  const xs = voiced.map(f => f.time);
+  const ys = voiced.map(f => semitones(f.pitch as number, reference));
+  const mx = mean(xs);
+  const my = mean(ys);
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < xs.length; i++) {
+    num += (xs[i] - mx) * (ys[i] - my);
+    den += (xs[i] - mx) ** 2;
+  }
+  const slope = den ? num / den : 0;
+  const span = xs[xs.length - 1] - xs[0];
+  // Compare the drift over the whole recording to a couple of semitones
+  const drift = slope * span;
+  return drift > 2 ? 'rising' : drift < -2 ? 'falling' : 'steady';
+};
+
+// Frame-to-frame period jitter. True jitter is cycle-to-cycle; this is a coarser stand-in that still tracks a shaky voice.
+const jitterPercent = (frames: Frame[]) => {
+  const diffs: number[] = [];
+  const periods: number[] = [];
+  for (let i = 1; i < frames.length; i++) {
+    const a = frames[i - 1].pitch;
+    const b = frames[i].pitch;
+    if (a === null || b === null) continue;
+    // Octave jumps are tracking errors, not jitter
+    if (Math.abs(semitones(b, a)) > 3) continue;
+    diffs.push(Math.abs(1 / b - 1 / a));
+    periods.push(1 / a);
+  }
+  return diffs.length >= 10 ? (mean(diffs) / mean(periods)) * 100 : null;
+};
+
+const pitchContour = (frames: Frame[]) => {
+  const duration = frames.length ? frames[frames.length - 1].time + HOP_SECONDS : 0;
+  const step = Math.max(CONTOUR_STEP_SECONDS, duration / MAX_CONTOUR_POINTS);
+  const framesPerStep = Math.max(1, Math.round(step / HOP_SECONDS));
+  const contour: number[] = [];
+  for (let i = 0; i < frames.length; i += framesPerStep) {
+    const pitches = frames.slice(i, i + framesPerStep).map(f => f.pitch).filter((p): p is number => p !== null);
+    contour.push(pitches.length ? Math.round(percentile(pitches, 0.5)) : 0);
+  }
+  return { contour, step };
+};
+
+export const computeAcousticFeatures = (samples: Float32Array): AcousticFeatures => {
+  const frames = analyseFrames(samples);
+  const durationSeconds = samples.length / SAMPLE_RATE;
+  const speechFrames = frames.filter(f => f.rms > 0);
+  const voiced = frames.filter(f => f.pitch !== null);
+
+  // Pauses are only counted between the first and last speech, not the silence around it
+  const firstSpeech = frames.findIndex(f => f.rms > 0);
+  let lastSpeech = -1;
+  for (let i = frames.length - 1; i >= 0; i--) {
+    if (frames[i].rms > 0) {
+      lastSpeech = i;
+      break;
+    }
+  }
+  let pausedFrames = 0;
+  let run = 0;
+  const minPauseFrames = Math.round(MIN_PAUSE_SECONDS / HOP_SECONDS);
+  for (let i = Math.max(0, firstSpeech); i <= lastSpeech; i++) {
+    if (frames[i].rms === 0) {
+      run++;
+    } else {
+      if (run >= minPauseFrames) pausedFrames += run;
+      run = 0;
+    }
+  }
+  const spanFrames = lastSpeech >= firstSpeech && firstSpeech >= 0 ? lastSpeech - firstSpeech + 1 : 0;
+  const speakingSeconds = (spanFrames - pausedFrames) * HOP_SECONDS;
+
+  const pitches = voiced.map(f => f.pitch as number);
+  const medianPitch = pitches.length ? percentile(pitches, 0.5) : null;
+  const { contour, step } = pitchContour(frames);
+  const energies = speechFrames.map(f => toDb(f.rms));
+  const jitter = jitterPercent(frames);
+
+  return {
+    durationSeconds: Math.round(durationSeconds * 10) / 10,
+    speakingRate: speakingSeconds > 1 ? Math.round((countSyllables(frames) / speakingSeconds) * 10) / 10 : null,
+    pauseRatio: spanFrames ? Math.round((pausedFrames / spanFrames) * 100) / 100 : null,
+    medianPitchHz: medianPitch === null ? null : Math.round(medianPitch),
+    pitchRangeSemitones: medianPitch === null || pitches.length < 10
+      ? null
+      : Math.round((semitones(percentile(pitches, 0.9), medianPitch) - semitones(percentile(pitches, 0.1), medianPitch)) * 10) / 10,
+    pitchTrend: medianPitch === null ? null : pitchTrend(voiced, medianPitch),
+    energyDb: energies.length ? Math.round(mean(energies)) : null,
+    energyVariabilityDb: energies.length ? Math.round(stdDev(energies) * 10) / 10 : null,
+    jitterPercent: jitter === null ? null : Math.round(jitter * 10) / 10,
+    pitchContour: contour,
+    contourStepSeconds: Math.round(step * 100) / 100
+  };
+};
+
+// Decodes a recording (audio, or the soundtrack of a video) and measures it. Null when there's no usable audio.
+export const extractAcousticFeatures = async (recording: Blob): Promise<AcousticFeatures | null> => {
+  const samples = await renderMono(await decodeAudio(recording), 0, undefined, SAMPLE_RATE);
+  const features = computeAcousticFeatures(samples);
+  return features.energyDb === null ? null : features;
+};
+
+export interface AcousticReading {
+  label: string;
+  value: string;
+  note: string;
+}
+
+// Plain-language readings for the "what we heard" panel. Bands are rough conversational norms.
+export const describeAcoustics = (features: AcousticFeatures): AcousticReading[] => {
+  const readings: AcousticReading[] = [];
+  if (features.speakingRate !== null) {
+    const rate = features.speakingRate;
+    readings.push({
+      label: 'Pace',
+      value: `${rate} syllables/sec`,
+      note: rate < 3 ? 'Slower than usual conversation' : rate > 5.5 ? 'Quicker than usual conversation' : 'An everyday conversational pace'
+    });
+  }
+  if (features.pauseRatio !== null) {
+    const ratio = features.pauseRatio;
+    readings.push({
+      label: 'Pauses',
+      value: `${Math.round(ratio * 100)}% of the time`,
+      note: ratio > 0.35 ? 'Lots of space between thoughts' : ratio < 0.1 ? 'Hardly any pauses' : 'Some natural pauses'
+    });
+  }
+  if (features.medianPitchHz !== null) {
+    const range = features.pitchRangeSemitones;
+    const trend = features.pitchTrend === 'rising' ? ', drifting higher' : features.pitchTrend === 'falling' ? ', drifting lower' : '';
+    readings.push({
+      label: 'Pitch',
+      value: `Around ${features.medianPitchHz} Hz`,
+      note: range === null
+        ? `Your voice's typical pitch${trend}`
+        : `${range < 4 ? 'A fairly flat, even tone' : range > 10 ? 'A very animated tone' : 'Some natural rise and fall'}${trend}`
+    });
+  }
+  if (features.energyDb !== null) {
+    const variability = features.energyVariabilityDb ?? 0;
+    readings.push({
+      label: 'Loudness',
+      value: `${features.energyDb} dBFS`,
+      note: variability < 4 ? 'Evenly spoken' : variability > 8 ? 'Loudness swung quite a bit' : 'Some changes in loudness'
+    });
+  }
+  if (features.jitterPercent !== null) {
+    const jitter = features.jitterPercent;
+    readings.push({
+      label: 'Steadiness',
+      value: `${jitter}% jitter`,
+      note: jitter < 2 ? 'A steady voice' : jitter > 5 ? 'Some shakiness in the voice' : 'Mostly steady, a little wobble'
+    });
+  }
+  return readings;
+};
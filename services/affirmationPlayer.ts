@@ -0,0 +1,147 @@
+// Playback for the spoken affirmation. AudioBufferSourceNodes are one-shot,
+// so pause and seek stop the current node and start a fresh one at the saved offset.
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25];
+export const REPEAT_OPTIONS = [1, 2, 3];
+
+export interface PlayerState {
+  playing: boolean;
+  duration: number; // seconds
+  rate: number;
+  volume: number; // 0–1
+  repeat: number; // total plays per press of play
+  playsDone: number;
+}
+
+export interface AffirmationPlayer {
+  load: (buffer: AudioBuffer | null) => void;
+  play: () => Promise<void>;
+  pause: () => void;
+  toggle: () => void;
+  seek: (seconds: number) => void;
+  position: () => number;
+  setRate: (rate: number) => void;
+  setVolume: (volume: number) => void;
+  setRepeat: (repeat: number) => void;
+  buffer: () => AudioBuffer | null;
+}
+
+export const INITIAL_PLAYER_STATE: PlayerState = {
+  playing: false,
+  duration: 0,
+  rate: 1,
+  volume: 1,
+  repeat: 1,
+  playsDone: 0
+};
+
+export const createAffirmationPlayer = (
+  getContext: () => AudioContext,
+  onChange: (state: PlayerState) => void
+): AffirmationPlayer => {
+  let state = INITIAL_PLAYER_STATE;
+  let buffer: AudioBuffer | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let gain: GainNode | null = null;
+  // Where in the buffer playback (re)started, and the context time it did so
+  let offset = 0;
+  let startedAt = 0;
+
+  const update = (changes: Partial<PlayerState>) => {
+    state = { ...state, ...changes };
+    onChange(state);
+  };
+
+  const position = () => {
+    if (!source) return offset;
+    const elapsed = (getContext().currentTime - startedAt) * state.rate;
+    return Math.min(state.duration, offset + elapsed);
+  };
+
+  const halt = () => {
+    if (!source) return;
+    source.onended = null;
+    source.stop();
+    source.disconnect();
+    source = null;
+  };
+
+  const start = (from: number) => {
+    const ctx = getContext();
+    halt();
+    if (!gain) {
+      gain = ctx.createGain();
+      gain.connect(ctx.destination);
+    }
+    gain.gain.value = state.volume;
+
+    const node = ctx.createBufferSource();
+    node.buffer = buffer;
+    node.playbackRate.value = state.rate;
+    node.connect(gain);
+    node.onended = () => {
+      source = null;
+      offset = 0;
+      const playsDone = state.playsDone + 1;
+      if (playsDone < state.repeat) {
+        update({ playsDone });
+        start(0);
+      } else {
+        update({ playing: false, playsDone: 0 });
+      }
+    };
+    offset = from;
+    startedAt = ctx.currentTime;
+    node.start(0, from);
+    source = node;
+  };
+
+  const play = async () => {
+    if (!buffer) return;
+    const ctx = getContext();
+    // Resume context if suspended (browser policy)
+    if (ctx.state === 'suspended') await ctx.resume();
+    const from = offset >= state.duration ? 0 : offset;
+    start(from);
+    update({ playing: true });
+  };
+
+  const pause = () => {
+    offset = position();
+    halt();
+    update({ playing: false });
+  };
+
+  return {
+    load: next => {
+      halt();
+      buffer = next;
+      offset = 0;
+      update({ playing: false, playsDone: 0, duration: next?.duration ?? 0 });
+    },
+    play,
+    pause,
+    toggle: () => (state.playing ? pause() : play()),
+    seek: seconds => {
+      const target = Math.max(0, Math.min(state.duration, seconds));
+      if (state.playing) start(target);
+      else offset = target;
+      onChange(state);
+    },
+    position,
+    setRate: rate => {
+      if (source) {
+        offset = position();
+        startedAt = getContext().currentTime;
+        source.playbackRate.value = rate;
+      }
+      update({ rate });
+    },
+    setVolume: volume => {
+      if (gain) gain.gain.value = volume;
+      update({ volume });
+    },
+    setRepeat: repeat => update({ repeat, playsDone: 0 }),
+    buffer: () => buffer
+  };
+};
@@ -0,0 +1,19 @@
+import { AnalysisProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+const PROVIDERS: Record<string, AnalysisProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+// Chosen at build time from ANALYSIS_PROVIDER in .env.local; defaults to Gemini
+export const getAnalysisProvider = (): AnalysisProvider => {
+  const name = (process.env.ANALYSIS_PROVIDER || 'gemini').toLowerCase();
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    console.warn(`Unknown ANALYSIS_PROVIDER "${name}", falling back to gemini`);
+    return geminiProvider;
+  }
+  return provider;
+};
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { FLOWER_STYLES } from '../constants';
+import { parseAnalysisResult, validateAnalysisResult } from './analysisValidation';
+import * as payloads from './__fixtures__/analysisPayloads';
+
+const accepted = (raw: unknown) => {
+  const outcome = validateAnalysisResult(raw);
+  if ('issues' in outcome) throw new Error(`expected a valid result, got: ${outcome.issues.join('; ')}`);
+  return outcome;
+};
+
+const rejected = (raw: unknown) => {
+  const outcome = validateAnalysisResult(raw);
+  if (!('issues' in outcome)) throw new Error('expected the payload to be rejected');
+  return outcome.issues;
+};
+
+describe('validateAnalysisResult', () => {
+  it('accepts a well-formed payload without repairs', () => {
+    const { result, repairs } = accepted(payloads.validPayload);
+    expect(repairs).toEqual([]);
+    expect(result.flowerConfig.style).toBe('trembling');
+    expect(result.copingPlan).toHaveLength(3);
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(rejected(null)).toEqual(['response is not a JSON object']);
+    expect(rejected([payloads.validPayload])).toEqual(['response is not a JSON object']);
+  });
+
+  describe('baseColor', () => {
+    it('replaces an unreadable color with the style default', () => {
+      const { result, repairs } = accepted(payloads.badHexColor);
+      expect(result.flowerConfig.baseColor).toBe(FLOWER_STYLES.trembling.color);
+      expect(repairs.some(r => r.startsWith('flowerConfig.baseColor'))).toBe(true);
+    });
+
+    it('expands and normalizes shorthand hex', () => {
+      const { result, repairs } = accepted(payloads.shortHexColor);
+      expect(result.flowerConfig.baseColor).toBe('#88BB55');
+      expect(repairs).toContain('flowerConfig.baseColor normalized to #88BB55');
+    });
+  });
+
+  describe('intensity', () => {
+    it('clamps values above the range', () => {
+      const { result, repairs } = accepted(payloads.intensityTooHigh);
+      expect(result.flowerConfig.intensity).toBe(10);
+      expect(repairs).toContain('flowerConfig.intensity 14 → 10');
+    });
+
+    it('reads numeric strings', () => {
+      expect(accepted(payloads.intensityAsString).result.flowerConfig.intensity).toBe(7);
+    });
+
+    it('falls back to the middle when missing', () => {
+      expect(accepted(payloads.intensityMissing).result.flowerConfig.intensity).toBe(5);
+    });
+  });
+
+  describe('distressScore', () => {
+    it('clamps out-of-range scores', () => {
+      expect(accepted(payloads.distressTooHigh).result.distressScore).toBe(1);
+      expect(accepted(payloads.distressNegative).result.distressScore).toBe(0);
+    });
+
+    it('never guesses a missing score', () => {
+      expect(rejected(payloads.distressMissing)).toContain('distressScore is not a number');
+    });
+  });
+
+  describe('style', () => {
+    it('infers an unknown style from the emotion', () => {
+      const { result, repairs } = accepted(payloads.unknownStyle);
+      expect(result.flowerConfig.style).toBe('trembling');
+      expect(repairs).toContain('flowerConfig.style "wilting" → trembling');
+      expect(result.flowerConfig.blend[0]).toMatchObject({ style: 'trembling', weight: 1 });
+    });
+
+    it('uses calm when the emotion gives no hint', () => {
+      expect(accepted(payloads.unknownStyleUnmatchedEmotion).result.flowerConfig.style).toBe('calm');
+    });
+  });
+
+  describe('copingPlan', () => {
+    it('trims a long plan to three steps', () => {
+      const { result, repairs } = accepted(payloads.copingPlanTooLong);
+      expect(result.copingPlan).toEqual(payloads.validPayload.copingPlan);
+      expect(repairs).toContain('copingPlan: trimmed 5 steps to 3');
+    });
+
+    it('rejects a plan with too few steps', () => {
+      expect(rejected(payloads.copingPlanTooShort)).toContain('copingPlan has 1 usable steps, expected 3');
+    });
+
+    it('drops blank and non-text steps', () => {
+      const { result, repairs } = accepted(payloads.copingPlanWithBlanks);
+      expect(result.copingPlan).toEqual(['Take five slow breaths', 'Write it down', 'Step outside']);
+      expect(repairs).toContain('copingPlan: dropped empty or non-text steps');
+    });
+  });
+
+  describe('blend', () => {
+    it('normalizes weights to sum to one', () => {
+      const { result } = accepted(payloads.blendWeightsOff);
+      expect(result.flowerConfig.blend.map(part => part.weight)).toEqual([0.75, 0.25]);
+    });
+
+    it('rebuilds a blend that does not lead with the dominant style', () => {
+      const { result, repairs } = accepted(payloads.blendWrongLead);
+      const [lead, rest] = result.flowerConfig.blend;
+      expect(lead).toMatchObject({ style: 'trembling', emotion: 'anxious' });
+      expect(lead.weight).toBeCloseTo(0.5);
+      expect(rest).toMatchObject({ style: 'drooping' });
+      expect(rest.weight).toBeCloseTo(0.5);
+      expect(repairs).toContain('flowerConfig.blend rebuilt around trembling');
+    });
+  });
+
+  it('gives a missing seed a stored positive integer', () => {
+    const { seed } = accepted(payloads.seedMissing).result.flowerConfig;
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(1);
+  });
+
+  it('rejects empty text fields', () => {
+    const issues = rejected(payloads.emptyText);
+    expect(issues).toContain('empathySummary is missing or empty');
+    expect(issues).toContain('affirmationText is missing or empty');
+  });
+});
+
+describe('parseAnalysisResult', () => {
+  it('reports empty and malformed responses as issues', () => {
+    expect(parseAnalysisResult(undefined)).toEqual({ ok: false, issues: ['empty response'] });
+    expect(parseAnalysisResult('{"emotion": ')).toEqual({ ok: false, issues: ['response is not valid JSON'] });
+  });
+
+  it('validates parsed JSON', () => {
+    expect(parseAnalysisResult(JSON.stringify(payloads.validPayload)).ok).toBe(true);
+  });
+});
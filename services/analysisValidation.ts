@@ -0,0 +1,234 @@
+import { AnalysisResult, EmotionBlendPart, EmotionCue, FlowerConfig, FlowerStyle } from "../types";
+import { FLOWER_STYLES, FLOWER_STYLE_ORDER } from "../constants";
+
+export const COPING_PLAN_LENGTH = 3;
+
+export type ValidationOutcome =
+  | { ok: true; result: AnalysisResult; repairs: string[] }
+  | { ok: false; issues: string[] };
+
+// Raised when the model's output can't be turned into a usable AnalysisResult
+export class AnalysisValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid analysis result: ${issues.join('; ')}`);
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+// Same keyword families the analysis prompt maps to each style
+const STYLE_KEYWORDS: [FlowerStyle, RegExp][] = [
+  ['spiky', /anger|angry|frustrat|irritat|rage|annoy/i],
+  ['drooping', /sad|grief|lonel|down|depress|hopeless|loss/i],
+  ['trembling', /anx|fear|afraid|panic|nervous|worr|stress|overwhelm/i],
+  ['particle', /happ|joy|hope|relief|excite|grateful|content/i],
+  ['calm', /calm|neutral|peace|relax|tired|okay/i]
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const toNumber = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const normalizeHexColor = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3
+    ? match[1].split('').map(c => c + c).join('')
+    : match[1];
+  return `#${hex.toUpperCase()}`;
+};
+
+export const inferStyleFromEmotion = (emotion: string): FlowerStyle | null =>
+  STYLE_KEYWORDS.find(([, pattern]) => pattern.test(emotion))?.[0] ?? null;
+
+// Numeric field: clamp out-of-range values, report the rest
+const checkRange = (
+  raw: unknown,
+  field: string,
+  min: number,
+  max: number,
+  repairs: string[],
+  issues: string[]
+): number => {
+  const n = toNumber(raw);
+  if (n === null) {
+    issues.push(`${field} is not a number`);
+    return min;
+  }
+  const clamped = clamp(n, min, max);
+  if (clamped !== n || typeof raw !== 'number') repairs.push(`${field} ${JSON.stringify(raw)} → ${clamped}`);
+  return clamped;
+};
+
+const MAX_BLEND_PARTS = 3;
+
+// Keeps usable parts, strongest first, with weights summing to 1. The dominant style always leads.
+const validateBlend = (raw: unknown, style: FlowerStyle, emotion: string, repairs: string[]): EmotionBlendPart[] => {
+  const parts = (Array.isArray(raw) ? raw : [])
+    .filter(isRecord)
+    .map(part => ({
+      emotion: nonEmptyString(part.emotion) ? part.emotion.trim().toLowerCase() : '',
+      style: part.style as FlowerStyle,
+      weight: toNumber(part.weight) ?? 0
+    }))
+    .filter(part => part.emotion && FLOWER_STYLE_ORDER.includes(part.style) && part.weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_BLEND_PARTS);
+
+  if (parts.length === 0 || parts[0].style !== style) {
+    if (raw !== undefined) repairs.push(`flowerConfig.blend rebuilt around ${style}`);
+    const rest = parts.filter(part => part.style !== style).slice(0, MAX_BLEND_PARTS - 1);
+    const restWeight = rest.reduce((sum, part) => sum + part.weight, 0);
+    // The dominant feeling keeps at least half when the model disagreed with itself
+    const scale = restWeight > 0.5 ? 0.5 / restWeight : 1;
+    return [
+      { emotion: emotion.toLowerCase() || style, style, weight: 1 - restWeight * scale },
+      ...rest.map(part => ({ ...part, weight: part.weight * scale }))
+    ];
+  }
+
+  const total = parts.reduce((sum, part) => sum + part.weight, 0);
+  if (Math.abs(total - 1) > 0.01) repairs.push(`flowerConfig.blend weights normalized from ${total.toFixed(2)}`);
+  return parts.map(part => ({ ...part, weight: part.weight / total }));
+};
+
+const validateFlowerConfig = (
+  raw: unknown,
+  emotion: string,
+  repairs: string[],
+  issues: string[]
+): FlowerConfig => {
+  const config = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) issues.push('flowerConfig is missing');
+
+  let style = config.style as FlowerStyle;
+  if (!FLOWER_STYLE_ORDER.includes(style)) {
+    const inferred = inferStyleFromEmotion(emotion) ?? 'calm';
+    repairs.push(`flowerConfig.style ${JSON.stringify(config.style)} → ${inferred}`);
+    style = inferred;
+  }
+
+  let baseColor = normalizeHexColor(config.baseColor);
+  if (!baseColor) {
+    baseColor = FLOWER_STYLES[style].color;
+    repairs.push(`flowerConfig.baseColor ${JSON.stringify(config.baseColor)} → ${baseColor}`);
+  } else if (baseColor !== config.baseColor) {
+    repairs.push(`flowerConfig.baseColor normalized to ${baseColor}`);
+  }
+
+  // Missing visual parameters get a neutral middle value rather than failing the session
+  const visualParam = (key: 'intensity' | 'bloomSpeed', min: number, max: number, fallback: number) => {
+    if (toNumber(config[key]) === null) {
+      repairs.push(`flowerConfig.${key} ${JSON.stringify(config[key])} → ${fallback}`);
+      return fallback;
+    }
+    return checkRange(config[key], `flowerConfig.${key}`, min, max, repairs, issues);
+  };
+  const intensity = visualParam('intensity', 1, 10, 5);
+  const bloomSpeed = visualParam('bloomSpeed', 1, 5, 3);
+
+  const blend = validateBlend(config.blend, style, emotion, repairs);
+
+  // Secondary colors follow the rest of the blend; gaps take that style's default color
+  const givenColors = Array.isArray(config.secondaryColors) ? config.secondaryColors.map(normalizeHexColor) : [];
+  const secondaryColors = blend.slice(1).map((part, i) => givenColors[i] ?? FLOWER_STYLES[part.style].color);
+
+  let seed = toNumber(config.seed);
+  if (seed === null || !Number.isInteger(seed) || seed < 1) {
+    // Stored with the result, so the flower still redraws identically from the journal
+    seed = 1 + Math.floor(Math.random() * 999999);
+    repairs.push(`flowerConfig.seed ${JSON.stringify(config.seed)} → ${seed}`);
+  }
+
+  return { baseColor, intensity, bloomSpeed, style, secondaryColors, blend, seed };
+};
+
+// Checks every field of a parsed model payload. Cosmetic problems are repaired in place;
+// anything that would change what we tell the user (text, distress, the plan itself) is an issue.
+export const validateAnalysisResult = (raw: unknown): ValidationOutcome => {
+  const repairs: string[] = [];
+  const issues: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { ok: false, issues: ['response is not a JSON object'] };
+  }
+
+  for (const field of ['emotion', 'empathySummary', 'affirmationText'] as const) {
+    if (!nonEmptyString(raw[field])) issues.push(`${field} is missing or empty`);
+  }
+  const emotion = nonEmptyString(raw.emotion) ? raw.emotion.trim() : '';
+
+  // Never guess a missing distress score: the crisis check depends on it
+  const distressScore = checkRange(raw.distressScore, 'distressScore', 0, 1, repairs, issues);
+
+  let copingPlan: string[] = [];
+  if (!Array.isArray(raw.copingPlan)) {
+    issues.push('copingPlan is not a list');
+  } else {
+    copingPlan = raw.copingPlan.filter(nonEmptyString).map(step => step.trim());
+    if (copingPlan.length !== raw.copingPlan.length) repairs.push('copingPlan: dropped empty or non-text steps');
+    if (copingPlan.length > COPING_PLAN_LENGTH) {
+      repairs.push(`copingPlan: trimmed ${copingPlan.length} steps to ${COPING_PLAN_LENGTH}`);
+      copingPlan = copingPlan.slice(0, COPING_PLAN_LENGTH);
+    } else if (copingPlan.length < COPING_PLAN_LENGTH) {
+      issues.push(`copingPlan has ${copingPlan.length} usable steps, expected ${COPING_PLAN_LENGTH}`);
+    }
+  }
+
+  const flowerConfig = validateFlowerConfig(raw.flowerConfig, emotion, repairs, issues);
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  return {
+    ok: true,
+    repairs,
+    result: {
+      emotion,
+      empathySummary: (raw.empathySummary as string).trim(),
+      copingPlan,
+      flowerConfig,
+      affirmationText: (raw.affirmationText as string).trim(),
+      distressScore
+    }
+  };
+};
+
+// Parses raw model text and validates it; JSON syntax errors become issues too
+export const parseAnalysisResult = (text: string | undefined): ValidationOutcome => {
+  if (!text) return { ok: false, issues: ['empty response'] };
+  try {
+    return validateAnalysisResult(JSON.parse(text));
+  } catch {
+    return { ok: false, issues: ['response is not valid JSON'] };
+  }
+};
+
+// Live cues are provisional and never drive the crisis check, so anything usable is accepted
+export const parseEmotionCue = (text: string | undefined): Omit<EmotionCue, 'atSeconds'> | null => {
+  try {
+    const raw = text ? JSON.parse(text) : null;
+    if (!isRecord(raw) || !nonEmptyString(raw.emotion)) return null;
+    const flower = validateFlowerConfig(raw.flowerConfig, raw.emotion, [], []);
+    return {
+      emotion: raw.emotion.trim(),
+      note: nonEmptyString(raw.note) ? raw.note.trim() : '',
+      flower
+    };
+  } catch {
+    return null;
+  }
+};
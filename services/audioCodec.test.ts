@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AFFIRMATION_SAMPLE_RATE, encodeWav, floatTo16BitPcm, pcm16ToAudioBuffer } from './audioCodec';
+
+const ascii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+// Just enough of an AudioContext for pcm16ToAudioBuffer
+const fakeContext = () => ({
+  createBuffer: (channels: number, length: number, sampleRate: number) => {
+    const data = new Float32Array(length);
+    return {
+      numberOfChannels: channels,
+      length,
+      sampleRate,
+      getChannelData: () => data,
+      copyToChannel: (source: Float32Array) => data.set(source)
+    };
+  }
+}) as unknown as BaseAudioContext;
+
+describe('floatTo16BitPcm', () => {
+  it('scales to the full 16-bit range and clamps out-of-range samples', () => {
+    const pcm = floatTo16BitPcm(new Float32Array([0, 1, -1, 0.5, 2, -3]));
+    expect(Array.from(pcm)).toEqual([0, 32767, -32768, 16383, 32767, -32768]);
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a 44-byte mono 16-bit RIFF header', async () => {
+    const pcm = new Int16Array([1, -1, 1000, -1000]);
+    const blob = encodeWav(pcm, 16000);
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(44 + 8);
+
+    const view = new DataView(await blob.arrayBuffer());
+    expect(ascii(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 8);
+    expect(ascii(view, 8, 4)).toBe('WAVE');
+    expect(ascii(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(28, true)).toBe(32000);
+    expect(view.getUint16(32, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(8);
+    expect(Array.from(new Int16Array(await blob.slice(44).arrayBuffer()))).toEqual([1, -1, 1000, -1000]);
+  });
+});
+
+describe('pcm16ToAudioBuffer', () => {
+  it('round-trips float samples through 16-bit PCM', () => {
+    const samples = new Float32Array([0, 0.25, -0.25, 0.9, -0.9]);
+    const pcm = floatTo16BitPcm(samples);
+    const audio = pcm16ToAudioBuffer(pcm.buffer as ArrayBuffer, fakeContext());
+
+    expect(audio.sampleRate).toBe(AFFIRMATION_SAMPLE_RATE);
+    expect(audio.length).toBe(samples.length);
+    const decoded = audio.getChannelData(0);
+    samples.forEach((sample, i) => expect(decoded[i]).toBeCloseTo(sample, 4));
+  });
+
+  it('never creates an empty buffer', () => {
+    expect(pcm16ToAudioBuffer(new ArrayBuffer(0), fakeContext(), 16000).length).toBe(1);
+  });
+});
@@ -0,0 +1,101 @@
+// PCM and WAV helpers. Kept free of React and app state so they can be reused for export and import.
+
+// Input is a single (mono) channel of float samples in [-1, 1]
+export const floatTo16BitPcm = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+};
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+// Standard 44-byte RIFF header followed by little-endian 16-bit mono PCM
+export const encodeWav = (pcm: Int16Array, sampleRate: number): Blob => {
+  const dataBytes = pcm.length * 2;
+  const buffer = new ArrayBuffer(44 + dataBytes);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  new Int16Array(buffer, 44).set(pcm);
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Sample rate of the spoken affirmation PCM returned by every provider
+export const AFFIRMATION_SAMPLE_RATE = 24000;
+
+export const pcm16ToFloat = (pcm: Int16Array): Float32Array => {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 32768;
+  return samples;
+};
+
+// Raw little-endian 16-bit mono PCM into a playable buffer
+export const pcm16ToAudioBuffer = (
+  buffer: ArrayBuffer,
+  ctx: BaseAudioContext,
+  sampleRate = AFFIRMATION_SAMPLE_RATE
+): AudioBuffer => {
+  const samples = pcm16ToFloat(new Int16Array(buffer));
+  const audioBuffer = ctx.createBuffer(1, Math.max(1, samples.length), sampleRate);
+  audioBuffer.copyToChannel(samples, 0);
+  return audioBuffer;
+};
+
+export const audioBufferToWav = (audio: AudioBuffer): Blob =>
+  encodeWav(floatTo16BitPcm(audio.getChannelData(0)), audio.sampleRate);
+
+export const COMPRESSED_AUDIO_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export const supportedCompressedType = () =>
+  typeof MediaRecorder === 'undefined' ? '' : COMPRESSED_AUDIO_TYPES.find(t => MediaRecorder.isTypeSupported(t)) || '';
+
+// MediaRecorder only records live streams, so this plays the buffer silently in real time
+export const encodeCompressed = (audio: AudioBuffer): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const mimeType = supportedCompressedType();
+    if (!mimeType) {
+      reject(new Error('Compressed audio export is not supported in this browser.'));
+      return;
+    }
+    const ctx = new AudioContext({ sampleRate: audio.sampleRate });
+    const destination = ctx.createMediaStreamDestination();
+    const source = ctx.createBufferSource();
+    source.buffer = audio;
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      ctx.close();
+      resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+    };
+    recorder.onerror = () => {
+      ctx.close();
+      reject(new Error('Compressed audio export failed.'));
+    };
+    source.onended = () => recorder.stop();
+
+    recorder.start();
+    source.start();
+  });
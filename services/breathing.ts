@@ -0,0 +1,108 @@
+import { BreathingPattern, BreathPhaseKind } from "../types";
+
+export const BREATHING_PATTERNS: BreathingPattern[] = [
+  {
+    id: 'box',
+    name: 'Box breathing',
+    description: 'Even four-count sides. Steadies a racing mind.',
+    rounds: 4,
+    phases: [
+      { kind: 'inhale', seconds: 4, label: 'Breathe in' },
+      { kind: 'hold', seconds: 4, label: 'Hold' },
+      { kind: 'exhale', seconds: 4, label: 'Breathe out' },
+      { kind: 'hold', seconds: 4, label: 'Hold' }
+    ]
+  },
+  {
+    id: '478',
+    name: '4-7-8',
+    description: 'A long hold and longer exhale. Helps the body wind down.',
+    rounds: 4,
+    phases: [
+      { kind: 'inhale', seconds: 4, label: 'Breathe in through your nose' },
+      { kind: 'hold', seconds: 7, label: 'Hold' },
+      { kind: 'exhale', seconds: 8, label: 'Breathe out through your mouth' }
+    ]
+  },
+  {
+    id: 'sigh',
+    name: 'Physiological sigh',
+    description: 'Two inhales, one long exhale. The fastest way to take the edge off.',
+    rounds: 5,
+    phases: [
+      { kind: 'inhale', seconds: 2, label: 'Breathe in' },
+      { kind: 'top-up', seconds: 1, label: 'Sip in a little more' },
+      { kind: 'exhale', seconds: 6, label: 'Long, slow breath out' }
+    ]
+  }
+];
+
+export const getBreathingPattern = (id: string): BreathingPattern =>
+  BREATHING_PATTERNS.find(p => p.id === id) ?? BREATHING_PATTERNS[0];
+
+export const roundSeconds = (pattern: BreathingPattern) =>
+  pattern.phases.reduce((sum, phase) => sum + phase.seconds, 0);
+
+export const totalSeconds = (pattern: BreathingPattern) => roundSeconds(pattern) * pattern.rounds;
+
+export interface PhasePosition {
+  round: number; // 0-based
+  phaseIndex: number;
+  phaseElapsed: number; // seconds into the current phase
+  done: boolean;
+}
+
+export const phaseAt = (pattern: BreathingPattern, elapsedSeconds: number): PhasePosition => {
+  const perRound = roundSeconds(pattern);
+  if (elapsedSeconds >= perRound * pattern.rounds) {
+    return { round: pattern.rounds - 1, phaseIndex: pattern.phases.length - 1, phaseElapsed: 0, done: true };
+  }
+
+  const round = Math.floor(elapsedSeconds / perRound);
+  let remaining = elapsedSeconds - round * perRound;
+  let phaseIndex = 0;
+  while (remaining >= pattern.phases[phaseIndex].seconds) {
+    remaining -= pattern.phases[phaseIndex].seconds;
+    phaseIndex++;
+  }
+  return { round, phaseIndex, phaseElapsed: remaining, done: false };
+};
+
+// How open the flower should be at the end of each phase (0 = closed, 1 = full)
+export const PHASE_OPENNESS: Record<BreathPhaseKind, number | null> = {
+  inhale: 0.85,
+  'top-up': 1,
+  hold: null, // stay where the previous phase left off
+  exhale: 0
+};
+
+// Picks the exercise a coping step is describing, if it is about breathing at all
+export const matchBreathingPattern = (step: string): BreathingPattern | null => {
+  if (/4\s*[-–,]\s*7\s*[-–,]\s*8|\b478\b/i.test(step)) return getBreathingPattern('478');
+  if (/\bbox\b|square breath/i.test(step)) return getBreathingPattern('box');
+  if (/sigh|double inhale|two (short )?inhales/i.test(step)) return getBreathingPattern('sigh');
+  if (/breath|inhale|exhale/i.test(step)) return getBreathingPattern('box');
+  return null;
+};
+
+const CUE_PITCH: Record<BreathPhaseKind, number> = {
+  inhale: 392,
+  'top-up': 440,
+  hold: 330,
+  exhale: 262
+};
+
+// A short, soft sine blip marking the start of a phase
+export const playPhaseCue = (ctx: AudioContext, kind: BreathPhaseKind) => {
+  const now = ctx.currentTime;
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = 'sine';
+  osc.frequency.value = CUE_PITCH[kind];
+  gain.gain.setValueAtTime(0, now);
+  gain.gain.linearRampToValueAtTime(0.15, now + 0.05);
+  gain.gain.exponentialRampToValueAtTime(0.001, now + 0.6);
+  osc.connect(gain).connect(ctx.destination);
+  osc.start(now);
+  osc.stop(now + 0.65);
+};
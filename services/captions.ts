@@ -0,0 +1,64 @@
+// Captions for the spoken affirmation. TTS returns audio without word timings, so each phrase is
+// timed by its share of the text, with a little extra for the pause after it.
+
+export interface Caption {
+  text: string;
+  start: number; // seconds
+  end: number;
+  from: number; // index of the phrase's first character in the full text
+}
+
+const MAX_CAPTION_CHARS = 80;
+// Pauses at phrase ends, counted in characters of speech
+const PAUSE_WEIGHT = 6;
+
+// Sentences first; long ones are packed into lines at commas, or at spaces when a clause runs on
+const splitPhrases = (text: string): { text: string; from: number }[] => {
+  const phrases: { text: string; from: number }[] = [];
+  const push = (part: string, from: number) => {
+    const trimmed = part.trim();
+    if (trimmed) phrases.push({ text: trimmed, from: from + part.indexOf(trimmed) });
+  };
+  let offset = 0;
+  for (const sentence of text.match(/[^.!?…]+[.!?…]*\s*/g) ?? []) {
+    const start = text.indexOf(sentence, offset);
+    offset = start + sentence.length;
+    if (sentence.trim().length <= MAX_CAPTION_CHARS) {
+      push(sentence, start);
+      continue;
+    }
+    const pieces = (sentence.match(/[^,;:]+[,;:]?\s*/g) ?? [sentence])
+      .flatMap(clause => (clause.trim().length > MAX_CAPTION_CHARS ? clause.match(/\S+\s*/g) ?? [clause] : [clause]));
+    let line = '';
+    let lineFrom = start;
+    for (const piece of pieces) {
+      if (line && (line + piece).trim().length > MAX_CAPTION_CHARS) {
+        push(line, lineFrom);
+        lineFrom += line.length;
+        line = '';
+      }
+      line += piece;
+    }
+    push(line, lineFrom);
+  }
+  return phrases;
+};
+
+export const buildCaptions = (text: string, duration: number): Caption[] => {
+  const phrases = splitPhrases(text);
+  const total = phrases.reduce((sum, phrase) => sum + phrase.text.length + PAUSE_WEIGHT, 0);
+  let at = 0;
+  return phrases.map(phrase => {
+    const length = ((phrase.text.length + PAUSE_WEIGHT) / total) * duration;
+    const caption = { ...phrase, start: at, end: at + length };
+    at += length;
+    return caption;
+  });
+};
+
+export const captionAt = (captions: Caption[], seconds: number): Caption | null =>
+  captions.find(caption => seconds >= caption.start && seconds < caption.end) ?? captions[captions.length - 1] ?? null;
+
+// For the browser voice, which reports which character it has reached
+export const captionAtChar = (captions: Caption[], charIndex: number): Caption | null =>
+  [...captions].reverse().find(caption => caption.from <= charIndex) ?? captions[0] ?? null;
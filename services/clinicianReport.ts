@@ -0,0 +1,105 @@
+import { JournalEntry, PracticeRating } from "../types";
+import { CRISIS_DISTRESS_THRESHOLD } from "../constants";
+import { EmotionShare, TrendPoint, dailyDistress, emotionBreakdown, weeklyDistress } from "./moodTrends";
+import { StrategyStat, distressDelta, strategyKind, summarizeStrategies } from "./copingTracker";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longer ranges are charted by week so the trend stays readable on paper
+const DAILY_LIMIT_DAYS = 45;
+
+// Parts of the report the user can leave out before it leaves the device
+export type ReportSection = 'emotions' | 'sessionNotes' | 'copingSteps' | 'safetyChecks';
+
+export const REPORT_SECTIONS: { id: ReportSection; label: string; hint: string }[] = [
+  { id: 'emotions', label: 'Emotion labels', hint: 'Which feelings came up and how often' },
+  { id: 'sessionNotes', label: 'Session summaries', hint: 'A one-line reflection for each session' },
+  { id: 'copingSteps', label: 'Coping step wording', hint: 'Without it, only the kind of practice is shown' },
+  { id: 'safetyChecks', label: 'Safety check answers', hint: 'Whether you said you were safe during very hard moments' }
+];
+
+export interface ReportOptions {
+  from: number; // epoch ms, start of the first day
+  to: number; // epoch ms, end of the last day
+  redacted: ReportSection[];
+  affirmationIds: string[]; // sessions whose affirmation the user picked to include
+}
+
+export interface ReportPractice {
+  at: number;
+  step: string;
+  rating?: PracticeRating;
+  distressChange: number | null;
+}
+
+export interface ClinicianReport {
+  from: number;
+  to: number;
+  generatedAt: number;
+  sessionCount: number;
+  averageDistress: number;
+  highDistressSessions: number;
+  trend: TrendPoint[];
+  trendBy: 'day' | 'week';
+  emotions: EmotionShare[] | null;
+  strategies: StrategyStat[];
+  practices: ReportPractice[];
+  affirmations: { at: number; text: string }[];
+  sessionNotes: { at: number; distress: number; emotion: string | null; summary: string }[] | null;
+  safetyChecks: { safe: number; notSafe: number; safeLater: number } | null;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const entriesInRange = (entries: JournalEntry[], from: number, to: number) =>
+  entries.filter(entry => entry.createdAt >= from && entry.createdAt <= to);
+
+// Only ever built from the saved reflections: what the user wrote or said is never part of it
+export const buildClinicianReport = (entries: JournalEntry[], options: ReportOptions, now = Date.now()): ClinicianReport => {
+  const inRange = entriesInRange(entries, options.from, options.to).sort((a, b) => a.createdAt - b.createdAt);
+  const shown = (section: ReportSection) => !options.redacted.includes(section);
+  const days = Math.max(1, Math.ceil((options.to - options.from) / DAY_MS));
+  const trendBy = days > DAILY_LIMIT_DAYS ? 'week' : 'day';
+  const scores = inRange.map(entry => entry.result.distressScore);
+  const checks = inRange.filter(entry => entry.safetyCheck);
+
+  return {
+    from: options.from,
+    to: options.to,
+    generatedAt: now,
+    sessionCount: inRange.length,
+    averageDistress: scores.length ? scores.reduce((sum, s) => sum + s, 0) / scores.length : 0,
+    highDistressSessions: scores.filter(score => score > CRISIS_DISTRESS_THRESHOLD).length,
+    trend: trendBy === 'day'
+      ? dailyDistress(inRange, days + 1, options.to)
+      : weeklyDistress(inRange, Math.ceil(days / 7) + 1, options.to),
+    trendBy,
+    emotions: shown('emotions') ? emotionBreakdown(inRange) : null,
+    strategies: summarizeStrategies(inRange),
+    practices: inRange.flatMap(entry => (entry.practices ?? [])
+      .filter(practice => practice.doneAt || practice.rating)
+      .map(practice => ({
+        at: practice.doneAt ?? entry.createdAt,
+        step: shown('copingSteps') ? practice.step : capitalize(strategyKind(practice.step)?.label ?? 'other practice'),
+        ...(practice.rating ? { rating: practice.rating } : {}),
+        distressChange: distressDelta(practice)
+      }))),
+    affirmations: inRange
+      .filter(entry => options.affirmationIds.includes(entry.id))
+      .map(entry => ({ at: entry.createdAt, text: entry.result.affirmationText })),
+    sessionNotes: shown('sessionNotes')
+      ? inRange.map(entry => ({
+          at: entry.createdAt,
+          distress: entry.result.distressScore,
+          emotion: shown('emotions') ? entry.result.emotion : null,
+          summary: entry.result.empathySummary
+        }))
+      : null,
+    safetyChecks: shown('safetyChecks') && checks.length
+      ? {
+          safe: checks.filter(entry => entry.safetyCheck === 'safe').length,
+          notSafe: checks.filter(entry => entry.safetyCheck === 'not_safe').length,
+          safeLater: checks.filter(entry => entry.safetyCheck === 'not_safe' && entry.safeLaterAt).length
+        }
+      : null
+  };
+};
@@ -0,0 +1,84 @@
+import { CopingHistory, CopingPractice, JournalEntry, PracticeRating } from "../types";
+
+export const PRACTICE_TIMER_SECONDS = 120;
+// A kind of practice needs this many rated tries before it counts as working or not
+const MIN_TRIES = 2;
+// Only clear signals are passed on to the model
+const EFFECTIVE_THRESHOLD = 0.25;
+const MAX_PER_SIDE = 3;
+// A drop this large in the check-in counts as fully effective
+const FULL_EFFECT_DROP = 0.3;
+
+const RATING_VALUES: Record<PracticeRating, number> = {
+  helped: 1,
+  somewhat: 0,
+  not_really: -1
+};
+
+// Steps are free text that varies from session to session, so they're grouped into broad kinds
+const STRATEGY_KINDS: { id: string; label: string; pattern: RegExp }[] = [
+  { id: 'breathing', label: 'slow or paced breathing', pattern: /breath|inhale|exhale|sigh/i },
+  { id: 'muscle', label: 'tensing and releasing muscles', pattern: /clench|tense|squeeze|release|muscle|shoulders/i },
+  { id: 'grounding', label: 'grounding through the senses', pattern: /notice|five things|can see|can hear|can touch|feet|senses|around you/i },
+  { id: 'temperature', label: 'cold or temperature', pattern: /cold|ice|water|splash|warm drink/i },
+  { id: 'movement', label: 'moving the body', pattern: /stretch|walk|move|shake|dance|exercise/i },
+  { id: 'writing', label: 'writing things down', pattern: /write|journal|list|jot/i },
+  { id: 'compassion', label: 'self-compassion', pattern: /kind|friend|compassion|gentle|forgive|say to yourself/i },
+  { id: 'connection', label: 'reaching out to someone', pattern: /call|text|reach out|talk to|message someone/i },
+  { id: 'savoring', label: 'savoring good moments', pattern: /grateful|gratitude|savou?r|beautiful|good moment|joy/i }
+];
+
+export interface StrategyStat {
+  id: string;
+  label: string;
+  tries: number;
+  score: number; // -1 (never helps) to 1 (reliably helps)
+  example: string;
+}
+
+export const strategyKind = (step: string) => STRATEGY_KINDS.find(kind => kind.pattern.test(step)) ?? null;
+
+export const distressDelta = (practice: CopingPractice) =>
+  practice.distressAfter === undefined ? null : practice.distressAfter - practice.distressBefore;
+
+// Averages whatever feedback exists: the user's rating and how much the check-in moved
+const practiceScore = (practice: CopingPractice): number | null => {
+  const signals: number[] = [];
+  if (practice.rating) signals.push(RATING_VALUES[practice.rating]);
+  const delta = distressDelta(practice);
+  if (delta !== null) signals.push(Math.max(-1, Math.min(1, -delta / FULL_EFFECT_DROP)));
+  return signals.length ? signals.reduce((sum, v) => sum + v, 0) / signals.length : null;
+};
+
+// Most effective first
+export const summarizeStrategies = (entries: JournalEntry[]): StrategyStat[] => {
+  const stats = new Map<string, StrategyStat & { total: number }>();
+  for (const practice of entries.flatMap(entry => entry.practices ?? [])) {
+    const kind = strategyKind(practice.step);
+    const score = practiceScore(practice);
+    if (!kind || score === null) continue;
+    const stat = stats.get(kind.id) ?? { id: kind.id, label: kind.label, tries: 0, score: 0, total: 0, example: practice.step };
+    stat.tries += 1;
+    stat.total += score;
+    stat.score = stat.total / stat.tries;
+    stats.set(kind.id, stat);
+  }
+  return [...stats.values()]
+    .filter(stat => stat.tries >= MIN_TRIES)
+    .map(({ total: _total, ...stat }) => stat)
+    .sort((a, b) => b.score - a.score);
+};
+
+export const copingHistoryFor = (entries: JournalEntry[]): CopingHistory | undefined => {
+  const stats = summarizeStrategies(entries);
+  const describe = (stat: StrategyStat) => `${stat.label} (e.g. "${stat.example}")`;
+  const helped = stats.filter(stat => stat.score >= EFFECTIVE_THRESHOLD).slice(0, MAX_PER_SIDE).map(describe);
+  const didNotHelp = stats.filter(stat => stat.score <= -EFFECTIVE_THRESHOLD).reverse().slice(0, MAX_PER_SIDE).map(describe);
+  return helped.length || didNotHelp.length ? { helped, didNotHelp } : undefined;
+};
+
+// Replaces the practice for the same step, or adds it
+export const upsertPractice = (practices: CopingPractice[], practice: CopingPractice): CopingPractice[] =>
+  practices.some(p => p.step === practice.step)
+    ? practices.map(p => (p.step === practice.step ? practice : p))
+    : [...practices, practice];
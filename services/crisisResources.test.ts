@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CRISIS_DISTRESS_THRESHOLD, ELEVATED_DISTRESS_THRESHOLD } from '../constants';
+import { contactHref, detectCountry, getDistressTier, listCrisisRegions, resolveCrisisRegion } from './crisisResources';
+
+describe('getDistressTier', () => {
+  it('only escalates above each threshold', () => {
+    expect(getDistressTier(0)).toBe('none');
+    expect(getDistressTier(ELEVATED_DISTRESS_THRESHOLD)).toBe('none');
+    expect(getDistressTier(ELEVATED_DISTRESS_THRESHOLD + 0.01)).toBe('elevated');
+    expect(getDistressTier(CRISIS_DISTRESS_THRESHOLD)).toBe('elevated');
+    expect(getDistressTier(CRISIS_DISTRESS_THRESHOLD + 0.01)).toBe('crisis');
+    expect(getDistressTier(1)).toBe('crisis');
+  });
+});
+
+describe('detectCountry', () => {
+  it('uses the region subtag of the first locale we have data for', () => {
+    expect(detectCountry(['en-GB'])).toBe('GB');
+    expect(detectCountry(['en-XX', 'pt-BR'])).toBe('BR');
+    expect(detectCountry(['zh-Hant-TW', 'en-au'])).toBe('AU');
+  });
+
+  it('never guesses a country from the language alone', () => {
+    expect(detectCountry(['es'])).toBeNull();
+    expect(detectCountry(['de', 'fr'])).toBeNull();
+    expect(detectCountry([])).toBeNull();
+  });
+});
+
+describe('resolveCrisisRegion', () => {
+  it('prefers the override from Settings', () => {
+    expect(resolveCrisisRegion('ie').country).toBe('IE');
+  });
+
+  it('falls back to the international list', () => {
+    expect(resolveCrisisRegion('ZZ').country).toBe('INTL');
+  });
+});
+
+describe('dataset', () => {
+  it('cites an official https source for every region', () => {
+    for (const region of listCrisisRegions()) {
+      expect(region.sources.length, region.country).toBeGreaterThan(0);
+      for (const source of region.sources) expect(source).toMatch(/^https:\/\//);
+    }
+  });
+});
+
+describe('contactHref', () => {
+  it('builds call, text and web links', () => {
+    expect(contactHref({ name: 'Line', kind: 'call', value: '988', display: '' })).toBe('tel:988');
+    expect(contactHref({ name: 'Line', kind: 'text', value: '741741', body: 'HOME NOW', display: '' })).toBe('sms:741741?&body=HOME%20NOW');
+    expect(contactHref({ name: 'Line', kind: 'web', value: 'https://findahelpline.com', display: '' })).toBe('https://findahelpline.com');
+  });
+});
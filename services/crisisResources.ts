@@ -0,0 +1,47 @@
+import { CrisisContact, CrisisRegion, DistressTier } from "../types";
+import { CRISIS_DISTRESS_THRESHOLD, ELEVATED_DISTRESS_THRESHOLD } from "../constants";
+import { CRISIS_DATASET } from "../data/crisisHotlines";
+
+export const CRISIS_DATASET_VERSION = CRISIS_DATASET.version;
+
+export const getDistressTier = (distressScore: number): DistressTier => {
+  if (distressScore > CRISIS_DISTRESS_THRESHOLD) return 'crisis';
+  if (distressScore > ELEVATED_DISTRESS_THRESHOLD) return 'elevated';
+  return 'none';
+};
+
+export const listCrisisRegions = (): CrisisRegion[] => CRISIS_DATASET.regions;
+
+const findRegion = (country: string | null | undefined) =>
+  country ? CRISIS_DATASET.regions.find(r => r.country === country.toUpperCase()) : undefined;
+
+// First locale with a region we have data for, e.g. "en-GB" → GB. A bare language ("es") says nothing
+// about where someone is, so it never picks a country; the international list is shown instead.
+export const detectCountry = (
+  languages: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : []
+): string | null => {
+  for (const tag of languages) {
+    const [, ...subtags] = tag.split('-');
+    // The region subtag is the 2-letter one; script subtags like "Hant" are 4 letters
+    const region = subtags.find(part => /^[A-Za-z]{2}$/.test(part));
+    if (region && findRegion(region)) return region.toUpperCase();
+  }
+  return null;
+};
+
+// Settings override wins; otherwise the browser locale; otherwise the international list
+export const resolveCrisisRegion = (override: string | null = null): CrisisRegion =>
+  findRegion(override) ?? findRegion(detectCountry()) ?? findRegion(CRISIS_DATASET.fallback)!;
+
+export const contactHref = (contact: CrisisContact): string => {
+  switch (contact.kind) {
+    case 'call':
+      return `tel:${contact.value}`;
+    case 'text':
+      // "?&body=" is understood by both iOS and Android messaging apps
+      return contact.body ? `sms:${contact.value}?&body=${encodeURIComponent(contact.body)}` : `sms:${contact.value}`;
+    case 'web':
+    default:
+      return contact.value;
+  }
+};
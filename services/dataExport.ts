@@ -0,0 +1,35 @@
+import { clearAllData, listBreathingRecords, listSessions, loadSafetyPlan, loadSessionMedia } from "./journalStore";
+import { loadSettings } from "./settings";
+import { removeVault } from "./vault";
+import { blobToBase64 } from "./media";
+
+// Everything the app keeps under this prefix in localStorage belongs to the user
+const LOCAL_PREFIX = 'echotherapy.';
+
+// One readable JSON file with every session, breathing record, the safety plan and settings.
+// Kept recordings are embedded as base64 so the export is complete on its own.
+export const exportAllData = async (): Promise<Blob> => {
+  const sessions = await listSessions();
+  const withMedia = await Promise.all(sessions.map(async entry => {
+    if (!entry.hasMedia) return entry;
+    const media = await loadSessionMedia(entry.id);
+    return media ? { ...entry, media: { mimeType: media.type, base64: await blobToBase64(media) } } : entry;
+  }));
+  const data = {
+    exportedAt: new Date().toISOString(),
+    sessions: withMedia,
+    breathing: await listBreathingRecords(),
+    safetyPlan: await loadSafetyPlan(),
+    settings: loadSettings()
+  };
+  return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+};
+
+// Wipes the journal, recordings, breathing history, offline queue, safety plan, settings and passcode. The caller should reload afterwards.
+export const deleteEverything = async (): Promise<void> => {
+  await clearAllData();
+  removeVault();
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(LOCAL_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
@@ -0,0 +1,89 @@
+import { FlowerConfig } from "../types";
+import { FlowerModel, bloomSeconds, rotationSpeed } from "./flowerGeometry";
+
+// Canvas rendering of a generated flower, for exports and the garden.
+// Draws in the flower's own coordinate space; callers translate and scale first.
+
+// Bloom overshoots slightly like the on-screen cubic-bezier, then settles
+const easeOutBack = (t: number) => {
+  const c = 1.70158;
+  return 1 + (c + 1) * Math.pow(t - 1, 3) + c * Math.pow(t - 1, 2);
+};
+
+export const bloomProgress = (config: FlowerConfig, seconds: number) =>
+  easeOutBack(Math.min(1, Math.max(0, seconds / bloomSeconds(config))));
+
+interface DrawOptions {
+  seconds?: number; // animation time, for rotation, tremble and particles
+  wilt?: number; // 0 = upright, 1 = head hanging and faded
+}
+
+export const drawFlower = (
+  ctx: CanvasRenderingContext2D,
+  config: FlowerConfig,
+  model: FlowerModel,
+  { seconds = 0, wilt = 0 }: DrawOptions = {}
+) => {
+  ctx.save();
+
+  // Stem and leaves stay upright while the head turns
+  ctx.globalAlpha = 0.8 * 0.7;
+  for (const leaf of model.leaves) {
+    ctx.fillStyle = leaf.color;
+    ctx.fill(new Path2D(leaf.d));
+  }
+  ctx.globalAlpha = 0.8;
+  ctx.strokeStyle = model.stem.color;
+  ctx.lineWidth = model.stem.width;
+  ctx.lineCap = 'round';
+  ctx.stroke(new Path2D(model.stem.d));
+
+  // A wilting head tips over at the top of the stem and loses some colour
+  if (wilt > 0) {
+    ctx.translate(0, 10);
+    ctx.rotate((wilt * 50 * Math.PI) / 180);
+    ctx.translate(0, -10 + wilt * 25);
+    ctx.scale(1 - wilt * 0.3, 1 - wilt * 0.3);
+  }
+  ctx.rotate((rotationSpeed(config) * seconds * Math.PI) / 180);
+  const fade = 1 - wilt * 0.45;
+
+  const core = ctx.createRadialGradient(0, 0, 0, 0, 0, model.core.radius);
+  core.addColorStop(0, '#FFFFFF');
+  core.addColorStop(0.6, `${model.core.accent}80`);
+  core.addColorStop(1, `${model.core.color}33`);
+  ctx.globalAlpha = fade;
+  ctx.fillStyle = core;
+  ctx.beginPath();
+  ctx.arc(0, 0, model.core.radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  for (const layer of model.layers) {
+    ctx.fillStyle = layer.color;
+    ctx.globalAlpha = layer.opacity * fade;
+    for (const petal of layer.petals) {
+      ctx.save();
+      if (petal.trembles) {
+        const phase = (seconds + petal.delay) * 4 * Math.PI;
+        ctx.translate(Math.sin(phase), Math.cos(phase));
+      }
+      ctx.rotate((petal.angle * Math.PI) / 180);
+      ctx.translate(0, petal.offset);
+      ctx.scale(petal.scale, petal.scale);
+      ctx.fill(new Path2D(petal.d));
+      ctx.restore();
+    }
+  }
+
+  for (const p of model.particles) {
+    // Same 3s float-up-and-fade as the .particle CSS animation
+    const t = ((seconds + p.delay) % 3) / 3;
+    ctx.globalAlpha = 0.8 * (1 - t) * fade;
+    ctx.fillStyle = p.color;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y - t * 100, p.r * (1 - t), 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.restore();
+};
@@ -0,0 +1,239 @@
+import { FlowerConfig } from "../types";
+import { FLOWER_VIEWBOX, bloomSeconds, generateFlower, petalTransform, rotationSpeed } from "./flowerGeometry";
+import { bloomProgress, drawFlower } from "./flowerCanvas";
+
+export type AspectPreset = 'story' | 'square' | 'wallpaper';
+
+export const ASPECT_PRESETS: Record<AspectPreset, { label: string; width: number; height: number }> = {
+  story: { label: 'Story 9:16', width: 1080, height: 1920 },
+  square: { label: 'Square 1:1', width: 1080, height: 1080 },
+  wallpaper: { label: 'Wallpaper 16:9', width: 1920, height: 1080 }
+};
+
+export interface FlowerArtwork {
+  config: FlowerConfig;
+  affirmation: string;
+  preset: AspectPreset;
+}
+
+const VIDEO_FPS = 30;
+const MIN_VIDEO_SECONDS = 6;
+const MAX_VIDEO_SECONDS = 30;
+const BACKGROUND = '#F8FAFC';
+const TEXT_COLOR = '#334155';
+const BRAND_COLOR = '#64748B';
+
+// Flower takes up this share of the shorter side
+const FLOWER_SHARE = 0.6;
+
+const layout = ({ preset }: FlowerArtwork) => {
+  const { width, height } = ASPECT_PRESETS[preset];
+  const portrait = height > width;
+  const flowerSize = Math.min(width, height) * FLOWER_SHARE;
+  return {
+    width,
+    height,
+    flowerSize,
+    flowerX: width / 2,
+    flowerY: portrait ? height * 0.38 : height * 0.42,
+    textY: portrait ? height * 0.7 : height * 0.8,
+    textWidth: width * (portrait ? 0.8 : 0.6),
+    fontSize: Math.round(Math.min(width, height) * 0.042)
+  };
+};
+
+// Greedy word wrap; measure returns the rendered width of a string
+const wrapText = (text: string, maxWidth: number, measure: (line: string) => number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measure(candidate) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Standalone SVG that blooms, turns and trembles on its own via SMIL, so it animates wherever it's opened
+export const buildFlowerSvg = (artwork: FlowerArtwork): Blob => {
+  const { config, affirmation } = artwork;
+  const l = layout(artwork);
+  const scale = l.flowerSize / FLOWER_VIEWBOX;
+  const bloom = bloomSeconds(config);
+  const spin = rotationSpeed(config);
+  const model = generateFlower(config);
+
+  const layers = model.layers.map(layer => layer.petals.map(petal => {
+    const tremble = petal.trembles
+      ? `<animateTransform attributeName="transform" type="translate" additive="sum" values="0 0;1 1;-1 -1;0 0" dur="0.5s" begin="${petal.delay}s" repeatCount="indefinite"/>`
+      : '';
+    return `<path d="${petal.d}" fill="${layer.color}" fill-opacity="${layer.opacity}" transform="${petalTransform(petal)}">${tremble}</path>`;
+  }).join('')).join('');
+
+  const particles = model.particles.map(p =>
+    `<circle cx="${p.x}" cy="${p.y}" r="${p.r}" fill="${p.color}"><animate attributeName="cy" values="${p.y};${p.y - 100}" dur="3s" begin="${p.delay}s" repeatCount="indefinite"/><animate attributeName="opacity" values="0.8;0" dur="3s" begin="${p.delay}s" repeatCount="indefinite"/></circle>`
+  ).join('');
+
+  const stem = `<g opacity="0.8">${model.leaves.map(leaf => `<path d="${leaf.d}" fill="${leaf.color}" fill-opacity="0.7"/>`).join('')}<path d="${model.stem.d}" stroke="${model.stem.color}" stroke-width="${model.stem.width}" stroke-linecap="round" fill="none"/></g>`;
+
+  // Rough average glyph width for a serif italic; SVG can't measure text before rendering
+  const lines = wrapText(`“${affirmation}”`, l.textWidth, line => line.length * l.fontSize * 0.5);
+  const text = lines.map((line, i) =>
+    `<tspan x="${l.width / 2}" dy="${i === 0 ? 0 : l.fontSize * 1.4}">${escapeXml(line)}</tspan>`
+  ).join('');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${l.width}" height="${l.height}" viewBox="0 0 ${l.width} ${l.height}">
+  <defs>
+    <radialGradient id="core"><stop offset="0%" stop-color="#FFF"/><stop offset="60%" stop-color="${model.core.accent}" stop-opacity="0.5"/><stop offset="100%" stop-color="${model.core.color}" stop-opacity="0.2"/></radialGradient>
+    <radialGradient id="glow" cx="50%" cy="${(l.flowerY / l.height) * 100}%" r="60%"><stop offset="0%" stop-color="${config.baseColor}" stop-opacity="0.15"/><stop offset="100%" stop-color="${config.baseColor}" stop-opacity="0"/></radialGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="${BACKGROUND}"/>
+  <rect width="100%" height="100%" fill="url(#glow)"/>
+  <g transform="translate(${l.flowerX} ${l.flowerY}) scale(${scale})">
+    <g>
+      <animateTransform attributeName="transform" type="scale" values="0;1.08;1" keyTimes="0;0.7;1" dur="${bloom}s" fill="freeze"/>
+      ${stem}
+      <g>
+        ${spin ? `<animateTransform attributeName="transform" type="rotate" from="0" to="360" dur="${360 / spin}s" repeatCount="indefinite"/>` : ''}
+        <circle r="${model.core.radius}" fill="url(#core)"/>
+        ${layers}
+        ${particles}
+      </g>
+    </g>
+  </g>
+  <text y="${l.textY}" text-anchor="middle" font-family="Georgia, serif" font-style="italic" font-size="${l.fontSize}" fill="${TEXT_COLOR}">${text}</text>
+  <text x="${l.width / 2}" y="${l.height - l.fontSize * 2}" text-anchor="middle" font-family="system-ui, sans-serif" font-weight="700" letter-spacing="6" font-size="${Math.round(l.fontSize * 0.5)}" fill="${BRAND_COLOR}">ECHOTHERAPY</text>
+</svg>`;
+  return new Blob([svg], { type: 'image/svg+xml' });
+};
+
+// Draws the artwork as it looks `seconds` into its animation
+export const drawFlowerFrame = (ctx: CanvasRenderingContext2D, artwork: FlowerArtwork, seconds: number) => {
+  const { config, affirmation } = artwork;
+  const l = layout(artwork);
+
+  ctx.save();
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, l.width, l.height);
+  const glow = ctx.createRadialGradient(l.flowerX, l.flowerY, 0, l.flowerX, l.flowerY, l.flowerSize);
+  glow.addColorStop(0, `${config.baseColor}26`);
+  glow.addColorStop(1, `${config.baseColor}00`);
+  ctx.fillStyle = glow;
+  ctx.fillRect(0, 0, l.width, l.height);
+
+  const bloom = bloomProgress(config, seconds);
+  ctx.translate(l.flowerX, l.flowerY);
+  ctx.scale(l.flowerSize / FLOWER_VIEWBOX * bloom, l.flowerSize / FLOWER_VIEWBOX * bloom);
+  drawFlower(ctx, config, generateFlower(config), { seconds });
+  ctx.restore();
+
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.fillStyle = TEXT_COLOR;
+  ctx.font = `italic ${l.fontSize}px Georgia, serif`;
+  wrapText(`“${affirmation}”`, l.textWidth, line => ctx.measureText(line).width).forEach((line, i) => {
+    ctx.fillText(line, l.width / 2, l.textY + i * l.fontSize * 1.4);
+  });
+  ctx.fillStyle = BRAND_COLOR;
+  ctx.font = `700 ${Math.round(l.fontSize * 0.5)}px system-ui, sans-serif`;
+  ctx.fillText('E C H O T H E R A P Y', l.width / 2, l.height - l.fontSize * 2);
+  ctx.restore();
+};
+
+const createCanvas = (artwork: FlowerArtwork) => {
+  const { width, height } = ASPECT_PRESETS[artwork.preset];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser.');
+  return { canvas, ctx };
+};
+
+// Still image of the fully bloomed flower
+export const renderFlowerPng = (artwork: FlowerArtwork): Promise<Blob> => {
+  const { canvas, ctx } = createCanvas(artwork);
+  drawFlowerFrame(ctx, artwork, bloomSeconds(artwork.config) + 1);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Image export failed.'))), 'image/png')
+  );
+};
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+export const supportedVideoType = () =>
+  typeof MediaRecorder === 'undefined' ? '' : VIDEO_TYPES.find(t => MediaRecorder.isTypeSupported(t)) || '';
+
+// Records the animation in real time; with audio, the clip runs as long as the spoken affirmation
+export const recordFlowerVideo = (artwork: FlowerArtwork, audio: AudioBuffer | null, signal?: AbortSignal): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const mimeType = supportedVideoType();
+    if (!mimeType) {
+      reject(new Error('Video export is not supported in this browser.'));
+      return;
+    }
+    const { canvas, ctx } = createCanvas(artwork);
+    const stream = canvas.captureStream(VIDEO_FPS);
+    const duration = Math.min(MAX_VIDEO_SECONDS, Math.max(MIN_VIDEO_SECONDS, audio ? audio.duration + 1 : 0));
+
+    let audioCtx: AudioContext | null = null;
+    if (audio) {
+      audioCtx = new AudioContext({ sampleRate: audio.sampleRate });
+      const destination = audioCtx.createMediaStreamDestination();
+      const source = audioCtx.createBufferSource();
+      source.buffer = audio;
+      source.connect(destination);
+      destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+      // Half a second of flower before the voice comes in
+      source.start(audioCtx.currentTime + 0.5);
+    }
+
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+    const chunks: Blob[] = [];
+    let frame = 0;
+    let aborted = false;
+    const startedAt = performance.now();
+
+    const finish = () => {
+      cancelAnimationFrame(frame);
+      signal?.removeEventListener('abort', onAbort);
+      if (recorder.state === 'recording') recorder.stop();
+    };
+    const onAbort = () => {
+      aborted = true;
+      finish();
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      audioCtx?.close();
+      if (aborted) reject(new DOMException('Video export was cancelled', 'AbortError'));
+      else resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+    };
+
+    const draw = () => {
+      const seconds = (performance.now() - startedAt) / 1000;
+      drawFlowerFrame(ctx, artwork, seconds);
+      if (seconds >= duration) {
+        finish();
+        return;
+      }
+      frame = requestAnimationFrame(draw);
+    };
+
+    drawFlowerFrame(ctx, artwork, 0);
+    recorder.start();
+    frame = requestAnimationFrame(draw);
+  });
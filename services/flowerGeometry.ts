@@ -0,0 +1,250 @@
+import { EmotionBlendPart, FlowerConfig, FlowerStyle } from "../types";
+import { FLOWER_STYLES } from "../constants";
+
+// Procedural mood flower, shared by the on-screen component and the exporters.
+// Every choice comes from a seeded generator, so one config always yields the same flower.
+// Coordinates are in the flower's own space, centred on 0,0 within a 300×300 box.
+
+export const FLOWER_VIEWBOX = 300;
+
+export interface PetalSpec {
+  d: string;
+  angle: number; // degrees
+  offset: number; // translate along y before scaling
+  scale: number;
+  trembles: boolean;
+  delay: number; // seconds, staggers the tremble so petals don't move in lockstep
+}
+
+export interface PetalLayer {
+  style: FlowerStyle;
+  color: string;
+  opacity: number;
+  petals: PetalSpec[];
+}
+
+export interface ParticleSpec {
+  x: number;
+  y: number;
+  r: number;
+  delay: number;
+  color: string;
+}
+
+export interface FlowerModel {
+  layers: PetalLayer[]; // back to front
+  core: { radius: number; color: string; accent: string };
+  stem: { d: string; color: string; width: number };
+  leaves: { d: string; color: string }[];
+  particles: ParticleSpec[];
+}
+
+const STEM_COLOR = '#4D7C0F';
+const LEAF_COLOR = '#65A30D';
+
+// mulberry32: tiny, fast and good enough for shapes
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Entries saved before seeds existed get one derived from their other fields
+const fallbackSeed = (config: FlowerConfig) => {
+  const text = `${config.baseColor}|${config.intensity}|${config.bloomSpeed}|${config.style}`;
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  return hash;
+};
+
+export const flowerBlend = (config: FlowerConfig): EmotionBlendPart[] =>
+  config.blend?.length ? config.blend : [{ emotion: config.style, style: config.style, weight: 1 }];
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// Each style's petal, with its proportions nudged by `vary` (≈ 0.9–1.1) so no two flowers match exactly
+const petalPath = (style: FlowerStyle, vary: () => number): string => {
+  switch (style) {
+    case 'spiky': { // Sharp, aggressive
+      const l = 120 * vary(), w = 15 * vary();
+      return `M0,0 Q${round(w)},${round(-l / 2)} 0,${round(-l)} Q${round(-w)},${round(-l / 2)} 0,0`;
+    }
+    case 'trembling': { // Nervous, thin
+      const l = 80 * vary(), w = 5 * vary();
+      return `M0,0 Q${round(w)},${round(-l / 2)} 0,${round(-l)} Q${round(-w)},${round(-l / 2)} 0,0`;
+    }
+    case 'drooping': { // Heavy, sad
+      const k = vary(), sag = vary();
+      return `M0,0 C${round(30 * k)},${round(-30 * k)} ${round(50 * k)},${round(40 * sag)} ${round(60 * k)},${round(60 * sag)} C${round(40 * k)},${round(50 * sag)} ${round(20 * k)},${round(30 * sag)} 0,0`;
+    }
+    case 'particle': { // Open, round (Happy)
+      const l = 100 * vary(), h = 50 * vary();
+      return `M0,0 C${round(l * 0.3)},${round(-h)} ${round(l * 0.7)},${round(-h)} ${round(l)},0 C${round(l * 0.7)},${round(h)} ${round(l * 0.3)},${round(h)} 0,0`;
+    }
+    case 'calm': // Balanced, lotus-like
+    default: {
+      const l = 80 * vary(), h = 40 * vary();
+      return `M0,0 C${round(l * 0.25)},${round(-h)} ${round(l * 0.75)},${round(-h)} ${round(l)},0 C${round(l * 0.75)},${round(h)} ${round(l * 0.25)},${round(h)} 0,0`;
+    }
+  }
+};
+
+const basePetalCount = (config: FlowerConfig) => Math.max(6, Math.min(24, config.intensity * 2.5));
+
+// The dominant feeling is the full outer ring; each further feeling is a smaller ring inside it,
+// with fewer petals the less of the mix it makes up
+const buildLayer = (config: FlowerConfig, part: EmotionBlendPart, index: number, random: () => number): PetalLayer => {
+  const color = index === 0 ? config.baseColor : config.secondaryColors?.[index - 1] ?? FLOWER_STYLES[part.style].color;
+  const layerScale = 1 - index * 0.25;
+  const count = index === 0
+    ? basePetalCount(config)
+    : Math.max(4, Math.round(basePetalCount(config) * Math.min(1, part.weight * 1.6)));
+  const angleStep = 360 / count;
+  // Inner rings sit between the petals of the ring behind them
+  const angleOffset = index * angleStep / 2 + random() * 10;
+  const vary = () => 0.9 + random() * 0.2;
+
+  const petals: PetalSpec[] = [];
+  for (let i = 0; i < count; i++) {
+    const drooping = part.style === 'drooping';
+    petals.push({
+      d: petalPath(part.style, vary),
+      angle: round(i * angleStep + angleOffset),
+      // Drooping petals hang down and out instead of radiating
+      offset: drooping ? 20 : -(10 + config.intensity) * layerScale,
+      scale: round((drooping ? 0.6 : 0.5 + config.intensity * 0.1) * layerScale * 100) / 100,
+      trembles: part.style === 'trembling',
+      delay: round(random())
+    });
+  }
+  return { style: part.style, color, opacity: index === 0 ? 0.7 : 0.75, petals };
+};
+
+const pointOnCubic = (p: number[][], t: number) => {
+  const u = 1 - t;
+  return [0, 1].map(axis =>
+    u * u * u * p[0][axis] + 3 * u * u * t * p[1][axis] + 3 * u * t * t * p[2][axis] + t * t * t * p[3][axis]
+  );
+};
+
+export const generateFlower = (config: FlowerConfig): FlowerModel => {
+  const random = createRandom(config.seed ?? fallbackSeed(config));
+  const blend = flowerBlend(config);
+  const layers = blend.map((part, i) => buildLayer(config, part, i, random));
+  const sadness = blend.filter(part => part.style === 'drooping').reduce((sum, part) => sum + part.weight, 0);
+
+  // Stem curves gently; the more sadness in the mix, the further it bends
+  const side = random() < 0.5 ? -1 : 1;
+  const bend = side * (15 + random() * 20 + sadness * 50);
+  const stemPoints = [[0, 10], [bend * 0.2, 60], [bend, 100 + random() * 20], [bend * 0.6, 150]];
+  const [start, ...controls] = stemPoints.map(p => p.map(round).join(','));
+  const stem = {
+    d: `M${start} C${controls.join(' ')}`,
+    color: STEM_COLOR,
+    width: 3 + config.intensity * 0.3
+  };
+
+  const leafCount = 1 + Math.floor(random() * 2);
+  const leaves = Array.from({ length: leafCount }, (_, i) => {
+    const [x, y] = pointOnCubic(stemPoints, 0.5 + i * 0.2 + random() * 0.1);
+    const dir = i % 2 === 0 ? -side : side;
+    const length = 28 + random() * 14;
+    const lift = 10 + random() * 10;
+    const tipX = x + dir * length, tipY = y - lift;
+    return {
+      d: `M${round(x)},${round(y)} Q${round(x + dir * length * 0.5)},${round(y - lift - 12)} ${round(tipX)},${round(tipY)} Q${round(x + dir * length * 0.5)},${round(y + 6)} ${round(x)},${round(y)}`,
+      color: LEAF_COLOR
+    };
+  });
+
+  // Happy flowers shed drifting sparks, more the bigger the share of happiness
+  const particles: ParticleSpec[] = [];
+  blend.forEach((part, i) => {
+    if (part.style !== 'particle') return;
+    const count = Math.max(4, Math.round(12 * part.weight));
+    for (let p = 0; p < count; p++) {
+      particles.push({
+        x: round((random() - 0.5) * 150),
+        y: round((random() - 0.5) * 150),
+        r: round(random() * 4 + 2),
+        delay: round(random() * 2),
+        color: layers[i].color
+      });
+    }
+  });
+
+  return {
+    layers,
+    core: {
+      radius: 15 + config.intensity,
+      color: config.baseColor,
+      accent: config.secondaryColors?.[0] ?? config.baseColor
+    },
+    stem,
+    leaves,
+    particles
+  };
+};
+
+export const petalTransform = ({ angle, offset, scale }: PetalSpec) =>
+  `rotate(${angle}) translate(0, ${offset}) scale(${scale})`;
+
+// Degrees per second; a flower that is mostly calm or sad holds still
+export const rotationSpeed = (config: FlowerConfig) => {
+  const still = flowerBlend(config)
+    .filter(part => part.style === 'calm' || part.style === 'drooping')
+    .reduce((sum, part) => sum + part.weight, 0);
+  return still >= 0.5 ? 0 : 4;
+};
+
+export const bloomSeconds = (config: FlowerConfig) => 3 / config.bloomSpeed;
+
+const PETAL_WORDS: Record<FlowerStyle, string> = {
+  spiky: 'sharp, spiky',
+  trembling: 'thin, trembling',
+  drooping: 'heavy, drooping',
+  particle: 'wide, open',
+  calm: 'rounded, lotus-like'
+};
+
+// Rough hue names; good enough to say "red" rather than "#EF4444" to a screen reader
+const colorName = (hex: string) => {
+  const match = /^#?([\da-f]{2})([\da-f]{2})([\da-f]{2})$/i.exec(hex.trim());
+  if (!match) return 'coloured';
+  const [r, g, b] = match.slice(1).map(part => parseInt(part, 16) / 255);
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  if (max - min < 0.1) return lightness > 0.8 ? 'white' : lightness < 0.2 ? 'black' : 'grey';
+  let hue = max === r ? ((g - b) / (max - min)) % 6 : max === g ? (b - r) / (max - min) + 2 : (r - g) / (max - min) + 4;
+  hue = (hue * 60 + 360) % 360;
+  const name = hue < 15 ? 'red' : hue < 40 ? 'orange' : hue < 65 ? 'yellow' : hue < 160 ? 'green'
+    : hue < 195 ? 'teal' : hue < 230 ? 'blue' : hue < 255 ? 'indigo' : hue < 290 ? 'purple' : hue < 335 ? 'pink' : 'red';
+  return lightness > 0.75 ? `pale ${name}` : lightness < 0.25 ? `dark ${name}` : name;
+};
+
+const sharePhrase = (weight: number) => (weight >= 0.6 ? 'mostly' : weight >= 0.35 ? 'partly' : 'a little');
+
+// Spoken stand-in for the flower, built from the same model that draws it
+export const describeFlower = (config: FlowerConfig, { still = false }: { still?: boolean } = {}): string => {
+  const model = generateFlower(config);
+  const blend = flowerBlend(config);
+  const [outer, ...inner] = model.layers;
+  const size = config.intensity >= 8 ? 'A large, full' : config.intensity <= 3 ? 'A small' : 'A';
+  const rings = [
+    `${size} flower of ${outer.petals.length} ${PETAL_WORDS[outer.style]} ${colorName(outer.color)} petals`,
+    ...inner.map(layer => `an inner ring of ${PETAL_WORDS[layer.style]} ${colorName(layer.color)} petals`)
+  ];
+  const feelings = blend.length > 1
+    ? `, showing ${blend.map(part => `${sharePhrase(part.weight)} ${part.emotion}`).join(', ').replace(/, ([^,]*)$/, ' and $1')}`
+    : '';
+  const motion = [
+    !still && rotationSpeed(config) > 0 ? 'it turns slowly' : '',
+    model.particles.length ? `sparks ${still ? 'float' : 'drift up'} around it` : ''
+  ].filter(Boolean);
+  return `${rings.join(' and ')}${feelings}.${motion.length ? ` ${motion.join(' and ').replace(/^./, c => c.toUpperCase())}.` : ''}`;
+};
@@ -1,7 +1,17 @@
-import { GoogleGenAI, Type, Schema, Modality, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { AnalysisResult } from "../types";
+import { GoogleGenAI, Type, Schema, Modality, HarmCategory, HarmBlockThreshold, Content, FinishReason, GenerateContentResponse } from "@google/genai";
+import { AcousticFeatures, AnalysisProvider, AnalysisResult, ConversationTurn, CopingHistory, EmotionCue, FollowUpMessage, FollowUpReply, InlineMedia, RequestOptions, SpeechPace, SpeechRequestOptions, SpeechStyle, VoiceOptions } from "../types";
+import { FLOWER_STYLES, FLOWER_STYLE_ORDER, SUPPORTED_LANGUAGES } from "../constants";
+import { AnalysisValidationError, parseAnalysisResult, parseEmotionCue } from "./analysisValidation";
+import { AnalysisRequestError } from "./requestPipeline";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use so the app can boot without a key when another provider is selected
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
 
 const analysisSchema: Schema = {
   type: Type.OBJECT,
@@ -22,42 +32,79 @@ const analysisSchema: Schema = {
         bloomSpeed: { type: Type.NUMBER, description: "Speed of bloom animation from 1 (slow) to 5 (fast)." },
         style: { 
           type: Type.STRING, 
-          enum: ['spiky', 'drooping', 'trembling', 'calm', 'particle'],
+          enum: FLOWER_STYLE_ORDER,
           description: "The visual style of the flower based on emotion."
-        }
+        },
+        secondaryColors: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: "Up to two more hex colors for the other feelings in the mix, in blend order."
+        },
+        blend: {
+          type: Type.ARRAY,
+          description: "The mix of feelings present, strongest first, e.g. 60% anxiety and 40% hope. One to three parts.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              emotion: { type: Type.STRING },
+              style: { type: Type.STRING, enum: FLOWER_STYLE_ORDER },
+              weight: { type: Type.NUMBER, description: "Share of this feeling from 0 to 1. Weights sum to 1." }
+            },
+            required: ["emotion", "style", "weight"]
+          }
+        },
+        seed: { type: Type.INTEGER, description: "Any whole number from 1 to 999999. Varies the flower's exact shape." }
       },
-      required: ["baseColor", "intensity", "bloomSpeed", "style"]
+      required: ["baseColor", "intensity", "bloomSpeed", "style", "blend"]
     },
     affirmationText: { type: Type.STRING, description: "A calming 10-second affirmation. Start with the user's name if they mentioned it, otherwise start with 'My friend'." }
   },
   required: ["emotion", "distressScore", "empathySummary", "copingPlan", "flowerConfig", "affirmationText"]
 };
 
-export const analyzeSession = async (mediaBase64: string, mimeType: string): Promise<AnalysisResult> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: mediaBase64
-            }
-          },
-          {
-            text: `Analyze the input for emotion, tone, and facial expressions.
+// Follow-ups also ask what the user said, so voice replies can be carried as text in later turns
+const followUpSchema: Schema = {
+  ...analysisSchema,
+  properties: {
+    ...analysisSchema.properties,
+    heard: { type: Type.STRING, description: "A one-sentence paraphrase of what the user said in their latest follow-up, in first person." }
+  },
+  required: [...(analysisSchema.required ?? []), "heard"]
+};
+
+const flowerRules = FLOWER_STYLE_ORDER
+  .map((style, idx) => {
+    const { label, color, tones } = FLOWER_STYLES[style];
+    return `${idx + 1}. ${label}: Set style='${style}', color='${color}' (${tones}).`;
+  })
+  .join('\n            ');
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+];
+
+// A blocked response comes back without text, which would otherwise look like bad output
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new AnalysisRequestError('safety', `Response blocked: ${blockReason || finishReason}`);
+  }
+};
+
+const ANALYSIS_PROMPT = `Analyze the input for emotion, tone, and facial expressions.
             
             RULES FOR DISTRESS SCORE:
             - Rate from 0.0 to 1.0. 
             - > 0.8 indicates potential crisis (self-harm, extreme panic, hopelessness).
             
             RULES FOR FLOWER CONFIG:
-            1. ANGER/FRUSTRATION: Set style='spiky', color='#EF4444' (Red tones).
-            2. SADNESS/GRIEF: Set style='drooping', color='#6366F1' (Blue/Indigo tones).
-            3. ANXIETY/FEAR: Set style='trembling', color='#8B5CF6' (Purple tones).
-            4. CALM/NEUTRAL: Set style='calm', color='#10B981' (Green tones).
-            5. HAPPINESS/HOPE/RELIEF: Set style='particle', color='#F59E0B' (Yellow/Gold tones).
+            ${flowerRules}
+            - Feelings are rarely pure. List each one present in 'blend' with its share, using the style above for it.
+            - 'style' and 'baseColor' describe the strongest part; 'secondaryColors' follow the rest of the blend.
 
             RULES FOR COPING PLAN:
             - Provide 3 distinct, actionable steps.
@@ -67,52 +114,263 @@ export const analyzeSession = async (mediaBase64: string, mimeType: string): Pro
             RULES FOR AFFIRMATION:
             - If the user says their name, use it. E.g., "Sarah, you are..."
             - If no name, use "My friend, you are..."
-            - Tone: Compassionate, slow, validating.`
-          }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        systemInstruction: "You are EchoTherapy. You are a mirror that reflects the user's feelings with deep empathy and visual art.",
-        // Adjust safety to allow users to express distress without blocking
-        safetySettings: [
-          { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-          { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-          { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-          { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-        ],
-      }
-    });
+            - Tone: Compassionate, slow, validating.`;
 
-    if (!response.text) {
-      throw new Error("No response from Gemini");
+const generateAnalysis = async (contents: Content[], schema: Schema, signal?: AbortSignal) => {
+  const response = await getClient().models.generateContent({
+    model: "gemini-3-pro-preview",
+    contents,
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: schema,
+      systemInstruction: "You are EchoTherapy. You are a mirror that reflects the user's feelings with deep empathy and visual art.",
+      // Adjust safety to allow users to express distress without blocking
+      safetySettings: [
+        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+        { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+        { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+        { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+      ],
     }
+  });
+  assertNotBlocked(response);
+  return { outcome: parseAnalysisResult(response.text), text: response.text };
+};
+
+// Validates the model's JSON, and re-asks once (naming what was wrong) before giving up.
+// Returns the raw text too, for callers that need fields beyond AnalysisResult.
+const requestAnalysis = async (
+  contents: Content[],
+  signal?: AbortSignal,
+  schema: Schema = analysisSchema
+): Promise<{ result: AnalysisResult; text: string }> => {
+  let { outcome, text } = await generateAnalysis(contents, schema, signal);
+
+  if (outcome.ok === false) {
+    console.warn("Malformed analysis, asking again:", outcome.issues);
+    ({ outcome, text } = await generateAnalysis([
+      ...contents,
+      { role: 'user', parts: [{ text: `Your previous answer was rejected because: ${outcome.issues.join('; ')}. Answer again with JSON that follows the schema exactly.` }] }
+    ], schema, signal));
+  }
 
-    return JSON.parse(response.text) as AnalysisResult;
+  if (outcome.ok === false) {
+    throw new AnalysisValidationError(outcome.issues);
+  }
+  if (outcome.repairs.length > 0) {
+    console.info("Repaired analysis fields:", outcome.repairs);
+  }
+  return { result: outcome.result, text };
+};
+
+export const analyzeSession = async (mediaBase64: string, mimeType: string, options: RequestOptions = {}): Promise<AnalysisResult> => {
+  try {
+    const { result } = await requestAnalysis([{
+      role: 'user',
+      parts: [
+        {
+          inlineData: {
+            mimeType: mimeType,
+            data: mediaBase64
+          }
+        },
+        ...frameParts(options.frames),
+        { text: ANALYSIS_PROMPT },
+        { text: languageInstruction(options.language) },
+        ...acousticParts(options.acoustics),
+        ...copingHistoryParts(options.copingHistory)
+      ]
+    }], options.signal);
+    return result;
   } catch (error) {
     console.error("Analysis failed:", error);
     throw error;
   }
 };
 
-export const generateAffirmationAudio = async (text: string): Promise<ArrayBuffer> => {
+export const analyzeText = async (text: string, options: RequestOptions = {}): Promise<AnalysisResult> => {
   try {
-    const response = await ai.models.generateContent({
+    const { result } = await requestAnalysis([{
+      role: 'user',
+      parts: [
+        { text: `The user chose to write instead of speaking. Their journal entry:\n"""\n${text}\n"""` },
+        { text: `There is no audio or video: read emotion and tone from their words alone.\n\n${ANALYSIS_PROMPT}` },
+        { text: languageInstruction(options.language) },
+        ...copingHistoryParts(options.copingHistory)
+      ]
+    }], options.signal);
+    return result;
+  } catch (error) {
+    console.error("Text analysis failed:", error);
+    throw error;
+  }
+};
+
+// The emotion label stays English so journal search and trends work across languages
+const languageInstruction = (language?: string) => {
+  const name = SUPPORTED_LANGUAGES.find(l => l.code === language)?.name;
+  return name
+    ? `Write empathySummary, copingPlan and affirmationText in ${name} (${language}), whatever language the user used. Keep "emotion" a single lowercase English word and keep every other field exactly as specified.`
+    : `Write empathySummary, copingPlan and affirmationText in the language the user used. Keep "emotion" a single lowercase English word.`;
+};
+
+// A video is sent as its soundtrack plus evenly spaced stills rather than the full recording
+const frameParts = (frames?: InlineMedia[]) => {
+  if (!frames?.length) return [];
+  return [
+    { text: `This was a video, reduced to the audio above and these ${frames.length} stills taken evenly across it, in order. Read facial expression and body language from them.` },
+    ...frames.map(frame => ({ inlineData: { mimeType: frame.mimeType, data: frame.data } }))
+  ];
+};
+
+// Summary numbers only; the raw pitch contour adds tokens without telling the model much more
+const acousticParts = (features?: AcousticFeatures) => {
+  if (!features) return [];
+  const lines = ['Measured on the device from this recording (approximate, from a simple signal analysis):'];
+  if (features.speakingRate !== null) lines.push(`- Speaking rate: ${features.speakingRate} syllables per second`);
+  if (features.pauseRatio !== null) lines.push(`- Pauses: ${Math.round(features.pauseRatio * 100)}% of the time spent speaking`);
+  if (features.medianPitchHz !== null) {
+    lines.push(`- Median pitch: ${features.medianPitchHz} Hz, range ${features.pitchRangeSemitones} semitones, trend ${features.pitchTrend}`);
+  }
+  if (features.energyDb !== null) lines.push(`- Loudness: ${features.energyDb} dBFS, varying by ${features.energyVariabilityDb} dB`);
+  if (features.jitterPercent !== null) lines.push(`- Jitter: ${features.jitterPercent}%`);
+  lines.push('Use these as supporting evidence for what you hear, not as a diagnosis. If they disagree with the recording itself, trust the recording.');
+  return [{ text: lines.join('\n') }];
+};
+
+// Built from the user's own ratings and check-ins in earlier sessions
+const copingHistoryParts = (history?: CopingHistory) => {
+  if (!history) return [];
+  const lines = ['From this person\'s earlier sessions:'];
+  if (history.helped.length) lines.push(`- These kinds of practice have helped them: ${history.helped.join('; ')}.`);
+  if (history.didNotHelp.length) lines.push(`- These have not helped them: ${history.didNotHelp.join('; ')}.`);
+  lines.push('Lean on what has helped when it fits how they feel today, and avoid what has not unless there is a clear reason. Still vary the wording; don\'t repeat the examples verbatim.');
+  return [{ text: lines.join('\n') }];
+};
+
+const FOLLOW_UP_PROMPT = `The user is replying to your reflection. Take what they say seriously:
+            - If a coping step doesn't work for them, replace it with a different, equally practical one. Keep the steps that still fit.
+            - Update the empathy summary, emotion, distress score and flower to reflect how they feel now.
+            - Write a fresh affirmation that acknowledges what they just shared.
+            - In "heard", paraphrase their latest message in one sentence.
+            Follow the same rules as before for every field.`;
+
+// Earlier turns are replayed as text (the original media isn't resent) followed by the new message
+const buildFollowUpContents = (
+  initial: AnalysisResult,
+  turns: ConversationTurn[],
+  message: FollowUpMessage,
+  language?: string
+): Content[] => {
+  const contents: Content[] = [
+    { role: 'user', parts: [{ text: `I shared how I'm feeling with you.\n\n${ANALYSIS_PROMPT}` }] },
+    { role: 'model', parts: [{ text: JSON.stringify(initial) }] }
+  ];
+  for (const turn of turns) {
+    contents.push({ role: 'user', parts: [{ text: turn.message }] });
+    contents.push({ role: 'model', parts: [{ text: JSON.stringify(turn.result) }] });
+  }
+  contents.push({
+    role: 'user',
+    parts: message.kind === 'text'
+      ? [{ text: message.text }, { text: FOLLOW_UP_PROMPT }, { text: languageInstruction(language) }]
+      : [{ inlineData: { mimeType: message.mimeType, data: message.mediaBase64 } }, { text: FOLLOW_UP_PROMPT }, { text: languageInstruction(language) }]
+  });
+  return contents;
+};
+
+export const continueSession = async (
+  initial: AnalysisResult,
+  turns: ConversationTurn[],
+  message: FollowUpMessage,
+  options: RequestOptions = {}
+): Promise<FollowUpReply> => {
+  try {
+    const { result, text } = await requestAnalysis(buildFollowUpContents(initial, turns, message, options.language), options.signal, followUpSchema);
+    const heard = (JSON.parse(text) as { heard?: unknown }).heard;
+    return {
+      result,
+      heard: typeof heard === 'string' && heard.trim() ? heard.trim() : (message.kind === 'text' ? message.text : 'Voice reply')
+    };
+  } catch (error) {
+    console.error("Follow-up failed:", error);
+    throw error;
+  }
+};
+
+const cueSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    emotion: { type: Type.STRING, description: "The emotion that seems to be emerging so far." },
+    note: { type: Type.STRING, description: "Three to six words on what you noticed, e.g. 'voice softening, slower pace'." },
+    flowerConfig: analysisSchema.properties!.flowerConfig
+  },
+  required: ["emotion", "note", "flowerConfig"]
+};
+
+// A fast, provisional read of a partial recording. Uses a lighter model so cues keep up with speech.
+export const analyzeCue = async (mediaBase64: string, mimeType: string, options: RequestOptions = {}): Promise<Omit<EmotionCue, 'atSeconds'>> => {
+  const response = await getClient().models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data: mediaBase64 } },
+        {
+          text: `This is the first part of a recording that is still in progress. Give a quick, tentative read of the emotion emerging so far.
+
+            RULES FOR FLOWER CONFIG:
+            ${flowerRules}`
+        }
+      ]
+    },
+    config: {
+      abortSignal: options.signal,
+      responseMimeType: "application/json",
+      responseSchema: cueSchema
+    }
+  });
+  assertNotBlocked(response);
+  const cue = parseEmotionCue(response.text);
+  if (!cue) throw new AnalysisValidationError(['unusable live cue']);
+  return cue;
+};
+
+const PACE_DIRECTIONS: Record<SpeechPace, string> = {
+  slower: 'slowly, leaving gentle pauses',
+  normal: 'at an unhurried, natural pace',
+  faster: 'at a brisk but calm pace'
+};
+
+const STYLE_DIRECTIONS: Record<SpeechStyle, string> = {
+  neutral: 'in a calm, steady voice',
+  warmer: 'in a warm, caring voice',
+  whispered: 'in a soft whisper'
+};
+
+// The TTS model takes delivery instructions as plain text ahead of the line to read
+const speechDirection = (voice?: VoiceOptions) =>
+  voice ? `Say ${PACE_DIRECTIONS[voice.pace]}, ${STYLE_DIRECTIONS[voice.style]}: ` : '';
+
+export const generateAffirmationAudio = async (text: string, options: SpeechRequestOptions = {}): Promise<ArrayBuffer> => {
+  try {
+    const response = await getClient().models.generateContent({
       model: "gemini-2.5-flash-preview-tts",
       contents: {
-        parts: [{ text }]
+        parts: [{ text: `${speechDirection(options.voice)}${text}` }]
       },
       config: {
+        abortSignal: options.signal,
         responseModalities: [Modality.AUDIO],
         speechConfig: {
           voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' } // Kore is generally warm/neutral
+            prebuiltVoiceConfig: { voiceName: options.voice?.voice ?? 'Kore' } // Kore is generally warm/neutral
           }
         }
       }
     });
 
+    assertNotBlocked(response);
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!base64Audio) {
       throw new Error("No audio generated");
@@ -129,4 +387,13 @@ export const generateAffirmationAudio = async (text: string): Promise<ArrayBuffe
     console.error("TTS generation failed:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: AnalysisProvider = {
+  name: 'gemini',
+  analyzeSession,
+  analyzeText,
+  continueSession,
+  generateAffirmationAudio,
+  analyzeCue
+};
@@ -0,0 +1,304 @@
+import { AcousticFeatures, AnalysisResult, BreathingRecord, JournalEntry, MediaType, QueuedSession, SafetyPlan } from "../types";
+import { SealedBox, isVaultEnabled, openBytes, openJson, sealBytes, sealJson } from "./vault";
+
+const DB_NAME = 'echotherapy';
+const DB_VERSION = 5;
+const STORE = 'sessions';
+const BREATHING_STORE = 'breathing';
+// Recordings live apart from sessions so listing the journal never has to load them
+const MEDIA_STORE = 'media';
+// Sessions captured offline, waiting for a connection to be analyzed
+const QUEUE_STORE = 'queue';
+// The user's safety plan, a single record
+const SAFETY_STORE = 'safety';
+const SAFETY_PLAN_ID = 'plan';
+
+// With the vault on, everything but the id and date (needed for ordering) is encrypted
+interface SealedEntry {
+  id: string;
+  createdAt: number;
+  sealed: SealedBox;
+}
+
+type StoredEntry = JournalEntry | SealedEntry;
+
+type StoredMedia =
+  | { id: string; mimeType: string; blob: Blob }
+  | { id: string; mimeType: string; sealed: SealedBox };
+
+type StoredQueued =
+  | QueuedSession
+  | Omit<QueuedSession, 'text' | 'media'> & { sealedText?: SealedBox; mimeType?: string; sealedMedia?: SealedBox };
+
+type StoredSafetyPlan = { id: string; plan: SafetyPlan } | { id: string; sealed: SealedBox };
+
+// startedAt stays readable for the index
+type StoredBreathing = BreathingRecord | { id: string; startedAt: number; sealed: SealedBox };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(BREATHING_STORE)) {
+          const store = db.createObjectStore(BREATHING_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          const store = db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(SAFETY_STORE)) {
+          db.createObjectStore(SAFETY_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-store transaction so callers can just await the request result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const toStored = async (entry: JournalEntry, sealed = isVaultEnabled()): Promise<StoredEntry> => {
+  if (!sealed) return entry;
+  const { id, createdAt, ...rest } = entry;
+  return { id, createdAt, sealed: await sealJson(rest) };
+};
+
+const fromStored = async (record: StoredEntry): Promise<JournalEntry> => {
+  if (!('sealed' in record)) return record;
+  const rest = await openJson<Omit<JournalEntry, 'id' | 'createdAt'>>(record.sealed);
+  return { id: record.id, createdAt: record.createdAt, ...rest };
+};
+
+const toStoredMedia = async (id: string, blob: Blob, sealed = isVaultEnabled()): Promise<StoredMedia> =>
+  sealed
+    ? { id, mimeType: blob.type, sealed: await sealBytes(await blob.arrayBuffer()) }
+    : { id, mimeType: blob.type, blob };
+
+export interface SessionDetails {
+  text?: string;
+  media?: Blob;
+  acoustics?: AcousticFeatures;
+  createdAt?: number; // queued sessions keep the time they were recorded
+}
+
+export const saveSession = async (
+  result: AnalysisResult,
+  mediaType: MediaType,
+  { text, media, acoustics, createdAt = Date.now() }: SessionDetails = {}
+): Promise<JournalEntry> => {
+  const entry: JournalEntry = {
+    id: createId(),
+    createdAt,
+    mediaType,
+    result,
+    ...(text ? { text } : {}),
+    ...(media ? { hasMedia: true } : {}),
+    ...(acoustics ? { acoustics } : {})
+  };
+  const stored = await toStored(entry);
+  await withStore('readwrite', store => store.put(stored));
+  if (media) {
+    const storedMedia = await toStoredMedia(entry.id, media);
+    await withStore('readwrite', store => store.put(storedMedia), MEDIA_STORE);
+  }
+  return entry;
+};
+
+export const updateSession = async (id: string, changes: Partial<Omit<JournalEntry, 'id'>>): Promise<void> => {
+  const existing = await withStore<StoredEntry | undefined>('readonly', store => store.get(id));
+  if (!existing) throw new Error(`Journal entry ${id} not found`);
+  const updated = await toStored({ ...await fromStored(existing), ...changes });
+  await withStore('readwrite', store => store.put(updated));
+};
+
+// Newest first
+export const listSessions = async (): Promise<JournalEntry[]> => {
+  const records = await withStore<StoredEntry[]>('readonly', store => store.index('createdAt').getAll());
+  const entries = await Promise.all(records.map(fromStored));
+  return entries.reverse();
+};
+
+// The original recording, when the user chose to keep recordings
+export const loadSessionMedia = async (id: string): Promise<Blob | null> => {
+  const record = await withStore<StoredMedia | undefined>('readonly', store => store.get(id), MEDIA_STORE);
+  if (!record) return null;
+  if ('blob' in record) return record.blob;
+  return new Blob([await openBytes(record.sealed)], { type: record.mimeType });
+};
+
+const toStoredQueued = async (item: QueuedSession, sealed = isVaultEnabled()): Promise<StoredQueued> => {
+  if (!sealed) return item;
+  const { text, media, ...rest } = item;
+  return {
+    ...rest,
+    ...(text ? { sealedText: await sealJson(text) } : {}),
+    ...(media ? { mimeType: media.type, sealedMedia: await sealBytes(await media.arrayBuffer()) } : {})
+  };
+};
+
+const fromStoredQueued = async (record: StoredQueued): Promise<QueuedSession> => {
+  if (!('sealedText' in record) && !('sealedMedia' in record)) return record;
+  const { sealedText, mimeType, sealedMedia, ...rest } = record;
+  return {
+    ...rest,
+    ...(sealedText ? { text: await openJson<string>(sealedText) } : {}),
+    ...(sealedMedia ? { media: new Blob([await openBytes(sealedMedia)], { type: mimeType }) } : {})
+  };
+};
+
+export const enqueueSession = async (item: Omit<QueuedSession, 'id' | 'createdAt'>): Promise<QueuedSession> => {
+  const queued: QueuedSession = { id: createId(), createdAt: Date.now(), ...item };
+  const stored = await toStoredQueued(queued);
+  await withStore('readwrite', store => store.put(stored), QUEUE_STORE);
+  return queued;
+};
+
+// Oldest first, so they reach the journal in the order they were recorded
+export const listQueuedSessions = async (): Promise<QueuedSession[]> => {
+  const records = await withStore<StoredQueued[]>('readonly', store => store.index('createdAt').getAll(), QUEUE_STORE);
+  return Promise.all(records.map(fromStoredQueued));
+};
+
+// Records a failed attempt, or clears one when the user retries
+export const updateQueuedSession = async (item: QueuedSession): Promise<void> => {
+  const stored = await toStoredQueued(item);
+  await withStore('readwrite', store => store.put(stored), QUEUE_STORE);
+};
+
+export const removeQueuedSession = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id), QUEUE_STORE);
+};
+
+const toStoredSafetyPlan = async (plan: SafetyPlan, sealed = isVaultEnabled()): Promise<StoredSafetyPlan> =>
+  sealed ? { id: SAFETY_PLAN_ID, sealed: await sealJson(plan) } : { id: SAFETY_PLAN_ID, plan };
+
+export const loadSafetyPlan = async (): Promise<SafetyPlan | null> => {
+  const record = await withStore<StoredSafetyPlan | undefined>('readonly', store => store.get(SAFETY_PLAN_ID), SAFETY_STORE);
+  if (!record) return null;
+  return 'plan' in record ? record.plan : openJson<SafetyPlan>(record.sealed);
+};
+
+export const saveSafetyPlan = async (plan: SafetyPlan): Promise<void> => {
+  const stored = await toStoredSafetyPlan(plan);
+  await withStore('readwrite', store => store.put(stored), SAFETY_STORE);
+};
+
+// Re-writes everything stored, sealed or in the clear, in one transaction so a failure leaves it all as it was.
+// Needs the vault key: create the vault before sealing, and only remove it once this has resolved.
+export const reencryptAll = async (sealed: boolean): Promise<void> => {
+  const entries = await listSessions();
+  const media = await Promise.all(entries.filter(entry => entry.hasMedia).map(async entry => ({
+    id: entry.id,
+    blob: await loadSessionMedia(entry.id)
+  })));
+  const queued = await listQueuedSessions();
+  const safetyPlan = await loadSafetyPlan();
+  const breathing = await listBreathingRecords();
+
+  // Encrypting is async, so every record is prepared before the transaction opens or it would auto-commit early
+  const put = async (storeName: string, record: Promise<unknown>): Promise<[string, unknown]> => [storeName, await record];
+  const writes = await Promise.all([
+    ...entries.map(entry => put(STORE, toStored(entry, sealed))),
+    ...media.filter(({ blob }) => blob).map(({ id, blob }) => put(MEDIA_STORE, toStoredMedia(id, blob, sealed))),
+    ...queued.map(item => put(QUEUE_STORE, toStoredQueued(item, sealed))),
+    ...breathing.map(record => put(BREATHING_STORE, toStoredBreathing(record, sealed))),
+    ...(safetyPlan ? [put(SAFETY_STORE, toStoredSafetyPlan(safetyPlan, sealed))] : [])
+  ]);
+
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([STORE, MEDIA_STORE, QUEUE_STORE, BREATHING_STORE, SAFETY_STORE], 'readwrite');
+    for (const [storeName, record] of writes) tx.objectStore(storeName).put(record);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const searchSessionsByEmotion = async (query: string): Promise<JournalEntry[]> => {
+  const entries = await listSessions();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(entry => entry.result.emotion.toLowerCase().includes(needle));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  await withStore('readwrite', store => store.delete(id), MEDIA_STORE);
+};
+
+// The journal's "Delete all": entries and their recordings only. Breathing history, offline recordings not yet
+// in the journal and the safety plan (crisis data) only go with deleteEverything.
+export const clearSessions = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+  await withStore('readwrite', store => store.clear(), MEDIA_STORE);
+};
+
+// Every store, for wiping all data from the device
+export const clearAllData = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+  await withStore('readwrite', store => store.clear(), BREATHING_STORE);
+  await withStore('readwrite', store => store.clear(), MEDIA_STORE);
+  await withStore('readwrite', store => store.clear(), QUEUE_STORE);
+  await withStore('readwrite', store => store.clear(), SAFETY_STORE);
+};
+
+const toStoredBreathing = async (record: BreathingRecord, sealed = isVaultEnabled()): Promise<StoredBreathing> => {
+  if (!sealed) return record;
+  const { id, startedAt, ...rest } = record;
+  return { id, startedAt, sealed: await sealJson(rest) };
+};
+
+const fromStoredBreathing = async (record: StoredBreathing): Promise<BreathingRecord> => {
+  if (!('sealed' in record)) return record;
+  const rest = await openJson<Omit<BreathingRecord, 'id' | 'startedAt'>>(record.sealed);
+  return { id: record.id, startedAt: record.startedAt, ...rest };
+};
+
+export const saveBreathingRecord = async (record: Omit<BreathingRecord, 'id'>): Promise<BreathingRecord> => {
+  const saved: BreathingRecord = { id: createId(), ...record };
+  const stored = await toStoredBreathing(saved);
+  await withStore('readwrite', store => store.put(stored), BREATHING_STORE);
+  return saved;
+};
+
+export const listBreathingRecords = async (): Promise<BreathingRecord[]> => {
+  const records = await withStore<StoredBreathing[]>('readonly', store => store.index('startedAt').getAll(), BREATHING_STORE);
+  return Promise.all(records.map(fromStoredBreathing));
+};
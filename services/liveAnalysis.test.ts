@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { recentWindow } from './liveAnalysis';
+
+const chunks = (n: number) => Array.from({ length: n }, (_, i) => new Blob([`chunk-${i}`]));
+
+describe('recentWindow', () => {
+  it('sends everything while the recording is short', () => {
+    const all = chunks(5);
+    expect(recentWindow(all, 4)).toEqual(all);
+  });
+
+  it('keeps the header chunk ahead of the latest few', () => {
+    const all = chunks(12);
+    expect(recentWindow(all, 4)).toEqual([all[0], all[8], all[9], all[10], all[11]]);
+  });
+});
@@ -0,0 +1,81 @@
+import { AnalysisProvider, EmotionCue } from "../types";
+import { blobToBase64 } from "./media";
+import { withRetry } from "./requestPipeline";
+
+// How often MediaRecorder hands us a chunk, and the minimum gap between cue requests
+export const LIVE_CHUNK_MS = 2000;
+const MIN_CUE_INTERVAL_MS = 4000;
+// A cue is only useful while it's current: no retries, and a hung request is given up quickly
+const CUE_TIMEOUT_MS = 10000;
+// How much recent audio each cue looks at
+const WINDOW_CHUNKS = 4;
+// After this many failed cues in a row, stop trying and let the batch analysis do the work
+const MAX_CONSECUTIVE_FAILURES = 2;
+
+export interface LiveAnalyzer {
+  push: (chunk: Blob) => void;
+  stop: () => void;
+}
+
+interface LiveAnalyzerOptions {
+  provider: AnalysisProvider;
+  mimeType: string;
+  onCue: (cue: EmotionCue) => void;
+}
+
+export const supportsLiveAnalysis = (provider: AnalysisProvider) =>
+  typeof provider.analyzeCue === 'function' && typeof MediaRecorder !== 'undefined';
+
+// Container formats only decode from the start, so the first chunk (which carries the header) is
+// sent ahead of the most recent few; the model sees a short, decodable window rather than everything so far
+export const recentWindow = (chunks: Blob[], size = WINDOW_CHUNKS): Blob[] =>
+  chunks.length <= size + 1 ? chunks : [chunks[0], ...chunks.slice(-size)];
+
+export const createLiveAnalyzer = ({ provider, mimeType, onCue }: LiveAnalyzerOptions): LiveAnalyzer => {
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+  let controller: AbortController | null = null;
+  let lastRequestAt = 0;
+  let failures = 0;
+  let stopped = false;
+
+  const requestCue = async () => {
+    const analyzeCue = provider.analyzeCue;
+    if (!analyzeCue) return;
+
+    controller = new AbortController();
+    lastRequestAt = Date.now();
+    const atSeconds = Math.round((lastRequestAt - startedAt) / 1000);
+    try {
+      const data = await blobToBase64(new Blob(recentWindow(chunks), { type: mimeType }));
+      const cue = await withRetry(
+        signal => analyzeCue(data, mimeType, { signal }),
+        { signal: controller.signal, retries: 0, timeoutMs: CUE_TIMEOUT_MS }
+      );
+      failures = 0;
+      if (!stopped) onCue({ ...cue, atSeconds });
+    } catch (err) {
+      if (stopped) return;
+      failures++;
+      console.warn(`Live cue failed (${failures}/${MAX_CONSECUTIVE_FAILURES})`, err);
+    } finally {
+      controller = null;
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      if (stopped) return;
+      chunks.push(chunk);
+      const busy = controller !== null;
+      const tooSoon = Date.now() - lastRequestAt < MIN_CUE_INTERVAL_MS;
+      if (!busy && !tooSoon && failures < MAX_CONSECUTIVE_FAILURES) {
+        requestCue();
+      }
+    },
+    stop: () => {
+      stopped = true;
+      controller?.abort();
+    }
+  };
+};
@@ -0,0 +1,42 @@
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      // Data URL format: "data:audio/webm;base64,....."
+      // We need just the base64 part
+      const result = reader.result as string;
+      const base64String = result.includes(',') ? result.split(',')[1] : result;
+      resolve(base64String);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Web Share where the browser can share files, otherwise a plain download
+export const shareOrDownload = async (blob: Blob, filename: string, title: string): Promise<'shared' | 'downloaded'> => {
+  const file = new File([blob], filename, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return 'shared';
+    } catch (err) {
+      // Dismissing the share sheet isn't a failure; anything else falls through to download
+      if ((err as Error)?.name === 'AbortError') return 'shared';
+      console.warn("Share failed, downloading instead", err);
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return 'downloaded';
+};
@@ -0,0 +1,123 @@
+import { MediaType, RecordingSettings } from "../types";
+
+export interface InputDevices {
+  audio: MediaDeviceInfo[];
+  video: MediaDeviceInfo[];
+}
+
+export type PermissionProblemKind = 'denied' | 'not_found' | 'in_use' | 'insecure' | 'unsupported' | 'unknown';
+
+export interface PermissionProblem {
+  kind: PermissionProblemKind;
+  title: string;
+  steps: string[];
+}
+
+const PROBLEMS: Record<PermissionProblemKind, Omit<PermissionProblem, 'kind'>> = {
+  denied: {
+    title: 'EchoTherapy isn\'t allowed to use your microphone or camera',
+    steps: [
+      'Click the camera or lock icon next to the address bar and allow the microphone (and camera for video).',
+      'On a phone, check the browser\'s permissions in your system settings too.',
+      'Then try again below.'
+    ]
+  },
+  not_found: {
+    title: 'We couldn\'t find a microphone or camera',
+    steps: [
+      'Check that your headset, microphone or webcam is plugged in and switched on.',
+      'If you picked a specific device, choose "Default" instead; it may have been disconnected.',
+      'You can also write it down or upload a recording you already have.'
+    ]
+  },
+  in_use: {
+    title: 'Your microphone or camera is busy',
+    steps: [
+      'Another app or tab may be using it; video calls are the usual culprit.',
+      'Close that app or end the call, then try again.'
+    ]
+  },
+  insecure: {
+    title: 'Recording needs a secure connection',
+    steps: [
+      'Browsers only allow the microphone on https:// pages or on localhost.',
+      'Open EchoTherapy from its https address and try again.'
+    ]
+  },
+  unsupported: {
+    title: 'This browser can\'t record here',
+    steps: [
+      'Try a recent version of Chrome, Edge, Firefox or Safari.',
+      'You can still write how you feel, or upload a recording you already have.'
+    ]
+  },
+  unknown: {
+    title: 'Something stopped the recording from starting',
+    steps: [
+      'Try again; if it keeps happening, reload the page.',
+      'Choosing a different microphone or camera sometimes helps.'
+    ]
+  }
+};
+
+// getUserMedia failures come back as DOMExceptions with inconsistent names across browsers
+export const describeMediaError = (error: unknown): PermissionProblem => {
+  const name = (error as { name?: string })?.name ?? '';
+  let kind: PermissionProblemKind = 'unknown';
+  if (!window.isSecureContext) kind = 'insecure';
+  else if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') kind = 'unsupported';
+  else if (name === 'NotAllowedError' || name === 'PermissionDeniedError' || name === 'SecurityError') kind = 'denied';
+  else if (name === 'NotFoundError' || name === 'DevicesNotFoundError' || name === 'OverconstrainedError') kind = 'not_found';
+  else if (name === 'NotReadableError' || name === 'TrackStartError' || name === 'AbortError') kind = 'in_use';
+  return { kind, ...PROBLEMS[kind] };
+};
+
+// Labels stay empty until the user has granted access once
+export const listInputDevices = async (): Promise<InputDevices> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return { audio: [], video: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    audio: devices.filter(d => d.kind === 'audioinput' && d.deviceId),
+    video: devices.filter(d => d.kind === 'videoinput' && d.deviceId)
+  };
+};
+
+// `ideal` rather than `exact`, so a device that has since been unplugged falls back to the default
+export const buildConstraints = (type: MediaType, devices: Pick<RecordingSettings, 'audioDeviceId' | 'videoDeviceId'>): MediaStreamConstraints => {
+  const audio: boolean | MediaTrackConstraints = devices.audioDeviceId ? { deviceId: { ideal: devices.audioDeviceId } } : true;
+  if (type !== MediaType.VIDEO) return { audio, video: false };
+  return { audio, video: devices.videoDeviceId ? { deviceId: { ideal: devices.videoDeviceId } } : true };
+};
+
+export interface LevelMeter {
+  // level is 0-1, the loudness of the latest frame; waveform is the raw frame (128 = silence)
+  read: () => { level: number; waveform: Uint8Array };
+  stop: () => void;
+}
+
+// Taps the stream's audio for display only; nothing is routed to the speakers
+export const createLevelMeter = (stream: MediaStream): LevelMeter => {
+  const ctx = new AudioContext();
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+  const waveform = new Uint8Array(analyser.fftSize);
+
+  return {
+    read: () => {
+      analyser.getByteTimeDomainData(waveform);
+      let sum = 0;
+      for (let i = 0; i < waveform.length; i++) {
+        const v = (waveform[i] - 128) / 128;
+        sum += v * v;
+      }
+      // Speech RMS rarely passes 0.3, so scale it up to use the whole meter
+      return { level: Math.min(1, Math.sqrt(sum / waveform.length) * 3.5), waveform };
+    },
+    stop: () => {
+      source.disconnect();
+      ctx.close();
+    }
+  };
+};
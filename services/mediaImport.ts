@@ -0,0 +1,133 @@
+import { MediaType } from "../types";
+import { encodeWav, floatTo16BitPcm } from "./audioCodec";
+import { MAX_MEDIA_BYTES, TARGET_SAMPLE_RATE, decodeAudio, reencodeVideo, renderMono } from "./mediaPreprocess";
+
+// Refuse to even open files far beyond anything we could trim down in the browser
+const MAX_SOURCE_BYTES = 500 * 1024 * 1024;
+// Some files never report metadata, or never finish the seek that reveals their length
+const PROBE_TIMEOUT_MS = 10000;
+
+const ACCEPTED_TYPES: Record<string, MediaType> = {
+  'audio/webm': MediaType.AUDIO,
+  'audio/ogg': MediaType.AUDIO,
+  'audio/mpeg': MediaType.AUDIO,
+  'audio/mp3': MediaType.AUDIO,
+  'audio/mp4': MediaType.AUDIO,
+  'audio/x-m4a': MediaType.AUDIO,
+  'audio/aac': MediaType.AUDIO,
+  'audio/wav': MediaType.AUDIO,
+  'audio/x-wav': MediaType.AUDIO,
+  'audio/flac': MediaType.AUDIO,
+  'video/webm': MediaType.VIDEO,
+  'video/mp4': MediaType.VIDEO,
+  'video/quicktime': MediaType.VIDEO,
+  'video/ogg': MediaType.VIDEO
+};
+
+// Browsers sometimes leave File.type empty (notably for .m4a on Windows)
+const EXTENSION_TYPES: Record<string, string> = {
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  aac: 'audio/aac',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm'
+};
+
+export const ACCEPT_ATTRIBUTE = [...Object.keys(ACCEPTED_TYPES), ...Object.keys(EXTENSION_TYPES).map(ext => `.${ext}`)].join(',');
+
+export interface ImportedMedia {
+  file: File;
+  mimeType: string;
+  type: MediaType;
+  duration: number; // seconds
+}
+
+export const resolveMimeType = (file: File): string => {
+  const base = file.type.split(';')[0].toLowerCase();
+  if (base) return base;
+  const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_TYPES[ext] ?? '';
+};
+
+// Settles exactly once; on timeout it reports whatever duration is known (often Infinity or NaN),
+// which inspectImport turns into a readable error instead of leaving the import spinning
+const probeDuration = (file: File, type: MediaType): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const el = document.createElement(type === MediaType.VIDEO ? 'video' : 'audio');
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      el.onloadedmetadata = null;
+      el.ontimeupdate = null;
+      el.onerror = null;
+      el.removeAttribute('src');
+      el.load();
+      URL.revokeObjectURL(url);
+      finish();
+    };
+    const timer = setTimeout(() => {
+      const duration = el.duration;
+      settle(() => resolve(duration));
+    }, PROBE_TIMEOUT_MS);
+
+    el.preload = 'metadata';
+    el.onloadedmetadata = () => {
+      // MediaRecorder webm files report Infinity until seeked to the end
+      if (el.duration === Infinity) {
+        el.ontimeupdate = () => {
+          const duration = el.duration;
+          settle(() => resolve(duration));
+        };
+        el.currentTime = Number.MAX_SAFE_INTEGER;
+        return;
+      }
+      const duration = el.duration;
+      settle(() => resolve(duration));
+    };
+    el.onerror = () => settle(() => reject(new Error('This file could not be read. It may be damaged or in an unsupported format.')));
+    el.src = url;
+  });
+
+// Throws a user-facing message when the file can't be used at all
+export const inspectImport = async (file: File): Promise<ImportedMedia> => {
+  const mimeType = resolveMimeType(file);
+  const type = ACCEPTED_TYPES[mimeType];
+  if (!type) {
+    throw new Error('Please choose an audio or video file (for example MP3, M4A, WAV, MP4, MOV or WebM).');
+  }
+  if (file.size > MAX_SOURCE_BYTES) {
+    throw new Error('That file is too large to open here. Try a shorter clip.');
+  }
+  const duration = await probeDuration(file, type);
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error('We couldn\'t tell how long this file is. Try a different format.');
+  }
+  return { file, mimeType, type, duration };
+};
+
+// A file can go through untouched when it already fits the live-recording budget
+export const needsTrim = (media: ImportedMedia, maxSeconds: number) =>
+  media.duration > maxSeconds + 0.5 || media.file.size > MAX_MEDIA_BYTES;
+
+// Audio: decode, cut, and re-encode as small mono 16kHz WAV
+const trimAudio = async (file: File, start: number, end: number): Promise<Blob> => {
+  const samples = await renderMono(await decodeAudio(file), start, end);
+  return encodeWav(floatTo16BitPcm(samples), TARGET_SAMPLE_RATE);
+};
+
+export const trimMedia = async (media: ImportedMedia, start: number, end: number): Promise<{ blob: Blob; mimeType: string }> => {
+  const blob = media.type === MediaType.VIDEO
+    ? await reencodeVideo(media.file, { start, end })
+    : await trimAudio(media.file, start, end);
+  if (blob.size > MAX_MEDIA_BYTES) {
+    throw new Error('Even trimmed, this clip is too large. Try a shorter segment.');
+  }
+  return { blob, mimeType: blob.type };
+};
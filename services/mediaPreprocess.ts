@@ -0,0 +1,352 @@
+import { InlineMedia, MediaType } from "../types";
+import { MAX_INLINE_PAYLOAD_BYTES } from "../constants";
+import { encodeWav, floatTo16BitPcm } from "./audioCodec";
+import { AnalysisRequestError } from "./requestPipeline";
+import { blobToBase64 } from "./media";
+
+// Raw bytes that still fit inline once base64-encoded
+export const MAX_MEDIA_BYTES = Math.floor(MAX_INLINE_PAYLOAD_BYTES * 3 / 4);
+// Speech needs nothing above 8kHz, so 16kHz mono loses nothing the model listens for
+export const TARGET_SAMPLE_RATE = 16000;
+// Below this RMS (about -40 dBFS) a window counts as silence
+const SILENCE_RMS = 0.01;
+const SILENCE_WINDOW_SECONDS = 0.02;
+// Keep a little air either side so the first and last words aren't clipped
+const SILENCE_PADDING_SECONDS = 0.3;
+// When keyframes can't be taken, videos larger than this get downscaled instead, even if they'd technically fit
+const VIDEO_SOFT_BUDGET_BYTES = 8 * 1024 * 1024;
+const VIDEO_MAX_HEIGHT = 480;
+const VIDEO_FPS = 15;
+const VIDEO_BITS_PER_SECOND = 600_000;
+// Video is reduced to its soundtrack plus stills; the model only samples about one frame a second anyway
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_KEYFRAMES = 20;
+const KEYFRAME_QUALITY = 0.7;
+// Recorder webm has no seek index, so a seek can stall; give up on the rest rather than hang
+const KEYFRAME_SEEK_TIMEOUT_MS = 5000;
+
+export interface PreparedMedia {
+  blob: Blob;
+  mimeType: string;
+  frames: Blob[]; // JPEG stills when a video was reduced to keyframes, otherwise empty
+  bytes: number; // everything that will be sent, frames included
+  originalBytes: number;
+}
+
+export interface InlinePayload extends InlineMedia {
+  frames: InlineMedia[];
+}
+
+const abortError = () => new DOMException('Preprocessing was cancelled', 'AbortError');
+
+export const decodeAudio = async (source: Blob): Promise<AudioBuffer> => {
+  const ctx = new AudioContext();
+  try {
+    return await ctx.decodeAudioData(await source.arrayBuffer());
+  } finally {
+    ctx.close();
+  }
+};
+
+// Renders [start, end) of a decoded buffer as mono at the target rate; the offline context does the downmix
+export const renderMono = async (
+  audio: AudioBuffer,
+  start = 0,
+  end = audio.duration,
+  sampleRate = TARGET_SAMPLE_RATE
+): Promise<Float32Array> => {
+  const frames = Math.max(1, Math.ceil((end - start) * sampleRate));
+  const offline = new OfflineAudioContext(1, frames, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = audio;
+  source.connect(offline.destination);
+  source.start(0, start, end - start);
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+// Drops leading and trailing silence. A recording with no speech at all is returned unchanged.
+export const trimSilence = (samples: Float32Array, sampleRate: number): Float32Array => {
+  const window = Math.max(1, Math.round(SILENCE_WINDOW_SECONDS * sampleRate));
+  const loud = (from: number) => {
+    let sum = 0;
+    const to = Math.min(samples.length, from + window);
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    return Math.sqrt(sum / (to - from)) >= SILENCE_RMS;
+  };
+
+  let first = -1;
+  for (let i = 0; i < samples.length; i += window) {
+    if (loud(i)) {
+      first = i;
+      break;
+    }
+  }
+  if (first === -1) return samples;
+
+  let last = first;
+  for (let i = Math.floor((samples.length - 1) / window) * window; i > first; i -= window) {
+    if (loud(i)) {
+      last = i + window;
+      break;
+    }
+  }
+
+  const padding = Math.round(SILENCE_PADDING_SECONDS * sampleRate);
+  return samples.subarray(Math.max(0, first - padding), Math.min(samples.length, last + padding));
+};
+
+const encodeSpeech = (audio: AudioBuffer, trim = true): Promise<Blob> =>
+  renderMono(audio).then(samples =>
+    encodeWav(floatTo16BitPcm(trim ? trimSilence(samples, TARGET_SAMPLE_RATE) : samples), TARGET_SAMPLE_RATE)
+  );
+
+// Evenly spaced stills, scaled down and JPEG-encoded. Seeking decodes single frames, so this is far
+// quicker than playing the clip through; the duration comes from the decoded soundtrack because
+// recorder webm reports Infinity.
+export const extractKeyframes = (
+  source: Blob,
+  duration: number,
+  { maxHeight = VIDEO_MAX_HEIGHT, signal }: { maxHeight?: number; signal?: AbortSignal } = {}
+): Promise<Blob[]> =>
+  new Promise((resolve, reject) => {
+    const count = Math.max(1, Math.min(MAX_KEYFRAMES, Math.ceil(duration / KEYFRAME_INTERVAL_SECONDS)));
+    const times = Array.from({ length: count }, (_, i) => ((i + 0.5) * duration) / count);
+    const url = URL.createObjectURL(source);
+    const video = document.createElement('video');
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    const frames: Blob[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let done = false;
+
+    const finish = () => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      video.onloadeddata = video.onseeked = video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) reject(abortError());
+      else if (frames.length) resolve(frames);
+      else reject(new Error('No frames could be read from this video.'));
+    };
+    const onAbort = () => finish();
+    signal?.addEventListener('abort', onAbort);
+    if (!ctx) {
+      finish();
+      return;
+    }
+
+    const seekNext = () => {
+      if (done) return;
+      if (signal?.aborted || frames.length === times.length) {
+        finish();
+        return;
+      }
+      timer = setTimeout(finish, KEYFRAME_SEEK_TIMEOUT_MS);
+      video.currentTime = times[frames.length];
+    };
+
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      const scale = Math.min(1, maxHeight / (video.videoHeight || maxHeight));
+      canvas.width = Math.round(video.videoWidth * scale) || 2;
+      canvas.height = Math.round(video.videoHeight * scale) || 2;
+      seekNext();
+    };
+    video.onseeked = () => {
+      clearTimeout(timer);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => {
+        if (blob) frames.push(blob);
+        else times.splice(frames.length, 1);
+        seekNext();
+      }, 'image/jpeg', KEYFRAME_QUALITY);
+    };
+    video.onerror = finish;
+    video.src = url;
+  });
+
+interface ReencodeOptions {
+  start?: number;
+  end?: number;
+  maxHeight?: number;
+  signal?: AbortSignal;
+}
+
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+// Plays the video through a scaled canvas into a MediaRecorder. Runs in real time, so a 30s clip takes 30s.
+export const reencodeVideo = (
+  source: Blob,
+  { start = 0, end = Infinity, maxHeight = VIDEO_MAX_HEIGHT, signal }: ReencodeOptions = {}
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const url = URL.createObjectURL(source);
+    const video = document.createElement('video') as CapturableVideo;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    let recorder: MediaRecorder | null = null;
+    let frame = 0;
+    let aborted = false;
+
+    const cleanup = () => {
+      cancelAnimationFrame(frame);
+      video.pause();
+      video.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const fail = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+    const onAbort = () => {
+      aborted = true;
+      if (recorder?.state === 'recording') recorder.stop();
+      else fail(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    const elementStream = video.captureStream?.bind(video) ?? video.mozCaptureStream?.bind(video);
+    if (!ctx || !elementStream || typeof canvas.captureStream !== 'function') {
+      fail(new Error('This browser can\'t re-encode video.'));
+      return;
+    }
+
+    video.muted = true;
+    video.playsInline = true;
+    video.src = url;
+
+    video.onloadedmetadata = () => {
+      const scale = Math.min(1, maxHeight / (video.videoHeight || maxHeight));
+      // Encoders want even dimensions
+      canvas.width = Math.round(video.videoWidth * scale / 2) * 2 || 2;
+      canvas.height = Math.round(video.videoHeight * scale / 2) * 2 || 2;
+      video.currentTime = start;
+    };
+
+    video.onseeked = () => {
+      video.onseeked = null;
+      const stream = canvas.captureStream(VIDEO_FPS);
+      elementStream().getAudioTracks().forEach(track => stream.addTrack(track));
+
+      const mimeType = ['video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'].find(t => MediaRecorder.isTypeSupported(t)) || '';
+      recorder = new MediaRecorder(stream, {
+        ...(mimeType ? { mimeType } : {}),
+        videoBitsPerSecond: VIDEO_BITS_PER_SECOND
+      });
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = e => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        cleanup();
+        if (aborted) reject(abortError());
+        else resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+      };
+
+      const draw = () => {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        if (video.currentTime >= end || video.ended) {
+          if (recorder.state === 'recording') recorder.stop();
+          return;
+        }
+        frame = requestAnimationFrame(draw);
+      };
+
+      recorder.start();
+      video.play().then(draw).catch(err => {
+        if (recorder.state === 'recording') recorder.stop();
+        fail(err);
+      });
+    };
+
+    video.onerror = () => fail(new Error('This video could not be played for re-encoding.'));
+  });
+
+interface Prepared {
+  blob: Blob;
+  frames: Blob[];
+}
+
+const totalBytes = ({ blob, frames }: Prepared) => frames.reduce((sum, frame) => sum + frame.size, blob.size);
+
+// Soundtrack plus keyframes first; when the video has no readable audio or frames, fall back to
+// downscaling it in real time, which is only worth the wait for large clips
+const prepareVideo = async (source: Blob, signal?: AbortSignal): Promise<Prepared> => {
+  try {
+    const audio = await decodeAudio(source);
+    // Untrimmed, so the soundtrack still lines up with the stills
+    const [soundtrack, frames] = await Promise.all([
+      encodeSpeech(audio, false),
+      extractKeyframes(source, audio.duration, { signal })
+    ]);
+    return { blob: soundtrack, frames };
+  } catch (err) {
+    if ((err as Error)?.name === 'AbortError') throw err;
+    console.warn("Keyframe extraction failed, keeping the video", err);
+  }
+  if (source.size <= VIDEO_SOFT_BUDGET_BYTES) return { blob: source, frames: [] };
+  return { blob: await reencodeVideo(source, { signal }), frames: [] };
+};
+
+// Shrinks a recording before upload. Pair with assertWithinBudget before sending.
+// Steps that the browser can't perform fall back to the original media rather than failing the session.
+export const preprocessMedia = async (
+  source: Blob,
+  type: MediaType,
+  mimeType: string,
+  signal?: AbortSignal
+): Promise<PreparedMedia> => {
+  const original: Prepared = { blob: source, frames: [] };
+  let prepared = original;
+  try {
+    prepared = type === MediaType.VIDEO
+      ? await prepareVideo(source, signal)
+      : { blob: await encodeSpeech(await decodeAudio(source)), frames: [] };
+  } catch (err) {
+    if ((err as Error)?.name === 'AbortError') throw err;
+    console.warn("Media preprocessing skipped", err);
+  }
+
+  // Uncompressed 16kHz WAV is often bigger than the recorder's Opus, so only keep processing that saved bytes
+  if (totalBytes(prepared) >= source.size) prepared = original;
+
+  return {
+    blob: prepared.blob,
+    mimeType: prepared.blob === source ? mimeType : prepared.blob.type,
+    frames: prepared.frames,
+    bytes: totalBytes(prepared),
+    originalBytes: source.size
+  };
+};
+
+export const assertWithinBudget = (prepared: PreparedMedia) => {
+  if (prepared.bytes > MAX_MEDIA_BYTES) {
+    throw new AnalysisRequestError('too_large', `Prepared media is ${prepared.bytes} bytes; the limit is ${MAX_MEDIA_BYTES}`);
+  }
+};
+
+// Base64 for the request, checked against the inline limit as a whole
+export const toInlinePayload = async (prepared: PreparedMedia): Promise<InlinePayload> => {
+  const data = await blobToBase64(prepared.blob);
+  const frames = await Promise.all(prepared.frames.map(async frame => ({ data: await blobToBase64(frame), mimeType: frame.type })));
+  const size = frames.reduce((sum, frame) => sum + frame.data.length, data.length);
+  if (size > MAX_INLINE_PAYLOAD_BYTES) throw new AnalysisRequestError('too_large');
+  return { data, mimeType: prepared.mimeType, frames };
+};
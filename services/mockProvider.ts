@@ -0,0 +1,244 @@
+import { AnalysisProvider, AnalysisResult, ConversationTurn, FlowerStyle, FollowUpMessage, FollowUpReply } from "../types";
+import { FLOWER_STYLES, FLOWER_STYLE_ORDER } from "../constants";
+import { inferStyleFromEmotion } from "./analysisValidation";
+
+const SAMPLE_RATE = 24000;
+
+type CannedResult = Omit<AnalysisResult, 'flowerConfig'> & { intensity: number; bloomSpeed: number };
+
+const CANNED_RESULTS: Record<FlowerStyle, CannedResult> = {
+  spiky: {
+    emotion: 'Frustration',
+    distressScore: 0.55,
+    empathySummary: 'It sounds like something keeps pushing against you, and you have every right to feel worn down by it.',
+    copingPlan: [
+      'Clench both fists for five seconds, then release slowly and notice the difference.',
+      'Breathe in for 4 counts and out for 6 counts, five times.',
+      'Write the one sentence you wish you could say, then put it away for an hour.'
+    ],
+    affirmationText: 'My friend, your anger is telling you something matters. You can listen to it without letting it lead.',
+    intensity: 7,
+    bloomSpeed: 4
+  },
+  drooping: {
+    emotion: 'Sadness',
+    distressScore: 0.6,
+    empathySummary: 'There is a heaviness in your voice, and it makes sense to feel it after what you have been carrying.',
+    copingPlan: [
+      'Place a hand on your chest and take three slow breaths, feeling it rise and fall.',
+      'Name five things you can see around you, out loud if you can.',
+      'Ask yourself what you would say to a friend feeling this way, and say it to yourself.'
+    ],
+    affirmationText: 'My friend, you are allowed to feel this. Sadness is not weakness; it is a sign of how deeply you care.',
+    intensity: 5,
+    bloomSpeed: 1
+  },
+  trembling: {
+    emotion: 'Anxiety',
+    distressScore: 0.65,
+    empathySummary: 'Your mind seems to be racing ahead of you, trying to prepare for everything at once.',
+    copingPlan: [
+      'Try box breathing: in for 4, hold for 4, out for 4, hold for 4, four rounds.',
+      'Press your feet into the floor and notice three points where your body is supported.',
+      'Write down the worry, then one thing that is within your control right now.'
+    ],
+    affirmationText: 'My friend, you are safe in this moment. One breath at a time is enough.',
+    intensity: 6,
+    bloomSpeed: 3
+  },
+  calm: {
+    emotion: 'Calm',
+    distressScore: 0.15,
+    empathySummary: 'You sound settled and present, like you have found a little space to breathe today.',
+    copingPlan: [
+      'Take one long breath and notice where you feel calm in your body.',
+      'Look around and find something you find quietly beautiful.',
+      'Note one thing that helped you feel this way so you can return to it.'
+    ],
+    affirmationText: 'My friend, this steadiness belongs to you. You can come back to it whenever you need.',
+    intensity: 3,
+    bloomSpeed: 2
+  },
+  particle: {
+    emotion: 'Hope',
+    distressScore: 0.05,
+    empathySummary: 'There is a lightness in you right now, a sense that things are opening up.',
+    copingPlan: [
+      'Breathe in slowly and let yourself really feel this good moment for ten seconds.',
+      'Name three small things that contributed to how you feel.',
+      'Reframe one recent challenge as something you have already grown through.'
+    ],
+    affirmationText: 'My friend, you deserve this joy. Let it fill you up and carry you forward.',
+    intensity: 8,
+    bloomSpeed: 5
+  }
+};
+
+// Above the crisis threshold, so the safety check, safety plan and crisis lines can be tried without a key.
+// Written entries that read like this get it; see CRISIS_TEXT.
+const CRISIS_RESULT: CannedResult = {
+  emotion: 'Despair',
+  distressScore: 0.9,
+  empathySummary: 'It sounds like everything feels too heavy right now, and like you can\'t see a way through it.',
+  copingPlan: [
+    'Reach out to one person or line from your safety plan right now, even just to say you are struggling.',
+    'Move somewhere you feel a little safer, and away from anything you could use to hurt yourself.',
+    'Breathe in for 4 counts and out for 6 counts while you wait for someone to answer.'
+  ],
+  affirmationText: 'My friend, you do not have to carry this alone. Reaching out right now is a strong thing to do.',
+  intensity: 9,
+  bloomSpeed: 1
+};
+
+const CRISIS_TEXT = /hopeless|can'?t go on|no way out|end it all|want to die|kill myself|no reason to live/i;
+
+// Swapped in when a follow-up says a step isn't working
+const ALTERNATIVE_STEPS = [
+  'Hold something cold, like a glass of water, and focus on the sensation for thirty seconds.',
+  'Stretch your arms overhead, then let them fall slowly, three times.',
+  'Name one thing you can hear, one you can smell and one you can touch.',
+  'Write down the thought that is loudest right now, then one kinder way to say it.'
+];
+
+const ORDINALS: [RegExp, number][] = [
+  [/\b(first|1st|one)\b/i, 0],
+  [/\b(second|2nd|two)\b/i, 1],
+  [/\b(third|3rd|three|last)\b/i, 2]
+];
+
+const REJECTS_STEP = /doesn'?t|does not|don'?t|can'?t|won'?t|not (work|help|for me)|hard/i;
+
+const MOCK_CUE_NOTES = ['steady pace', 'voice softening', 'a few long pauses', 'energy rising', 'breathing slower'];
+
+// Small stable string hash (djb2) so the same recording always maps to the same emotion
+const hash = (input: string) => {
+  let h = 5381;
+  for (let i = 0; i < input.length; i++) {
+    h = ((h << 5) + h + input.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+};
+
+// A second feeling under each canned one, so the offline flower shows a blend too
+const UNDERTONES: Record<FlowerStyle, { emotion: string; style: FlowerStyle }> = {
+  spiky: { emotion: 'sadness', style: 'drooping' },
+  drooping: { emotion: 'calm', style: 'calm' },
+  trembling: { emotion: 'hope', style: 'particle' },
+  calm: { emotion: 'hope', style: 'particle' },
+  particle: { emotion: 'calm', style: 'calm' }
+};
+
+const buildResult = (canned: CannedResult, style: FlowerStyle): AnalysisResult => {
+  const { intensity, bloomSpeed, ...rest } = canned;
+  const undertone = UNDERTONES[style];
+  return {
+    ...rest,
+    copingPlan: [...rest.copingPlan],
+    flowerConfig: {
+      baseColor: FLOWER_STYLES[style].color,
+      intensity,
+      bloomSpeed,
+      style,
+      secondaryColors: [FLOWER_STYLES[undertone.style].color],
+      blend: [
+        { emotion: rest.emotion.toLowerCase(), style, weight: 0.6 },
+        { ...undertone, weight: 0.4 }
+      ],
+      seed: hash(style)
+    }
+  };
+};
+
+export const cannedResultFor = (style: FlowerStyle): AnalysisResult => buildResult(CANNED_RESULTS[style], style);
+
+export const cannedCrisisResult = (): AnalysisResult => buildResult(CRISIS_RESULT, 'drooping');
+
+// A soft two-note chord with fade in/out, long enough to roughly match the spoken text
+export const generateTone = (text: string): ArrayBuffer => {
+  const seconds = Math.min(10, Math.max(2, text.length * 0.06));
+  const length = Math.floor(seconds * SAMPLE_RATE);
+  const fade = Math.floor(0.4 * SAMPLE_RATE);
+  const root = 220 + (hash(text) % 5) * 22;
+  const pcm = new Int16Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = Math.min(1, i / fade, (length - i) / fade);
+    const sample = 0.5 * Math.sin(2 * Math.PI * root * t) + 0.3 * Math.sin(2 * Math.PI * root * 1.5 * t);
+    pcm[i] = Math.round(sample * envelope * 0.4 * 32767);
+  }
+  return pcm.buffer;
+};
+
+export const continueMockSession = (
+  initial: AnalysisResult,
+  turns: ConversationTurn[],
+  message: FollowUpMessage
+): FollowUpReply => {
+  const previous = turns.length ? turns[turns.length - 1].result : initial;
+  const heard = message.kind === 'text' ? message.text : 'I recorded a voice reply.';
+  const copingPlan = [...previous.copingPlan];
+
+  if (message.kind === 'text' && REJECTS_STEP.test(message.text)) {
+    const target = ORDINALS.find(([pattern]) => pattern.test(message.text))?.[1] ?? copingPlan.length - 1;
+    copingPlan[target] = ALTERNATIVE_STEPS[(hash(message.text) + turns.length) % ALTERNATIVE_STEPS.length];
+  }
+
+  // Talking it through eases things a little each turn
+  const distressScore = Math.max(0, Math.round((previous.distressScore - 0.1) * 100) / 100);
+  return {
+    heard,
+    result: {
+      ...previous,
+      distressScore,
+      copingPlan,
+      empathySummary: 'Thank you for telling me more. Let\'s adjust things so they fit you better.',
+      affirmationText: 'My friend, you know yourself best, and it is wise to look for what truly helps.',
+      flowerConfig: { ...previous.flowerConfig, intensity: Math.max(1, previous.flowerConfig.intensity - 1) }
+    }
+  };
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+export const mockProvider: AnalysisProvider = {
+  name: 'mock',
+  analyzeSession: async (mediaBase64, _mimeType, options) => {
+    await delay(1200, options?.signal); // Long enough to see the analyzing state
+    // Sample a slice rather than the whole payload; recordings can be megabytes
+    const style = FLOWER_STYLE_ORDER[hash(mediaBase64.slice(0, 4096)) % FLOWER_STYLE_ORDER.length];
+    return cannedResultFor(style);
+  },
+  analyzeText: async (text, options) => {
+    await delay(800, options?.signal);
+    if (CRISIS_TEXT.test(text)) return cannedCrisisResult();
+    // Written entries can be read directly, so pick up obvious feeling words before falling back to the hash
+    const style = inferStyleFromEmotion(text) ?? FLOWER_STYLE_ORDER[hash(text) % FLOWER_STYLE_ORDER.length];
+    return cannedResultFor(style);
+  },
+  continueSession: async (initial, turns, message, options) => {
+    await delay(900, options?.signal);
+    return continueMockSession(initial, turns, message);
+  },
+  generateAffirmationAudio: async (text, options) => {
+    await delay(300, options?.signal);
+    return generateTone(text);
+  },
+  analyzeCue: async (mediaBase64, _mimeType, options) => {
+    await delay(500, options?.signal);
+    // Drift toward the style the final analysis will land on, so the preview agrees with the result
+    const { emotion, flowerConfig } = cannedResultFor(FLOWER_STYLE_ORDER[hash(mediaBase64.slice(0, 4096)) % FLOWER_STYLE_ORDER.length]);
+    return {
+      emotion,
+      note: MOCK_CUE_NOTES[hash(mediaBase64.slice(-256)) % MOCK_CUE_NOTES.length],
+      flower: flowerConfig
+    };
+  }
+};
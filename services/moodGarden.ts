@@ -0,0 +1,135 @@
+import { JournalEntry } from "../types";
+import { generateFlower } from "./flowerGeometry";
+import { drawFlower } from "./flowerCanvas";
+
+// Lays out and paints every saved session as one flower in a garden.
+// Flowers are pre-rendered once to small sprites, so a frame with hundreds of them is just drawImage calls.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Square sprite box in flower units: big enough for the largest heads, stem base on the bottom edge
+const SPRITE_UNITS = 400;
+const STEM_BASE_Y = 150;
+const SPRITE_PIXELS = 160;
+const PADDING = 40;
+// Ground band where stems are planted, as fractions of the canvas height
+const GROUND_TOP = 0.5;
+const GROUND_BOTTOM = 0.9;
+
+export interface GardenPlot {
+  entry: JournalEntry;
+  x: number; // base of the stem
+  y: number;
+  size: number; // drawn height in CSS pixels
+  wilt: number; // 0-1, from distress
+  day: number; // days since the first session
+}
+
+// Same djb2 hash as elsewhere; keeps a flower on the same spot between visits
+const hashId = (id: string) => {
+  let h = 5381;
+  for (let i = 0; i < id.length; i++) h = ((h << 5) + h + id.charCodeAt(i)) >>> 0;
+  return h;
+};
+
+// Low distress blooms fully; above 0.3 the head starts to droop
+export const wiltFor = (distressScore: number) => Math.min(1, Math.max(0, (distressScore - 0.3) / 0.6));
+
+export const layoutGarden = (entries: JournalEntry[], width: number, height: number): GardenPlot[] => {
+  if (entries.length === 0) return [];
+  const sorted = [...entries].sort((a, b) => a.createdAt - b.createdAt);
+  const firstDay = Math.floor(sorted[0].createdAt / DAY_MS);
+  const span = Math.max(1, Math.floor(sorted[sorted.length - 1].createdAt / DAY_MS) - firstDay);
+
+  return sorted
+    .map(entry => {
+      const h = hashId(entry.id);
+      const day = (entry.createdAt / DAY_MS) - firstDay;
+      // Rows further back are higher up and a little smaller
+      const depth = (h % 1000) / 1000;
+      const y = height * (GROUND_TOP + depth * (GROUND_BOTTOM - GROUND_TOP));
+      const perspective = 0.7 + depth * 0.3;
+      const jitter = (((h >>> 10) % 1000) / 1000 - 0.5) * 16;
+      return {
+        entry,
+        x: PADDING + Math.min(1, day / span) * (width - PADDING * 2) + jitter,
+        y,
+        size: (50 + entry.result.flowerConfig.intensity * 8) * perspective,
+        wilt: wiltFor(entry.result.distressScore),
+        day
+      };
+    })
+    .sort((a, b) => a.y - b.y); // paint back to front
+};
+
+export const gardenSpanDays = (plots: GardenPlot[]) => plots.reduce((max, plot) => Math.max(max, plot.day), 0);
+
+export const renderFlowerSprite = (entry: JournalEntry, wilt: number, pixelRatio: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const size = Math.round(SPRITE_PIXELS * pixelRatio);
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  const scale = size / SPRITE_UNITS;
+  ctx.translate(size / 2, size - STEM_BASE_Y * scale);
+  ctx.scale(scale, scale);
+  // A settled moment of the animation: fully open, particles mid-drift
+  drawFlower(ctx, entry.result.flowerConfig, generateFlower(entry.result.flowerConfig), { seconds: 1, wilt });
+  return canvas;
+};
+
+// Where the head sits, for hit testing
+export const headPosition = (plot: GardenPlot) => ({
+  x: plot.x,
+  y: plot.y - plot.size * (STEM_BASE_Y / SPRITE_UNITS),
+  radius: plot.size * 0.22
+});
+
+export const findPlotAt = (plots: GardenPlot[], x: number, y: number): GardenPlot | null => {
+  // Front flowers win, so search from the end
+  for (let i = plots.length - 1; i >= 0; i--) {
+    const head = headPosition(plots[i]);
+    if (Math.hypot(head.x - x, head.y - y) <= head.radius) return plots[i];
+  }
+  return null;
+};
+
+const easeOut = (t: number) => 1 - Math.pow(1 - t, 3);
+
+interface GardenFrame {
+  width: number;
+  height: number;
+  plots: GardenPlot[];
+  sprites: Map<string, HTMLCanvasElement>;
+  cursorDay: number; // Infinity shows the whole garden grown
+  hoverId?: string | null;
+}
+
+export const drawGarden = (ctx: CanvasRenderingContext2D, { width, height, plots, sprites, cursorDay, hoverId }: GardenFrame) => {
+  const sky = ctx.createLinearGradient(0, 0, 0, height);
+  sky.addColorStop(0, '#EEF2FF');
+  sky.addColorStop(GROUND_TOP - 0.05, '#F8FAFC');
+  sky.addColorStop(GROUND_TOP, '#ECFCCB');
+  sky.addColorStop(1, '#D9F99D');
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, width, height);
+
+  for (const plot of plots) {
+    // Each flower grows over the first day after it was planted
+    const growth = easeOut(Math.min(1, Math.max(0, (cursorDay - plot.day) / 1)));
+    if (growth <= 0) continue;
+    const sprite = sprites.get(plot.entry.id);
+    if (!sprite) continue;
+    const drawn = plot.size * growth;
+    ctx.drawImage(sprite, plot.x - drawn / 2, plot.y - drawn, drawn, drawn);
+
+    if (plot.entry.id === hoverId) {
+      const head = headPosition(plot);
+      ctx.strokeStyle = 'rgba(51, 65, 85, 0.5)';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(head.x, head.y, head.radius, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+  }
+};
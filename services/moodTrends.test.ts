@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { JournalEntry, MediaType } from '../types';
+import { cannedResultFor } from './mockProvider';
+import { detectRisingDistress } from './moodTrends';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One entry per day, oldest first
+const entries = (...scores: number[]): JournalEntry[] =>
+  scores.map((distressScore, i) => ({
+    id: `entry-${i}`,
+    createdAt: Date.UTC(2026, 0, 1) + i * DAY_MS,
+    mediaType: MediaType.TEXT,
+    result: { ...cannedResultFor('drooping'), distressScore }
+  }));
+
+describe('detectRisingDistress', () => {
+  it('flags a steady climb over the latest sessions', () => {
+    expect(detectRisingDistress(entries(0.5, 0.2, 0.3, 0.45))).toEqual({ sessions: 3, from: 0.2, to: 0.45 });
+  });
+
+  it('orders by date, not by list position', () => {
+    expect(detectRisingDistress(entries(0.2, 0.3, 0.45).reverse())).toEqual({ sessions: 3, from: 0.2, to: 0.45 });
+  });
+
+  it('ignores a flat or falling run', () => {
+    expect(detectRisingDistress(entries(0.4, 0.4, 0.4, 0.4))).toBeNull();
+    expect(detectRisingDistress(entries(0.7, 0.5, 0.3))).toBeNull();
+    // Only the last two rise
+    expect(detectRisingDistress(entries(0.2, 0.6, 0.3, 0.5))).toBeNull();
+  });
+
+  it('ignores a climb too small to matter', () => {
+    expect(detectRisingDistress(entries(0.3, 0.35, 0.4))).toBeNull();
+  });
+
+  it('needs enough sessions', () => {
+    expect(detectRisingDistress(entries(0.1, 0.9))).toBeNull();
+    expect(detectRisingDistress([])).toBeNull();
+    expect(detectRisingDistress(entries(0.1, 0.5, 0.9), 4)).toBeNull();
+  });
+});
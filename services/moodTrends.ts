@@ -0,0 +1,133 @@
+import { FlowerStyle, JournalEntry } from "../types";
+import { FLOWER_STYLES } from "../constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrendPoint {
+  start: number; // epoch ms of the bucket's first day (local midnight)
+  averageDistress: number;
+  sessions: number;
+}
+
+export interface EmotionShare {
+  emotion: string;
+  style: FlowerStyle;
+  color: string;
+  count: number;
+  share: number; // 0-1
+}
+
+export interface Streaks {
+  current: number; // consecutive days ending today (or yesterday)
+  longest: number;
+}
+
+export interface RisingTrend {
+  sessions: number; // length of the consecutive rising run
+  from: number;
+  to: number;
+}
+
+const startOfDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Weeks start on Monday
+const startOfWeek = (timestamp: number) => {
+  const d = new Date(startOfDay(timestamp));
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+};
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const bucketDistress = (entries: JournalEntry[], bucketOf: (t: number) => number): TrendPoint[] => {
+  const buckets = new Map<number, number[]>();
+  for (const entry of entries) {
+    const key = bucketOf(entry.createdAt);
+    const scores = buckets.get(key) ?? [];
+    scores.push(entry.result.distressScore);
+    buckets.set(key, scores);
+  }
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, scores]) => ({ start, averageDistress: average(scores), sessions: scores.length }));
+};
+
+export const dailyDistress = (entries: JournalEntry[], sinceDays = 30, now = Date.now()): TrendPoint[] => {
+  const cutoff = startOfDay(now) - (sinceDays - 1) * DAY_MS;
+  return bucketDistress(entries.filter(e => e.createdAt >= cutoff), startOfDay);
+};
+
+export const weeklyDistress = (entries: JournalEntry[], sinceWeeks = 12, now = Date.now()): TrendPoint[] => {
+  const cutoff = startOfWeek(now) - (sinceWeeks - 1) * 7 * DAY_MS;
+  return bucketDistress(entries.filter(e => e.createdAt >= cutoff), startOfWeek);
+};
+
+// Groups by emotion label and colors each one by the flower style it most often produced
+export const emotionBreakdown = (entries: JournalEntry[]): EmotionShare[] => {
+  const byEmotion = new Map<string, Map<FlowerStyle, number>>();
+  for (const { result } of entries) {
+    const emotion = result.emotion.trim().toLowerCase();
+    const styles = byEmotion.get(emotion) ?? new Map<FlowerStyle, number>();
+    styles.set(result.flowerConfig.style, (styles.get(result.flowerConfig.style) ?? 0) + 1);
+    byEmotion.set(emotion, styles);
+  }
+
+  return [...byEmotion.entries()]
+    .map(([emotion, styles]) => {
+      const [style] = [...styles.entries()].sort(([, a], [, b]) => b - a)[0];
+      const count = [...styles.values()].reduce((sum, n) => sum + n, 0);
+      return {
+        emotion,
+        style,
+        color: FLOWER_STYLES[style]?.color ?? '#94A3B8',
+        count,
+        share: count / entries.length
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+};
+
+export const sessionStreaks = (entries: JournalEntry[], now = Date.now()): Streaks => {
+  const days = [...new Set(entries.map(e => startOfDay(e.createdAt)))].sort((a, b) => a - b);
+  if (days.length === 0) return { current: 0, longest: 0 };
+
+  // Compare by calendar day index so DST shifts don't break a run
+  const dayIndex = (t: number) => Math.round(t / DAY_MS);
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = dayIndex(days[i]) - dayIndex(days[i - 1]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const gapToToday = dayIndex(startOfDay(now)) - dayIndex(days[days.length - 1]);
+  return { current: gapToToday <= 1 ? run : 0, longest };
+};
+
+// Flags when the most recent sessions have each been more distressed than the one before.
+// A single bad session is handled by the crisis check; this catches a slow climb.
+export const detectRisingDistress = (
+  entries: JournalEntry[],
+  minSessions = 3,
+  minRise = 0.15
+): RisingTrend | null => {
+  const ordered = [...entries].sort((a, b) => a.createdAt - b.createdAt);
+  if (ordered.length < minSessions) return null;
+
+  let runStart = ordered.length - 1;
+  while (runStart > 0 && ordered[runStart].result.distressScore > ordered[runStart - 1].result.distressScore) {
+    runStart--;
+  }
+
+  const sessions = ordered.length - runStart;
+  const from = ordered[runStart].result.distressScore;
+  const to = ordered[ordered.length - 1].result.distressScore;
+  if (sessions < minSessions || to - from < minRise) return null;
+  return { sessions, from, to };
+};
@@ -0,0 +1,104 @@
+import { AcousticFeatures, AnalysisErrorKind, AnalysisProvider, AnalysisResult, JournalEntry, MediaType, QueuedSession, RequestOptions } from "../types";
+import { listQueuedSessions, listSessions, removeQueuedSession, saveSession, updateQueuedSession } from "./journalStore";
+import { classifyError, withRetry } from "./requestPipeline";
+import { assertWithinBudget, preprocessMedia, toInlinePayload } from "./mediaPreprocess";
+import { copingHistoryFor } from "./copingTracker";
+import { extractAcousticFeatures } from "./acousticFeatures";
+
+export interface DrainOptions {
+  provider: AnalysisProvider;
+  language?: string;
+  keepRawInput: boolean;
+}
+
+export interface DrainOutcome {
+  saved: JournalEntry[];
+  failed: QueuedSession[]; // given up on automatically; they need the user to retry or discard them
+}
+
+// Failures other than the connection are retried on this many reconnects before the user is asked
+const MAX_QUEUE_ATTEMPTS = 3;
+// These come back the same however often they are sent
+const PERMANENT_FAILURES: AnalysisErrorKind[] = ['safety', 'too_large'];
+
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Measured before the retries so a flaky connection doesn't decode the recording again
+const measureQueued = async (item: QueuedSession): Promise<AcousticFeatures | undefined> => {
+  if (item.mediaType === MediaType.TEXT || !item.media) return undefined;
+  try {
+    return (await extractAcousticFeatures(item.media)) ?? undefined;
+  } catch (err) {
+    console.warn("Acoustic features unavailable", err);
+    return undefined;
+  }
+};
+
+const analyzeQueued = async (provider: AnalysisProvider, item: QueuedSession, options: RequestOptions): Promise<AnalysisResult> => {
+  if (item.mediaType === MediaType.TEXT || !item.media) return provider.analyzeText(item.text ?? '', options);
+  const prepared = await preprocessMedia(item.media, item.mediaType, item.media.type, options.signal);
+  assertWithinBudget(prepared);
+  const payload = await toInlinePayload(prepared);
+  return provider.analyzeSession(payload.data, payload.mimeType, { ...options, frames: payload.frames });
+};
+
+const runDrain = async ({ provider, language, keepRawInput }: DrainOptions): Promise<DrainOutcome> => {
+  const queued = await listQueuedSessions();
+  const failed = queued.filter(item => item.failure);
+  const pending = queued.filter(item => !item.failure);
+  const saved: JournalEntry[] = [];
+  if (!pending.length) return { saved, failed };
+  const copingHistory = copingHistoryFor(await listSessions());
+
+  for (const item of pending) {
+    try {
+      const acoustics = await measureQueued(item);
+      const result = await withRetry(
+        signal => analyzeQueued(provider, item, { signal, language, copingHistory, acoustics }),
+        { timeoutMs: 60000 }
+      );
+      saved.push(await saveSession(result, item.mediaType, {
+        text: keepRawInput ? item.text : undefined,
+        media: keepRawInput ? item.media : undefined,
+        acoustics,
+        createdAt: item.createdAt
+      }));
+      await removeQueuedSession(item.id);
+    } catch (error) {
+      const failure = classifyError(error);
+      console.error("Queued session could not be analyzed", failure.kind, failure.cause ?? failure);
+      // Still no connection; the rest would fail the same way and it doesn't count against this one
+      if (failure.kind === 'network') break;
+      const attempts = (item.attempts ?? 0) + 1;
+      const givenUp = PERMANENT_FAILURES.includes(failure.kind) || attempts >= MAX_QUEUE_ATTEMPTS;
+      const updated: QueuedSession = { ...item, attempts, ...(givenUp ? { failure: failure.kind } : {}) };
+      try {
+        await updateQueuedSession(updated);
+      } catch (err) {
+        console.error("Queued session attempt could not be recorded", err);
+      }
+      if (givenUp) failed.push(updated);
+    }
+  }
+  return { saved, failed };
+};
+
+let draining: Promise<DrainOutcome> | null = null;
+
+// Analyzes queued sessions oldest first and files them in the journal. Concurrent calls share one run.
+// Sessions that keep failing are handed back in `failed` rather than retried forever.
+export const drainQueue = (options: DrainOptions): Promise<DrainOutcome> => {
+  if (!draining) {
+    draining = runDrain(options).finally(() => {
+      draining = null;
+    });
+  }
+  return draining;
+};
+
+// Back into the automatic queue with a fresh count
+export const retryQueuedSessions = (items: QueuedSession[]): Promise<void[]> =>
+  Promise.all(items.map(({ attempts, failure, ...item }) => updateQueuedSession(item)));
+
+export const discardQueuedSessions = (items: QueuedSession[]): Promise<void[]> =>
+  Promise.all(items.map(item => removeQueuedSession(item.id)));
@@ -0,0 +1,86 @@
+import { ReminderSettings } from "../types";
+
+// Must match REMINDER_SYNC_TAG in public/sw.js
+const REMINDER_SYNC_TAG = 'echotherapy-checkin';
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const MAX_REMINDERS = 3;
+
+export const supportsReminders = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestReminderPermission = async (): Promise<NotificationPermission> =>
+  Notification.permission === 'default' ? Notification.requestPermission() : Notification.permission;
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Quiet hours may wrap past midnight, e.g. 22:00 to 07:00
+export const inQuietHours = (reminders: ReminderSettings, date: Date) => {
+  const start = minutesOf(reminders.quietStart);
+  const end = minutesOf(reminders.quietEnd);
+  const now = date.getHours() * 60 + date.getMinutes();
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+// The next reminder that isn't silenced by quiet hours, or null if every time falls inside them
+export const nextReminderAt = (reminders: ReminderSettings, now = Date.now()): number | null => {
+  const candidates = reminders.times.flatMap(time => {
+    const at = new Date(now);
+    const minutes = minutesOf(time);
+    at.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    return [at.getTime(), at.getTime() + DAY_MS];
+  });
+  const upcoming = candidates
+    .filter(at => at > now && !inQuietHours(reminders, new Date(at)))
+    .sort((a, b) => a - b);
+  return upcoming[0] ?? null;
+};
+
+const workerRegistration = async () =>
+  'serviceWorker' in navigator ? navigator.serviceWorker.getRegistration() : undefined;
+
+// The service worker decides whether a reminder is due so the page and background checks never double up
+const checkNow = async () => {
+  const registration = await workerRegistration();
+  if (registration?.active) {
+    registration.active.postMessage({ type: 'check-reminders' });
+  } else if (Notification.permission === 'granted') {
+    new Notification('Time for a check-in', { body: 'How are you feeling right now? Take a minute to share it.', icon: '/icon.svg' });
+  }
+};
+
+// Hands the settings to the service worker and asks for background wake-ups where the browser allows them
+export const syncReminders = async (reminders: ReminderSettings): Promise<void> => {
+  const registration = await workerRegistration();
+  if (!registration?.active) return;
+  registration.active.postMessage({ type: 'reminders', reminders });
+
+  const periodicSync = (registration as ServiceWorkerRegistration & {
+    periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void>; unregister: (tag: string) => Promise<void> };
+  }).periodicSync;
+  if (!periodicSync) return;
+  try {
+    if (reminders.enabled) await periodicSync.register(REMINDER_SYNC_TAG, { minInterval: 60 * 60 * 1000 });
+    else await periodicSync.unregister(REMINDER_SYNC_TAG);
+  } catch (err) {
+    // Only granted to installed apps; reminders still work while the app is open
+    console.info("Background reminders unavailable", err);
+  }
+};
+
+// Fires reminders while the app is open. Returns a function that stops the schedule.
+export const scheduleReminders = (reminders: ReminderSettings): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const scheduleNext = () => {
+    const at = nextReminderAt(reminders);
+    if (at === null) return;
+    timer = setTimeout(() => {
+      checkNow().catch(err => console.warn("Reminder failed", err));
+      scheduleNext();
+    }, at - Date.now());
+  };
+  if (reminders.enabled && supportsReminders()) scheduleNext();
+  return () => clearTimeout(timer);
+};
@@ -0,0 +1,91 @@
+import html2canvas from 'html2canvas';
+
+// A4 at 96dpi; the report is laid out at this width so one CSS pixel maps straight onto the page
+export const REPORT_PAGE_WIDTH = 794;
+const PAGE_HEIGHT = 1123;
+const RENDER_SCALE = 2;
+
+// Page breaks fall between elements marked data-report-block, never through one
+const pageBreaks = (node: HTMLElement, pageHeight: number): number[] => {
+  const top = node.getBoundingClientRect().top;
+  const blocks = [...node.querySelectorAll<HTMLElement>('[data-report-block]')].map(block => {
+    const rect = block.getBoundingClientRect();
+    return { start: rect.top - top, end: rect.bottom - top };
+  });
+  const breaks = [0];
+  for (const block of blocks) {
+    const pageStart = breaks[breaks.length - 1];
+    // A block taller than a page has to be cut somewhere; let it run
+    if (block.end - pageStart > pageHeight && block.start > pageStart) breaks.push(block.start);
+  }
+  breaks.push(node.scrollHeight);
+  return breaks;
+};
+
+// Each page as a PNG data URL
+export const renderReportPages = async (node: HTMLElement): Promise<string[]> => {
+  const breaks = pageBreaks(node, PAGE_HEIGHT);
+  const canvas = await html2canvas(node, { backgroundColor: '#ffffff', scale: RENDER_SCALE, useCORS: true });
+  const pages: string[] = [];
+  for (let i = 0; i < breaks.length - 1; i++) {
+    const start = Math.round(breaks[i] * RENDER_SCALE);
+    const height = Math.round(breaks[i + 1] * RENDER_SCALE) - start;
+    if (height <= 0) continue;
+    const page = document.createElement('canvas');
+    page.width = canvas.width;
+    page.height = Math.round(PAGE_HEIGHT * RENDER_SCALE);
+    const ctx = page.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, page.width, page.height);
+    ctx.drawImage(canvas, 0, start, canvas.width, height, 0, 0, canvas.width, height);
+    pages.push(page.toDataURL('image/png'));
+  }
+  return pages;
+};
+
+// A self-contained page that opens anywhere and prints one image per sheet
+export const buildReportHtml = (pages: string[], title: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${title.replace(/</g, '&lt;')}</title>
+<style>
+  @page { size: A4; margin: 0; }
+  body { margin: 0; background: #e2e8f0; }
+  img { display: block; width: 210mm; margin: 0 auto 16px; background: #fff; }
+  @media print {
+    body { background: #fff; }
+    img { margin: 0; page-break-after: always; }
+  }
+</style>
+</head>
+<body>
+${pages.map((src, i) => `<img src="${src}" alt="Page ${i + 1} of ${pages.length}" />`).join('\n')}
+</body>
+</html>`;
+
+// Prints from a hidden frame so no pop-up is needed; the browser's print dialog offers "Save as PDF"
+export const printReportHtml = (html: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+      const view = frame.contentWindow;
+      if (!view) {
+        frame.remove();
+        reject(new Error('Print frame unavailable'));
+        return;
+      }
+      view.addEventListener('afterprint', () => frame.remove());
+      // Some browsers never fire afterprint; don't leave the frame behind for good
+      setTimeout(() => frame.remove(), 60000);
+      view.focus();
+      view.print();
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
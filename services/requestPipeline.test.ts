@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisRequestError, classifyError, withRetry } from './requestPipeline';
+import { AnalysisValidationError } from './analysisValidation';
+
+const failing = (error: unknown) => vi.fn(async (_signal: AbortSignal): Promise<string> => {
+  throw error;
+});
+
+// Never settles on its own, like a backend that ignores the abort signal
+const hanging = () => new Promise<string>(() => undefined);
+
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as AnalysisRequestError;
+  }
+  throw new Error('expected the call to fail');
+};
+
+describe('classifyError', () => {
+  it('sorts failures into the kinds the UI explains', () => {
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(classifyError(Object.assign(new Error('Internal error'), { status: 503 })).kind).toBe('network');
+    expect(classifyError(Object.assign(new Error('Too many requests'), { status: 429 })).kind).toBe('quota');
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED: quota exceeded')).kind).toBe('quota');
+    expect(classifyError(new Error('Response was blocked due to SAFETY')).kind).toBe('safety');
+    expect(classifyError(new AnalysisValidationError(['distressScore is missing'])).kind).toBe('bad_output');
+    expect(classifyError(Object.assign(new Error('Request too large'), { status: 413 })).kind).toBe('too_large');
+    expect(classifyError(new DOMException('Aborted', 'AbortError')).kind).toBe('cancelled');
+    expect(classifyError('something odd').kind).toBe('unknown');
+  });
+
+  it('passes an already classified error through', () => {
+    const error = new AnalysisRequestError('timeout');
+    expect(classifyError(error)).toBe(error);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures the configured number of times', async () => {
+    const run = failing(new TypeError('Failed to fetch'));
+    const error = await rejection(withRetry(run, { retries: 2, baseDelayMs: 1 }));
+    expect(error.kind).toBe('network');
+    expect(run).toHaveBeenCalledTimes(3);
+    // One backoff between each pair of attempts
+    expect(console.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns as soon as an attempt succeeds', async () => {
+    const run = vi.fn(async () => 'ok')
+      .mockRejectedValueOnce(Object.assign(new Error('Too many requests'), { status: 429 }));
+    await expect(withRetry(run, { retries: 2, baseDelayMs: 1 })).resolves.toBe('ok');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry failures that would repeat', async () => {
+    const run = failing(new Error('Response was blocked due to SAFETY'));
+    const error = await rejection(withRetry(run, { retries: 2, baseDelayMs: 1 }));
+    expect(error.kind).toBe('safety');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts an attempt that runs past its timeout', async () => {
+    let seen: AbortSignal | undefined;
+    const run = vi.fn((signal: AbortSignal) => {
+      seen = signal;
+      return hanging();
+    });
+    const error = await rejection(withRetry(run, { retries: 0, timeoutMs: 10 }));
+    expect(error.kind).toBe('timeout');
+    expect(seen?.aborted).toBe(true);
+  });
+
+  it('stops retrying once the caller aborts during the backoff', async () => {
+    const controller = new AbortController();
+    const run = failing(new TypeError('Failed to fetch'));
+    const pending = withRetry(run, { signal: controller.signal, retries: 3, baseDelayMs: 1000 });
+    setTimeout(() => controller.abort(), 10);
+    const error = await rejection(pending);
+    expect(error.kind).toBe('cancelled');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels the attempt in flight when the caller aborts', async () => {
+    const controller = new AbortController();
+    let seen: AbortSignal | undefined;
+    const run = vi.fn((signal: AbortSignal) => {
+      seen = signal;
+      return hanging();
+    });
+    const pending = withRetry(run, { signal: controller.signal, retries: 3, timeoutMs: 1000 });
+    controller.abort();
+    const error = await rejection(pending);
+    expect(error.kind).toBe('cancelled');
+    expect(seen?.aborted).toBe(true);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when the caller has already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const run = vi.fn(async () => 'ok');
+    const error = await rejection(withRetry(run, { signal: controller.signal }));
+    expect(error.kind).toBe('cancelled');
+    expect(run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { AnalysisErrorKind } from "../types";
+import { AnalysisValidationError } from "./analysisValidation";
+
+// What the user sees for each failure class
+export const ERROR_MESSAGES: Record<AnalysisErrorKind, string> = {
+  network: 'We lost the connection while listening. Check your internet and try again.',
+  timeout: 'This is taking longer than it should. Please try again in a moment.',
+  quota: 'We\'re getting a lot of requests right now. Please wait a minute and try again.',
+  safety: 'We weren\'t able to reflect on this recording. If you are in danger, please reach out to a crisis line or someone you trust.',
+  bad_output: 'We heard you, but couldn\'t put together a clear reflection. Please try again.',
+  too_large: 'That recording is too large to send. Try a shorter one.',
+  cancelled: 'Cancelled.',
+  unknown: 'We couldn\'t quite catch that. Please try again.'
+};
+
+// Transient failures worth another attempt; the rest will fail the same way again
+const RETRYABLE: AnalysisErrorKind[] = ['network', 'timeout', 'quota'];
+
+export class AnalysisRequestError extends Error {
+  kind: AnalysisErrorKind;
+  cause?: unknown;
+
+  constructor(kind: AnalysisErrorKind, message?: string, cause?: unknown) {
+    super(message || ERROR_MESSAGES[kind]);
+    this.name = 'AnalysisRequestError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const classifyError = (error: unknown): AnalysisRequestError => {
+  if (error instanceof AnalysisRequestError) return error;
+  if (error instanceof AnalysisValidationError) return new AnalysisRequestError('bad_output', error.message, error);
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+  const status = statusOf(error);
+
+  if (name === 'AbortError') return new AnalysisRequestError('cancelled', message, error);
+  if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) return new AnalysisRequestError('quota', message, error);
+  if (status === 413 || /payload|too large|request size|exceeds the maximum/i.test(message)) return new AnalysisRequestError('too_large', message, error);
+  if (/safety|blocked|prohibited/i.test(message)) return new AnalysisRequestError('safety', message, error);
+  if (status !== undefined && status >= 500) return new AnalysisRequestError('network', message, error);
+  if (error instanceof TypeError || /network|failed to fetch|load failed|offline/i.test(message)) {
+    return new AnalysisRequestError('network', message, error);
+  }
+  return new AnalysisRequestError('unknown', message, error);
+};
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number; // extra attempts after the first
+  timeoutMs?: number; // per attempt
+  baseDelayMs?: number;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AnalysisRequestError('cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs one attempt under its own controller so a timeout or an outer cancel both abort it
+const attempt = async <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  outer?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  // Not every backend honours the signal, so race it as well
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => {
+      reject(new AnalysisRequestError(timedOut ? 'timeout' : 'cancelled'));
+    }, { once: true });
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), aborted]);
+  } catch (error) {
+    if (timedOut) throw new AnalysisRequestError('timeout', undefined, error);
+    if (outer?.aborted) throw new AnalysisRequestError('cancelled', undefined, error);
+    throw classifyError(error);
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Exponential backoff with jitter: ~1s, ~2s, ~4s...
+export const withRetry = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  { signal, retries = 2, timeoutMs = 45000, baseDelayMs = 1000 }: RetryOptions = {}
+): Promise<T> => {
+  for (let i = 0; ; i++) {
+    if (signal?.aborted) throw new AnalysisRequestError('cancelled');
+    try {
+      return await attempt(run, timeoutMs, signal);
+    } catch (error) {
+      const classified = classifyError(error);
+      if (i >= retries || !RETRYABLE.includes(classified.kind)) throw classified;
+      const backoff = baseDelayMs * 2 ** i * (0.75 + Math.random() * 0.5);
+      console.warn(`Attempt ${i + 1} failed (${classified.kind}), retrying in ${Math.round(backoff)}ms`);
+      await sleep(backoff, signal);
+    }
+  }
+};
@@ -0,0 +1,30 @@
+import { SafetyPlan, TrustedContact } from "../types";
+import { contactHref } from "./crisisResources";
+
+export const EMPTY_SAFETY_PLAN: SafetyPlan = {
+  warningSigns: [],
+  reasonsToLive: [],
+  contacts: [],
+  trustedContact: null,
+  updatedAt: null
+};
+
+export const DEFAULT_TRUSTED_MESSAGE =
+  'I\'m having a really hard time right now and I don\'t want to be alone with it. Could you call me or come over?';
+
+export const hasSafetyPlan = (plan: SafetyPlan | null): plan is SafetyPlan =>
+  !!plan && (plan.warningSigns.length + plan.reasonsToLive.length + plan.contacts.length > 0 || !!plan.trustedContact);
+
+// Opens the messaging app with the message drafted; nothing is sent until the user presses send
+export const trustedContactHref = (contact: TrustedContact): string =>
+  contactHref({
+    kind: 'text',
+    name: contact.name,
+    value: contact.phone.replace(/[^\d+]/g, ''),
+    body: contact.message.trim() || DEFAULT_TRUSTED_MESSAGE,
+    display: contact.phone
+  });
+
+// One item per line in the editor; blank lines are dropped
+export const linesToItems = (text: string): string[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean);
@@ -0,0 +1,42 @@
+import { AppSettings } from "../types";
+
+const STORAGE_KEY = 'echotherapy.settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  crisisRegion: null,
+  liveAnalysis: false, // opt-in: it sends partial recordings while the user is still speaking
+  language: null,
+  voice: { voice: 'Kore', pace: 'normal', style: 'neutral' },
+  captions: true,
+  keepRawInput: true,
+  consentAcceptedAt: null,
+  reminders: { enabled: false, times: ['20:00'], quietStart: '22:00', quietEnd: '07:00' },
+  recording: { maxSeconds: 30, audioDeviceId: null, videoDeviceId: null }
+};
+
+// Unknown or missing keys fall back to defaults so older saved settings keep working
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      voice: { ...DEFAULT_SETTINGS.voice, ...parsed.voice },
+      reminders: { ...DEFAULT_SETTINGS.reminders, ...parsed.reminders },
+      recording: { ...DEFAULT_SETTINGS.recording, ...parsed.recording }
+    };
+  } catch (err) {
+    console.warn("Settings could not be read, using defaults", err);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Settings save failed", err);
+  }
+};
@@ -0,0 +1,44 @@
+import { SpeechPace } from "../types";
+
+// Used when the provider's TTS fails, so a session never ends silent
+
+const PACE_RATES: Record<SpeechPace, number> = {
+  slower: 0.8,
+  normal: 0.95,
+  faster: 1.1
+};
+
+export const supportsSpeechFallback = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Prefers a local voice for the language; the browser picks one when none match
+const pickVoice = (language?: string) => {
+  if (!language) return null;
+  const voices = window.speechSynthesis.getVoices().filter(v => v.lang.toLowerCase().startsWith(language.toLowerCase()));
+  return voices.find(v => v.localService) ?? voices[0] ?? null;
+};
+
+export const speakFallback = (
+  text: string,
+  { language, pace = 'normal', onEnd, onBoundary }: {
+    language?: string;
+    pace?: SpeechPace;
+    onEnd?: () => void;
+    onBoundary?: (charIndex: number) => void; // drives captions; not every voice reports boundaries
+  } = {}
+) => {
+  if (!supportsSpeechFallback()) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voice = pickVoice(language);
+  if (voice) utterance.voice = voice;
+  if (language) utterance.lang = language;
+  utterance.rate = PACE_RATES[pace];
+  utterance.onboundary = event => onBoundary?.(event.charIndex);
+  utterance.onend = () => onEnd?.();
+  utterance.onerror = () => onEnd?.();
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeechFallback = () => {
+  if (supportsSpeechFallback()) window.speechSynthesis.cancel();
+};
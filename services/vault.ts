@@ -0,0 +1,135 @@
+// Passcode lock and at-rest encryption for the journal.
+// A key is derived from the passcode with PBKDF2 and used for AES-GCM; it only ever lives in memory.
+// The passcode itself is never stored: a small encrypted check value proves a passcode is right.
+
+const STORAGE_KEY = 'echotherapy.vault';
+const PBKDF2_ITERATIONS = 310000;
+const CHECK_TEXT = 'echotherapy-vault-check';
+export const MIN_PASSCODE_LENGTH = 4;
+
+export interface SealedBox {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface StoredBox {
+  iv: string;
+  data: string;
+}
+
+interface VaultConfig {
+  salt: string; // base64
+  iterations: number;
+  check: StoredBox;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The journal is locked');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class WrongPasscodeError extends Error {
+  constructor() {
+    super('That passcode is not right');
+    this.name = 'WrongPasscodeError';
+  }
+}
+
+let activeKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const readConfig = (): VaultConfig | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (err) {
+    console.warn("Vault settings could not be read", err);
+    return null;
+  }
+};
+
+const deriveKey = async (passcode: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const seal = async (key: CryptoKey, bytes: BufferSource): Promise<SealedBox> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv, data };
+};
+
+const open = (key: CryptoKey, box: SealedBox): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: box.iv }, key, box.data);
+
+export const supportsVault = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const isVaultEnabled = () => readConfig() !== null;
+
+export const isVaultLocked = () => isVaultEnabled() && activeKey === null;
+
+// Sets a new passcode and unlocks with it. Re-encrypting existing data is the journal store's job.
+export const createVault = async (passcode: string): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passcode, salt, PBKDF2_ITERATIONS);
+  const check = await seal(key, new TextEncoder().encode(CHECK_TEXT));
+  const config: VaultConfig = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: { iv: toBase64(check.iv), data: toBase64(new Uint8Array(check.data)) }
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  activeKey = key;
+};
+
+export const unlockVault = async (passcode: string): Promise<void> => {
+  const config = readConfig();
+  if (!config) return;
+  const key = await deriveKey(passcode, fromBase64(config.salt), config.iterations);
+  try {
+    const check = await open(key, { iv: fromBase64(config.check.iv), data: fromBase64(config.check.data).buffer });
+    if (new TextDecoder().decode(check) !== CHECK_TEXT) throw new WrongPasscodeError();
+  } catch {
+    throw new WrongPasscodeError();
+  }
+  activeKey = key;
+};
+
+export const lockVault = () => {
+  activeKey = null;
+};
+
+export const removeVault = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  activeKey = null;
+};
+
+const requireKey = () => {
+  if (!activeKey) throw new VaultLockedError();
+  return activeKey;
+};
+
+export const sealJson = (value: unknown): Promise<SealedBox> =>
+  seal(requireKey(), new TextEncoder().encode(JSON.stringify(value)));
+
+export const openJson = async <T>(box: SealedBox): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await open(requireKey(), box)));
+
+export const sealBytes = (bytes: ArrayBuffer): Promise<SealedBox> => seal(requireKey(), bytes);
+
+export const openBytes = (box: SealedBox): Promise<ArrayBuffer> => open(requireKey(), box);
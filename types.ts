@@ -1,8 +1,21 @@
+export type FlowerStyle = 'spiky' | 'drooping' | 'trembling' | 'calm' | 'particle';
+
+// One strand of a mixed feeling, e.g. { emotion: 'anxiety', style: 'trembling', weight: 0.6 }
+export interface EmotionBlendPart {
+  emotion: string;
+  style: FlowerStyle;
+  weight: number; // 0-1; weights in a blend sum to 1
+}
+
 export interface FlowerConfig {
   baseColor: string;
   intensity: number; // 1-10
   bloomSpeed: number; // 1-5
-  style: 'spiky' | 'drooping' | 'trembling' | 'calm' | 'particle';
+  style: FlowerStyle; // the dominant style, kept for older entries and simple views
+  // Added later; older saved entries won't have these and fall back to a single-style flower
+  secondaryColors?: string[];
+  blend?: EmotionBlendPart[];
+  seed?: number; // drives every procedural choice, so a session always redraws the same flower
 }
 
 export interface AnalysisResult {
@@ -14,12 +27,254 @@ export interface AnalysisResult {
   distressScore: number; // 0.0 to 1.0 (1.0 = high crisis)
 }
 
+export type PitchTrend = 'rising' | 'falling' | 'steady';
+
+// Measured on the device from the recording's sound; null where the recording gave too little to go on
+export interface AcousticFeatures {
+  durationSeconds: number;
+  speakingRate: number | null; // estimated syllables per second of speech
+  pauseRatio: number | null; // 0-1, share of the spoken stretch spent in pauses of 250ms or more
+  medianPitchHz: number | null;
+  pitchRangeSemitones: number | null; // 10th to 90th percentile
+  pitchTrend: PitchTrend | null;
+  energyDb: number | null; // mean loudness of speech, dBFS
+  energyVariabilityDb: number | null;
+  jitterPercent: number | null; // frame-to-frame pitch period variation
+  pitchContour: number[]; // Hz per step, 0 where unvoiced
+  contourStepSeconds: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Language code (e.g. 'es') for everything written back to the user; omitted = match the user
+  language?: string;
+  // What has and hasn't worked for this user before, so new plans lean on what helps
+  copingHistory?: CopingHistory;
+  acoustics?: AcousticFeatures; // only used by analyzeSession
+  frames?: InlineMedia[]; // only used by analyzeSession: stills from a video sent as its soundtrack
+}
+
+// Base64 media sent alongside the main payload
+export interface InlineMedia {
+  data: string;
+  mimeType: string;
+}
+
+export interface CopingHistory {
+  helped: string[]; // short descriptions of kinds of practice, most effective first
+  didNotHelp: string[];
+}
+
+export type PracticeRating = 'helped' | 'somewhat' | 'not_really';
+
+// What the user did with one coping step; steps are matched by their text
+export interface CopingPractice {
+  step: string;
+  doneAt?: number;
+  timerSeconds?: number; // time practised with the step timer
+  rating?: PracticeRating;
+  distressBefore: number; // the session's distressScore when the step was suggested
+  distressAfter?: number; // 0-1, from the "how do you feel now?" check-in
+}
+
+export type SpeechPace = 'slower' | 'normal' | 'faster';
+export type SpeechStyle = 'neutral' | 'warmer' | 'whispered';
+
+export interface VoiceOptions {
+  voice: string; // one of the provider's prebuilt voices
+  pace: SpeechPace;
+  style: SpeechStyle;
+}
+
+export interface SpeechRequestOptions extends RequestOptions {
+  voice?: VoiceOptions;
+}
+
+export type FollowUpMessage =
+  | { kind: 'text'; text: string }
+  | { kind: 'media'; mediaBase64: string; mimeType: string };
+
+export interface FollowUpReply {
+  result: AnalysisResult;
+  heard: string; // the model's paraphrase of the follow-up, so voice replies have a text form
+}
+
+export interface ConversationTurn {
+  id: string;
+  createdAt: number;
+  source: 'text' | 'voice';
+  message: string; // typed text, or the paraphrase of a voice reply
+  result: AnalysisResult;
+}
+
+export interface ConversationState {
+  turns: ConversationTurn[]; // follow-ups after the initial reflection
+  status: 'idle' | 'sending' | 'error';
+  errorMessage?: string;
+}
+
+// A quick, provisional read taken from the recording so far, shown while the user is still speaking
+export interface EmotionCue {
+  emotion: string;
+  note: string; // a few words on what was noticed, e.g. "voice getting quieter"
+  flower: FlowerConfig;
+  atSeconds: number; // recording length the cue was based on
+}
+
+// A backend that turns a recording into a reflection and speaks the affirmation.
+// Audio is raw mono 16-bit PCM at 24kHz.
+export interface AnalysisProvider {
+  name: string;
+  analyzeSession: (mediaBase64: string, mimeType: string, options?: RequestOptions) => Promise<AnalysisResult>;
+  analyzeText: (text: string, options?: RequestOptions) => Promise<AnalysisResult>;
+  continueSession: (
+    initial: AnalysisResult,
+    turns: ConversationTurn[],
+    message: FollowUpMessage,
+    options?: RequestOptions
+  ) => Promise<FollowUpReply>;
+  generateAffirmationAudio: (text: string, options?: SpeechRequestOptions) => Promise<ArrayBuffer>;
+  // Optional: backends without it fall back to analysing only once recording stops
+  analyzeCue?: (mediaBase64: string, mimeType: string, options?: RequestOptions) => Promise<Omit<EmotionCue, 'atSeconds'>>;
+}
+
+export type AnalysisErrorKind = 'network' | 'timeout' | 'quota' | 'safety' | 'bad_output' | 'too_large' | 'cancelled' | 'unknown';
+
+// Size of the media actually sent, after preprocessing
+export interface PayloadSize {
+  bytes: number;
+  originalBytes: number;
+}
+
 export interface ProcessingState {
-  status: 'idle' | 'recording' | 'analyzing' | 'completed' | 'error';
+  status: 'idle' | 'recording' | 'analyzing' | 'queued' | 'completed' | 'error';
   errorMessage?: string;
+  errorKind?: AnalysisErrorKind;
+  payload?: PayloadSize;
 }
 
 export enum MediaType {
   AUDIO = 'audio',
-  VIDEO = 'video'
-}
\ No newline at end of file
+  VIDEO = 'video',
+  TEXT = 'text'
+}
+
+// A session captured while offline, analyzed once the connection is back
+export interface QueuedSession {
+  id: string;
+  createdAt: number;
+  mediaType: MediaType;
+  text?: string; // written sessions
+  media?: Blob; // recorded or imported sessions
+  attempts?: number; // analyses that failed for a reason other than the connection
+  failure?: AnalysisErrorKind; // set once it is no longer retried automatically; the user retries or discards it
+}
+
+export interface JournalEntry {
+  id: string;
+  createdAt: number; // epoch ms
+  mediaType: MediaType;
+  result: AnalysisResult; // the initial reflection
+  text?: string; // what the user wrote, for text sessions
+  followUps?: ConversationTurn[];
+  hasMedia?: boolean; // the recording was kept; load it with loadSessionMedia
+  practices?: CopingPractice[];
+  acoustics?: AcousticFeatures;
+  safetyCheck?: SafetyAnswer; // first answer to "are you safe right now?" in high-distress sessions
+  safeLaterAt?: number; // epoch ms the user said "I'm safe now" after answering not safe; safetyCheck stays 'not_safe'
+}
+
+export type DistressTier = 'none' | 'elevated' | 'crisis';
+
+export interface CrisisContact {
+  name: string;
+  kind: 'call' | 'text' | 'web';
+  value: string; // dialable number or URL
+  body?: string; // pre-filled keyword for text lines
+  display: string;
+}
+
+export interface CrisisRegion {
+  country: string; // ISO 3166-1 alpha-2, or INTL
+  name: string;
+  emergency: string;
+  contacts: CrisisContact[];
+  sources: string[]; // Official pages the numbers were checked against
+}
+
+export type SafetyAnswer = 'safe' | 'not_safe';
+
+export interface TrustedContact {
+  name: string;
+  phone: string;
+  message: string; // pre-filled into a text message; the user can still edit it before sending
+}
+
+// Written by the user ahead of time, shown back to them when distress is very high
+export interface SafetyPlan {
+  warningSigns: string[];
+  reasonsToLive: string[];
+  contacts: string[]; // people and places that help, in the user's own words
+  trustedContact: TrustedContact | null;
+  updatedAt: number | null;
+}
+
+export interface CrisisDataset {
+  version: string;
+  reviewed: string; // ISO date
+  fallback: string;
+  regions: CrisisRegion[];
+}
+
+export interface AppSettings {
+  crisisRegion: string | null; // null = detect from browser locale
+  liveAnalysis: boolean; // show emerging cues while recording, when the backend supports it
+  language: string | null; // null = reply in whatever language the user used
+  voice: VoiceOptions;
+  captions: boolean; // show the affirmation line by line while it is spoken
+  // Off = only the reflection is stored: no recordings, written entries or follow-up wording
+  keepRawInput: boolean;
+  consentAcceptedAt: number | null; // when the user agreed to recordings being sent for analysis
+  reminders: ReminderSettings;
+  recording: RecordingSettings;
+}
+
+export interface RecordingSettings {
+  maxSeconds: number; // one of RECORDING_DURATIONS
+  // null = the browser's default device; ids come from enumerateDevices
+  audioDeviceId: string | null;
+  videoDeviceId: string | null;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  times: string[]; // 'HH:MM' in local time, once a day each
+  quietStart: string; // 'HH:MM'; no reminders from here...
+  quietEnd: string; // ...until here, wrapping past midnight
+}
+
+export type BreathPhaseKind = 'inhale' | 'top-up' | 'hold' | 'exhale';
+
+export interface BreathPhase {
+  kind: BreathPhaseKind;
+  seconds: number;
+  label: string;
+}
+
+export interface BreathingPattern {
+  id: string;
+  name: string;
+  description: string;
+  rounds: number;
+  phases: BreathPhase[];
+}
+
+export interface BreathingRecord {
+  id: string;
+  patternId: string;
+  sessionId?: string; // journal entry the exercise was started from
+  startedAt: number;
+  endedAt: number;
+  roundsCompleted: number;
+  completed: boolean;
+}
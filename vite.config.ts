@@ -1,7 +1,35 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// public/sw.js is copied as-is; this writes the hashed bundle files into it so they are precached on install.
+// The list changes with every build, which also makes browsers pick up the new worker.
+const BUILD_ASSETS_PLACEHOLDER = '[/* build assets */]';
+
+const precacheBuildAssets = (): Plugin => {
+  let outDir = 'dist';
+  let assets: string[] = [];
+  return {
+    name: 'precache-build-assets',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    generateBundle(_, bundle) {
+      assets = Object.keys(bundle).filter(file => file.startsWith('assets/') && !file.endsWith('.map')).map(file => `/${file}`);
+    },
+    writeBundle() {
+      const worker = path.join(outDir, 'sw.js');
+      const source = fs.readFileSync(worker, 'utf8');
+      if (!source.includes(BUILD_ASSETS_PLACEHOLDER)) {
+        throw new Error(`sw.js is missing the ${BUILD_ASSETS_PLACEHOLDER} placeholder for build assets`);
+      }
+      fs.writeFileSync(worker, source.replace(BUILD_ASSETS_PLACEHOLDER, JSON.stringify(assets)));
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +37,11 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheBuildAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER)
       },
       resolve: {
         alias: {